@@ -0,0 +1,7 @@
+-- Change detection for re-ingested feedback
+
+-- Rows ingested before this migration have no content hash: their next re-ingest counts as a change
+ALTER TABLE feedback ADD COLUMN content_hash TEXT;
+ALTER TABLE feedback ADD COLUMN updated_at TEXT;
+ALTER TABLE feedback ADD COLUMN revision INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE classifications ADD COLUMN stale INTEGER NOT NULL DEFAULT 0;
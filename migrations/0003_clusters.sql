@@ -0,0 +1,30 @@
+-- Near-duplicate clusters
+
+-- Embeddings used for near-duplicate detection (D1VectorIndex)
+CREATE TABLE IF NOT EXISTS feedback_embeddings (
+    feedback_id TEXT PRIMARY KEY,
+    model TEXT NOT NULL,
+    vector TEXT NOT NULL,                  -- JSON array of floats
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+-- Clusters of near-duplicate feedback (the same complaint reported in different words/places)
+CREATE TABLE IF NOT EXISTS clusters (
+    id TEXT PRIMARY KEY,
+    representative_id TEXT NOT NULL,       -- First report in the cluster
+    title TEXT NOT NULL,
+    report_count INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS cluster_members (
+    feedback_id TEXT PRIMARY KEY,
+    cluster_id TEXT NOT NULL,
+    similarity REAL,                       -- Similarity to the closest report when joining
+    added_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id),
+    FOREIGN KEY (cluster_id) REFERENCES clusters(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cluster_members_cluster ON cluster_members(cluster_id);
@@ -0,0 +1,17 @@
+-- Follow-up comments attached to their thread root
+
+ALTER TABLE feedback ADD COLUMN parent_id TEXT REFERENCES feedback(id);
+
+-- Sentiment/urgency of a thread each time it is (re)classified
+CREATE TABLE IF NOT EXISTS thread_sentiment (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    thread_id TEXT NOT NULL,
+    sentiment INTEGER NOT NULL,
+    urgency INTEGER NOT NULL,
+    reply_count INTEGER NOT NULL,
+    recorded_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (thread_id) REFERENCES feedback(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_parent ON feedback(parent_id);
+CREATE INDEX IF NOT EXISTS idx_thread_sentiment_thread ON thread_sentiment(thread_id);
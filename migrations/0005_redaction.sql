@@ -0,0 +1,22 @@
+-- PII redaction reports and originals
+
+-- PII redaction report per feedback item (placeholder types only, never the redacted values)
+CREATE TABLE IF NOT EXISTS redaction_reports (
+    feedback_id TEXT PRIMARY KEY,
+    redacted_count INTEGER NOT NULL DEFAULT 0,
+    entries TEXT NOT NULL,                 -- JSON array of {type, placeholder, field}
+    redacted_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+-- Unredacted originals, kept only when redaction store_original is enabled
+-- Access restricted: never joined into feedback queries, served only with PII_ACCESS_TOKEN
+CREATE TABLE IF NOT EXISTS feedback_originals (
+    feedback_id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    author TEXT,
+    raw_metadata TEXT,
+    stored_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
@@ -0,0 +1,7 @@
+-- Language detection and translation
+
+ALTER TABLE feedback ADD COLUMN language TEXT;
+ALTER TABLE feedback ADD COLUMN translated_title TEXT;
+ALTER TABLE feedback ADD COLUMN translated_content TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_language ON feedback(language);
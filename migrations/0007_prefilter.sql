@@ -0,0 +1,8 @@
+-- Spam and off-topic pre-filter
+
+ALTER TABLE feedback ADD COLUMN filter_status TEXT;
+ALTER TABLE feedback ADD COLUMN filter_reason TEXT;
+ALTER TABLE feedback ADD COLUMN filtered_at TEXT;
+ALTER TABLE feedback ADD COLUMN filter_restored INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_filter_status ON feedback(filter_status);
@@ -0,0 +1,17 @@
+-- Classifier evaluation runs
+
+-- Classifier evaluation runs against labeled feedback, per model and prompt version
+CREATE TABLE IF NOT EXISTS evaluation_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    model TEXT NOT NULL,
+    prompt_version TEXT NOT NULL,
+    dataset TEXT NOT NULL,                 -- 'stored' (imported labeled feedback) or 'upload'
+    notes TEXT,
+    example_count INTEGER NOT NULL,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    metrics TEXT NOT NULL,                 -- JSON EvaluationMetrics
+    results TEXT NOT NULL,                 -- JSON per-example expected vs predicted
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_evaluation_runs_version ON evaluation_runs(prompt_version, model);
@@ -0,0 +1,5 @@
+-- Prompt template versions
+
+ALTER TABLE classifications ADD COLUMN prompt_version TEXT;
+ALTER TABLE classifications ADD COLUMN model TEXT;
+ALTER TABLE summaries ADD COLUMN prompt_version TEXT;
@@ -0,0 +1,26 @@
+-- Human overrides with locks and an audit trail
+
+-- Human overrides currently pinned on a classification (AI reclassification keeps these values)
+CREATE TABLE IF NOT EXISTS classification_locks (
+    feedback_id TEXT NOT NULL,
+    field TEXT NOT NULL,                   -- urgency, sentiment, impact, actionability or route
+    value TEXT NOT NULL,
+    locked_at TEXT NOT NULL,
+    PRIMARY KEY (feedback_id, field),
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+-- Audit trail of human overrides: who changed which field, from what, to what and why
+CREATE TABLE IF NOT EXISTS classification_audit (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feedback_id TEXT NOT NULL,
+    field TEXT NOT NULL,
+    old_value TEXT,                        -- NULL when the item had no classification yet
+    new_value TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    changed_by TEXT NOT NULL,
+    changed_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classification_audit_feedback ON classification_audit(feedback_id, changed_at);
@@ -0,0 +1,12 @@
+-- Items whose model output stayed invalid
+
+-- Items whose model output stayed invalid after repair retries (no classification is fabricated)
+-- Cleared when the item is classified successfully or its content or thread changes
+CREATE TABLE IF NOT EXISTS classification_failures (
+    feedback_id TEXT PRIMARY KEY,
+    error TEXT NOT NULL,                   -- Validation errors from the last attempt
+    raw_output TEXT,                       -- Last model output (truncated)
+    attempts INTEGER NOT NULL,
+    failed_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
@@ -0,0 +1,18 @@
+-- Per-task model usage log
+
+-- One row per AI model attempt (fallbacks and failures included) for latency and usage accounting
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task TEXT NOT NULL,                    -- classification, summary, themes, relevance, translation, embedding
+    model TEXT NOT NULL,
+    outcome TEXT NOT NULL,                 -- ok, error or timeout
+    latency_ms INTEGER NOT NULL,
+    input_chars INTEGER NOT NULL DEFAULT 0,
+    output_chars INTEGER NOT NULL DEFAULT 0,
+    input_tokens INTEGER,                  -- When the model reports usage
+    output_tokens INTEGER,
+    error TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at, task, model);
@@ -0,0 +1,23 @@
+-- Queued classification pipeline
+
+-- Classification pipeline status per thread root (one row per queued item)
+CREATE TABLE IF NOT EXISTS classification_queue (
+    feedback_id TEXT PRIMARY KEY,
+    status TEXT NOT NULL CHECK (status IN ('pending', 'classifying', 'done', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,   -- Deliveries so far
+    last_error TEXT,
+    enqueued_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classification_queue_status ON classification_queue(status, updated_at);
+
+-- Items that kept failing in the pipeline, held until replayed
+CREATE TABLE IF NOT EXISTS classification_dead_letters (
+    feedback_id TEXT PRIMARY KEY,
+    error TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    dead_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
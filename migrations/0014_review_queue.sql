@@ -0,0 +1,5 @@
+-- Low-confidence review queue
+
+ALTER TABLE classifications ADD COLUMN review_status TEXT CHECK (review_status IN ('needs_review', 'accepted', 'corrected'));
+ALTER TABLE classifications ADD COLUMN reviewed_by TEXT;
+ALTER TABLE classifications ADD COLUMN reviewed_at TEXT;
@@ -0,0 +1,12 @@
+-- Signal taxonomy candidates
+
+-- Model signal values outside the canonical taxonomy, kept as candidates for new entries
+CREATE TABLE IF NOT EXISTS taxonomy_candidates (
+    signal_type TEXT NOT NULL,
+    signal_value TEXT NOT NULL,
+    occurrences INTEGER NOT NULL DEFAULT 1,
+    example_feedback_id TEXT,              -- Most recent item that produced the value
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL,
+    PRIMARY KEY (signal_type, signal_value)
+);
@@ -0,0 +1,34 @@
+-- Immutable classification history
+
+ALTER TABLE classifications ADD COLUMN rules_hash TEXT;
+ALTER TABLE classifications ADD COLUMN history_id INTEGER;
+
+-- Every classification result, never updated or deleted (classifications holds the current one)
+CREATE TABLE IF NOT EXISTS classification_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feedback_id TEXT NOT NULL,
+    urgency INTEGER NOT NULL,
+    sentiment INTEGER NOT NULL,
+    impact INTEGER NOT NULL,
+    actionability INTEGER NOT NULL,
+    route TEXT,
+    confidence REAL,
+    reasoning TEXT,
+    prompt_version TEXT,
+    model TEXT,
+    rules_hash TEXT,
+    classified_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classification_history_feedback ON classification_history(feedback_id);
+
+-- Existing classifications become the first version of their item's history
+INSERT INTO classification_history
+    (feedback_id, urgency, sentiment, impact, actionability, route, confidence, reasoning, prompt_version, model, rules_hash, classified_at)
+SELECT feedback_id, urgency, sentiment, impact, actionability, route, confidence, reasoning, prompt_version, model, rules_hash,
+       COALESCE(classified_at, CURRENT_TIMESTAMP)
+FROM classifications;
+
+UPDATE classifications
+SET history_id = (SELECT MAX(h.id) FROM classification_history h WHERE h.feedback_id = classifications.feedback_id);
@@ -0,0 +1,26 @@
+-- Bulk reclassification jobs
+
+-- Bulk reclassification jobs (current results stay until each item's new result is stored)
+CREATE TABLE IF NOT EXISTS reclassification_jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'cancelled')),
+    filter TEXT NOT NULL,                  -- JSON ReclassificationFilter the items were selected with
+    created_by TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    finished_at TEXT
+);
+
+-- Items selected when a job was created; their status is the job's checkpoint
+CREATE TABLE IF NOT EXISTS reclassification_job_items (
+    job_id TEXT NOT NULL,
+    feedback_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'failed')),
+    error TEXT,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (job_id, feedback_id),
+    FOREIGN KEY (job_id) REFERENCES reclassification_jobs(id),
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reclassification_job_items_status ON reclassification_job_items(job_id, status);
@@ -0,0 +1,22 @@
+-- Signal and route spike alerts
+
+-- Spikes in signal or route volume detected by the scheduled handler
+CREATE TABLE IF NOT EXISTS alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    dimension TEXT NOT NULL CHECK (dimension IN ('signal', 'route')),
+    key TEXT NOT NULL,                     -- "signal_type:signal_value" or route name
+    window_start TEXT NOT NULL,
+    window_end TEXT NOT NULL,
+    current_count INTEGER NOT NULL,
+    baseline_mean REAL NOT NULL,
+    baseline_stddev REAL NOT NULL,
+    z_score REAL NOT NULL,
+    top_items TEXT NOT NULL,               -- JSON array of the top contributing items
+    deliveries TEXT,                       -- JSON array of {destination, status, error?}
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged')),
+    acknowledged_by TEXT,
+    acknowledged_at TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_alerts_key ON alerts(dimension, key, created_at);
@@ -0,0 +1,15 @@
+-- Queued evaluation runs
+
+ALTER TABLE evaluation_runs ADD COLUMN status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('running', 'completed'));
+
+-- Examples of a queued evaluation run; metrics are computed from their results once none is left
+CREATE TABLE IF NOT EXISTS evaluation_run_examples (
+    run_id INTEGER NOT NULL,
+    position INTEGER NOT NULL,             -- Order in the dataset
+    example TEXT NOT NULL,                 -- JSON LabeledExample
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done')),
+    result TEXT,                           -- JSON ExampleResult once classified (errors included)
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (run_id, position),
+    FOREIGN KEY (run_id) REFERENCES evaluation_runs(id)
+);
@@ -1,5 +1,7 @@
 -- Feedback Intelligence Agent Database Schema
--- Run with: npx wrangler d1 execute feedback-db --file=./schema.sql
+-- Current schema after all migrations (CREATE TABLE IF NOT EXISTS does not add columns to existing tables)
+-- Deployed databases: npx wrangler d1 migrations apply feedback-intelligence-db --remote
+-- Schema changes go in a new migrations/NNNN_*.sql file as well as here
 
 -- Feedback items from all sources (GitHub, Discord, Zendesk, etc.)
 CREATE TABLE IF NOT EXISTS feedback (
@@ -11,7 +13,19 @@ CREATE TABLE IF NOT EXISTS feedback (
     author TEXT,
     created_at TEXT NOT NULL,
     ingested_at TEXT DEFAULT CURRENT_TIMESTAMP,
-    raw_metadata TEXT
+    raw_metadata TEXT,
+    content_hash TEXT,                     -- SHA-256 of title + content
+    updated_at TEXT,                       -- Last time title/content changed
+    revision INTEGER NOT NULL DEFAULT 1,   -- Incremented on each content change
+    parent_id TEXT,                        -- Follow-up comments point at the thread's root
+    language TEXT,                         -- ISO 639-1 code detected at ingest ("und" if undetermined)
+    translated_title TEXT,                 -- English translation for classification (NULL until translated)
+    translated_content TEXT,
+    filter_status TEXT,                    -- 'spam' or 'off_topic' when excluded by the pre-filter
+    filter_reason TEXT,
+    filtered_at TEXT,
+    filter_restored INTEGER NOT NULL DEFAULT 0, -- 1 once restored after review (never filtered again)
+    FOREIGN KEY (parent_id) REFERENCES feedback(id)
 );
 
 -- Classification results based on our PM framework
@@ -25,10 +39,94 @@ CREATE TABLE IF NOT EXISTS classifications (
     route TEXT,
     confidence REAL,
     reasoning TEXT,
+    stale INTEGER NOT NULL DEFAULT 0,      -- 1 when feedback content changed after classification
+    prompt_version TEXT,                   -- Prompt template version used (A/B comparisons)
+    model TEXT,
+    rules_hash TEXT,                       -- Hash of the classification rules in effect
+    history_id INTEGER,                    -- Current version: the classification_history row this came from
+    review_status TEXT CHECK (review_status IN ('needs_review', 'accepted', 'corrected')), -- Set when confidence was below the review threshold
+    reviewed_by TEXT,
+    reviewed_at TEXT,
     classified_at TEXT DEFAULT CURRENT_TIMESTAMP,
     FOREIGN KEY (feedback_id) REFERENCES feedback(id)
 );
 
+-- Every classification result, never updated or deleted (classifications holds the current one)
+CREATE TABLE IF NOT EXISTS classification_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feedback_id TEXT NOT NULL,
+    urgency INTEGER NOT NULL,
+    sentiment INTEGER NOT NULL,
+    impact INTEGER NOT NULL,
+    actionability INTEGER NOT NULL,
+    route TEXT,
+    confidence REAL,
+    reasoning TEXT,
+    prompt_version TEXT,
+    model TEXT,
+    rules_hash TEXT,
+    classified_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+-- Items whose model output stayed invalid after repair retries (no classification is fabricated)
+-- Cleared when the item is classified successfully or its content or thread changes
+CREATE TABLE IF NOT EXISTS classification_failures (
+    feedback_id TEXT PRIMARY KEY,
+    error TEXT NOT NULL,                   -- Validation errors from the last attempt
+    raw_output TEXT,                       -- Last model output (truncated)
+    attempts INTEGER NOT NULL,
+    failed_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+-- Classification pipeline status per thread root (one row per queued item)
+CREATE TABLE IF NOT EXISTS classification_queue (
+    feedback_id TEXT PRIMARY KEY,
+    status TEXT NOT NULL CHECK (status IN ('pending', 'classifying', 'done', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,   -- Deliveries so far
+    last_error TEXT,
+    enqueued_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_classification_queue_status ON classification_queue(status, updated_at);
+
+-- Items that kept failing in the pipeline, held until replayed
+CREATE TABLE IF NOT EXISTS classification_dead_letters (
+    feedback_id TEXT PRIMARY KEY,
+    error TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    dead_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+-- Bulk reclassification jobs (current results stay until each item's new result is stored)
+CREATE TABLE IF NOT EXISTS reclassification_jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL CHECK (status IN ('running', 'completed', 'cancelled')),
+    filter TEXT NOT NULL,                  -- JSON ReclassificationFilter the items were selected with
+    created_by TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    finished_at TEXT
+);
+
+-- Items selected when a job was created; their status is the job's checkpoint
+CREATE TABLE IF NOT EXISTS reclassification_job_items (
+    job_id TEXT NOT NULL,
+    feedback_id TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'failed')),
+    error TEXT,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (job_id, feedback_id),
+    FOREIGN KEY (job_id) REFERENCES reclassification_jobs(id),
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reclassification_job_items_status ON reclassification_job_items(job_id, status);
+
 -- Extracted signals and entities (feature areas, user segments, etc.)
 CREATE TABLE IF NOT EXISTS signals (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -39,6 +137,160 @@ CREATE TABLE IF NOT EXISTS signals (
     FOREIGN KEY (feedback_id) REFERENCES feedback(id)
 );
 
+-- Model signal values outside the canonical taxonomy, kept as candidates for new entries
+CREATE TABLE IF NOT EXISTS taxonomy_candidates (
+    signal_type TEXT NOT NULL,
+    signal_value TEXT NOT NULL,
+    occurrences INTEGER NOT NULL DEFAULT 1,
+    example_feedback_id TEXT,              -- Most recent item that produced the value
+    first_seen TEXT NOT NULL,
+    last_seen TEXT NOT NULL,
+    PRIMARY KEY (signal_type, signal_value)
+);
+
+-- Sentiment/urgency of a thread each time it is (re)classified
+CREATE TABLE IF NOT EXISTS thread_sentiment (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    thread_id TEXT NOT NULL,
+    sentiment INTEGER NOT NULL,
+    urgency INTEGER NOT NULL,
+    reply_count INTEGER NOT NULL,
+    recorded_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (thread_id) REFERENCES feedback(id)
+);
+
+-- Embeddings used for near-duplicate detection (D1VectorIndex)
+CREATE TABLE IF NOT EXISTS feedback_embeddings (
+    feedback_id TEXT PRIMARY KEY,
+    model TEXT NOT NULL,
+    vector TEXT NOT NULL,                  -- JSON array of floats
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+-- Clusters of near-duplicate feedback (the same complaint reported in different words/places)
+CREATE TABLE IF NOT EXISTS clusters (
+    id TEXT PRIMARY KEY,
+    representative_id TEXT NOT NULL,       -- First report in the cluster
+    title TEXT NOT NULL,
+    report_count INTEGER NOT NULL DEFAULT 1,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS cluster_members (
+    feedback_id TEXT PRIMARY KEY,
+    cluster_id TEXT NOT NULL,
+    similarity REAL,                       -- Similarity to the closest report when joining
+    added_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id),
+    FOREIGN KEY (cluster_id) REFERENCES clusters(id)
+);
+
+-- PII redaction report per feedback item (placeholder types only, never the redacted values)
+CREATE TABLE IF NOT EXISTS redaction_reports (
+    feedback_id TEXT PRIMARY KEY,
+    redacted_count INTEGER NOT NULL DEFAULT 0,
+    entries TEXT NOT NULL,                 -- JSON array of {type, placeholder, field}
+    redacted_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+-- Unredacted originals, kept only when redaction store_original is enabled
+-- Access restricted: never joined into feedback queries, served only with PII_ACCESS_TOKEN
+CREATE TABLE IF NOT EXISTS feedback_originals (
+    feedback_id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    author TEXT,
+    raw_metadata TEXT,
+    stored_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+-- Classifier evaluation runs against labeled feedback, per model and prompt version
+CREATE TABLE IF NOT EXISTS evaluation_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    model TEXT NOT NULL,
+    prompt_version TEXT NOT NULL,
+    dataset TEXT NOT NULL,                 -- 'stored' (imported labeled feedback) or 'upload'
+    notes TEXT,
+    example_count INTEGER NOT NULL,
+    failed_count INTEGER NOT NULL DEFAULT 0,
+    metrics TEXT NOT NULL,                 -- JSON EvaluationMetrics
+    results TEXT NOT NULL,                 -- JSON per-example expected vs predicted
+    created_at TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('running', 'completed')) -- Running while queued examples are classified
+);
+
+-- Examples of a queued evaluation run; metrics are computed from their results once none is left
+CREATE TABLE IF NOT EXISTS evaluation_run_examples (
+    run_id INTEGER NOT NULL,
+    position INTEGER NOT NULL,             -- Order in the dataset
+    example TEXT NOT NULL,                 -- JSON LabeledExample
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done')),
+    result TEXT,                           -- JSON ExampleResult once classified (errors included)
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (run_id, position),
+    FOREIGN KEY (run_id) REFERENCES evaluation_runs(id)
+);
+
+-- Human overrides currently pinned on a classification (AI reclassification keeps these values)
+CREATE TABLE IF NOT EXISTS classification_locks (
+    feedback_id TEXT NOT NULL,
+    field TEXT NOT NULL,                   -- urgency, sentiment, impact, actionability or route
+    value TEXT NOT NULL,
+    locked_at TEXT NOT NULL,
+    PRIMARY KEY (feedback_id, field),
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+-- Audit trail of human overrides: who changed which field, from what, to what and why
+CREATE TABLE IF NOT EXISTS classification_audit (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    feedback_id TEXT NOT NULL,
+    field TEXT NOT NULL,
+    old_value TEXT,                        -- NULL when the item had no classification yet
+    new_value TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    changed_by TEXT NOT NULL,
+    changed_at TEXT NOT NULL,
+    FOREIGN KEY (feedback_id) REFERENCES feedback(id)
+);
+
+-- One row per AI model attempt (fallbacks and failures included) for latency and usage accounting
+CREATE TABLE IF NOT EXISTS ai_usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task TEXT NOT NULL,                    -- classification, summary, themes, relevance, translation, embedding
+    model TEXT NOT NULL,
+    outcome TEXT NOT NULL,                 -- ok, error or timeout
+    latency_ms INTEGER NOT NULL,
+    input_chars INTEGER NOT NULL DEFAULT 0,
+    output_chars INTEGER NOT NULL DEFAULT 0,
+    input_tokens INTEGER,                  -- When the model reports usage
+    output_tokens INTEGER,
+    error TEXT,
+    created_at TEXT NOT NULL
+);
+
+-- Spikes in signal or route volume detected by the scheduled handler
+CREATE TABLE IF NOT EXISTS alerts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    dimension TEXT NOT NULL CHECK (dimension IN ('signal', 'route')),
+    key TEXT NOT NULL,                     -- "signal_type:signal_value" or route name
+    window_start TEXT NOT NULL,
+    window_end TEXT NOT NULL,
+    current_count INTEGER NOT NULL,
+    baseline_mean REAL NOT NULL,
+    baseline_stddev REAL NOT NULL,
+    z_score REAL NOT NULL,
+    top_items TEXT NOT NULL,               -- JSON array of the top contributing items
+    deliveries TEXT,                       -- JSON array of {destination, status, error?}
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'acknowledged')),
+    acknowledged_by TEXT,
+    acknowledged_at TEXT,
+    created_at TEXT NOT NULL
+);
+
 -- PM summaries and reports
 CREATE TABLE IF NOT EXISTS summaries (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -47,12 +299,23 @@ CREATE TABLE IF NOT EXISTS summaries (
     summary_type TEXT NOT NULL,
     content TEXT NOT NULL,
     metrics TEXT,
+    prompt_version TEXT,
     created_at TEXT DEFAULT CURRENT_TIMESTAMP
 );
 
 -- Indexes for common queries
 CREATE INDEX IF NOT EXISTS idx_feedback_source ON feedback(source);
 CREATE INDEX IF NOT EXISTS idx_feedback_created ON feedback(created_at);
+CREATE INDEX IF NOT EXISTS idx_feedback_parent ON feedback(parent_id);
+CREATE INDEX IF NOT EXISTS idx_feedback_language ON feedback(language);
+CREATE INDEX IF NOT EXISTS idx_feedback_filter_status ON feedback(filter_status);
+CREATE INDEX IF NOT EXISTS idx_thread_sentiment_thread ON thread_sentiment(thread_id);
 CREATE INDEX IF NOT EXISTS idx_classifications_route ON classifications(route);
 CREATE INDEX IF NOT EXISTS idx_classifications_urgency ON classifications(urgency);
 CREATE INDEX IF NOT EXISTS idx_signals_type ON signals(signal_type);
+CREATE INDEX IF NOT EXISTS idx_cluster_members_cluster ON cluster_members(cluster_id);
+CREATE INDEX IF NOT EXISTS idx_classification_audit_feedback ON classification_audit(feedback_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created ON ai_usage(created_at, task, model);
+CREATE INDEX IF NOT EXISTS idx_classification_history_feedback ON classification_history(feedback_id);
+CREATE INDEX IF NOT EXISTS idx_alerts_key ON alerts(dimension, key, created_at);
+CREATE INDEX IF NOT EXISTS idx_evaluation_runs_version ON evaluation_runs(prompt_version, model);
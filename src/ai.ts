@@ -1,184 +1,180 @@
 // AI-powered classification and summarization
 
 import { Classification, Feedback, Signal } from "./db";
-import { ClassificationRules } from "./kv";
+import { ClassificationRules, rulesHash } from "./kv";
+import { BUILTIN_PROMPTS, PromptLibrary, PromptTemplate, renderTemplate } from "./prompts";
+import { ModelRunner } from "./models";
+import { Redactor } from "./redaction";
+import { routeFor } from "./routing";
+import { applyScorePolicies, describeAdjustments, matchKeywords } from "./scoring";
+import { CLASSIFICATION_OUTPUT_SCHEMA, parseStructuredOutput, repairPrompt, StructuredOutputError } from "./structured";
+import { allowedValues, normalizeSignals, SignalTaxonomy, TAXONOMY_SIGNAL_TYPES } from "./taxonomy";
+
+// Follow-up requests after an invalid classification output before giving up
+const MAX_REPAIR_ATTEMPTS = 2;
+
+interface ClassificationOutput {
+  classification: { urgency: number; sentiment: number; impact: number; actionability: number };
+  signals: { signal_type: string; signal_value: string; confidence?: number }[];
+  confidence: number;
+  reasoning: string;
+}
 
 export class FeedbackClassifier {
-  constructor(private ai: Ai) {}
+  // The redactor covers rows stored before redaction was enabled; new rows are redacted at ingest
+  // Without a prompt library the built-in templates are used
+  // Without a model runner the default models are used and calls are not logged
+  private models: ModelRunner;
+
+  constructor(ai: Ai, private redactor?: Redactor, private prompts?: PromptLibrary, models?: ModelRunner) {
+    this.models = models ?? new ModelRunner(ai);
+  }
 
   // Main classification function
+  // Replies (follow-up comments, oldest first) are classified together with the original report
+  // promptVersion pins a template version (evaluation); otherwise the A/B assignment decides
+  // Signal values are mapped onto the taxonomy; values it doesn't know come back as taxonomy_candidates
   async classifyFeedback(
     feedback: Feedback,
-    rules: ClassificationRules
-  ): Promise<{ classification: Classification; signals: Signal[] }> {
-    const prompt = this.buildClassificationPrompt(feedback, rules);
+    rules: ClassificationRules,
+    replies: Feedback[] = [],
+    options: { promptVersion?: string } = {}
+  ): Promise<{ classification: Classification; signals: Signal[]; taxonomy_candidates: Signal[] }> {
+    if (this.redactor) {
+      feedback = (await this.redactor.redact(feedback)).feedback;
+      replies = await Promise.all(replies.map(async (r) => (await this.redactor!.redact(r)).feedback));
+    }
 
-    const response = await this.ai.run("@cf/meta/llama-3.1-70b-instruct", {
-      messages: [
-        {
-          role: "system",
-          content: `You are a product analyst for cloudflare/cloudflared, an infrastructure tool where reliability and security are critical. Analyze user feedback and return structured JSON only. No explanations outside the JSON.`,
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-    });
+    const template = this.prompts
+      ? await this.prompts.resolve("classification", feedback.id, options.promptVersion)
+      : BUILTIN_PROMPTS.classification;
+    const prompt = await this.buildClassificationPrompt(template, feedback, rules, replies);
+    const keywordSignals = matchKeywords(feedback, rules, replies);
+
+    const result = await this.runStructured([
+      {
+        role: "system",
+        content: `You are a product analyst for cloudflare/cloudflared, an infrastructure tool where reliability and security are critical. Analyze user feedback and return structured JSON only. No explanations outside the JSON.
 
-    const result = this.parseAIResponse((response as any).response);
+${this.taxonomyInstructions(rules.signal_taxonomy)}`,
+      },
+      {
+        role: "user",
+        content: prompt,
+      },
+    ]);
+
+    // Keyword hits join the model's (canonicalized) signals; floor/ceiling policies are enforced on its scores
+    const taxonomy = normalizeSignals(
+      result.signals.map((s) => ({
+        feedback_id: feedback.id,
+        ...s,
+      })),
+      rules.signal_taxonomy
+    );
+    const signals: Signal[] = [...taxonomy.signals, ...keywordSignals];
+    const { scores, adjustments } = applyScorePolicies(result.classification, rules.score_policies, {
+      confidence: result.confidence,
+      signals,
+    });
 
-    // Apply routing rules
-    const route = this.determineRoute(result.classification, rules);
+    // Apply routing rules (every matching route, primary first)
+    const route = routeFor(rules.routing_rules, { ...scores, confidence: result.confidence, signals }, rules.default_route);
 
     return {
       classification: {
         feedback_id: feedback.id,
-        ...result.classification,
+        ...scores,
         route,
         confidence: result.confidence,
-        reasoning: result.reasoning,
+        reasoning: [result.reasoning, describeAdjustments(adjustments)].filter(Boolean).join(" "),
+        prompt_version: template.version,
+        model: result.model,
+        rules_hash: await rulesHash(rules),
+        // Uncertain classifications wait in the review queue instead of their routed queues
+        review_status: result.confidence < rules.review_confidence_threshold ? "needs_review" : null,
       },
-      signals: result.signals.map((s: any) => ({
-        feedback_id: feedback.id,
-        ...s,
-      })),
+      signals,
+      taxonomy_candidates: taxonomy.candidates,
     };
   }
 
-  private buildClassificationPrompt(
+  // Allowed signal values, so trends don't split over spellings of the same thing
+  private taxonomyInstructions(taxonomy: SignalTaxonomy): string {
+    const lines = TAXONOMY_SIGNAL_TYPES.map((type) => `- ${type}: ${allowedValues(taxonomy, type).join(", ")}`);
+    return `Use these signal values (a > b means b is part of a; answer with the most specific value that fits). Only use a new short value when none fits:
+${lines.join("\n")}`;
+  }
+
+  private async buildClassificationPrompt(
+    template: PromptTemplate,
     feedback: Feedback,
-    rules: ClassificationRules
-  ): string {
-    return `
-Analyze this feedback and classify it according to our framework.
-
-## Feedback
-- **Source**: ${feedback.source}
-- **Title**: ${feedback.title}
-- **Label**: ${feedback.label || "None"}
-- **Content**: ${feedback.content}
-
-## Classification Framework
-
-### Urgency (1-5)
-- 1: Low - General questions, nice-to-haves
-- 2: Moderate - Minor friction, workarounds exist
-- 3: High - Functionality degraded, needs attention
-- 4: Severe - Production affected, no workaround (even if reported calmly)
-- 5: Critical - Security risk, installation blocked, complete outage
-
-**Critical keywords**: ${rules.urgency_keywords.critical.join(", ")}
-**High keywords**: ${rules.urgency_keywords.high.join(", ")}
-**Low keywords**: ${rules.urgency_keywords.low.join(", ")}
-
-IMPORTANT: Security concerns should be minimum Urgency 3. Installation failures should be minimum Urgency 4. Calm tone does NOT reduce urgency - score based on technical severity.
-
-### Sentiment (-2 to +2)
-- -2: Frustrated (explicit frustration, strong negative language, ALL CAPS, "ridiculous", "unacceptable")
-- -1: Dissatisfied (pain points, mild complaints, "a pain", "frustrating")
-- 0: Neutral (factual reporting, no emotional indicators)
-- +1: Appreciative (thanks, acknowledges good work, "great product")
-- +2: Enthusiastic (strong praise, advocacy)
-
-### Impact (1-5)
-- 1: Minimal - Single user curiosity
-- 2: Low - Individual inconvenience, easy workaround
-- 3: Moderate - Team/environment affected, painful workaround
-- 4: High - Production degraded, enterprise environment, blocks adoption
-- 5: Severe - Complete breakage, affects all users, security/data risk
-
-**Enterprise signals**: ${rules.impact_signals.enterprise.join(", ")}
-**Production signals**: ${rules.impact_signals.production.join(", ")}
-**Single user signals**: ${rules.impact_signals.single_user.join(", ")}
-
-### Actionability (1-5)
-- 1: Unclear - Vague, missing context
-- 2: Needs Info - Some detail but requires follow-up
-- 3: Partially Actionable - Clear problem, uncertain solution
-- 4: Actionable - Clear problem + environment + steps
-- 5: Immediately Actionable - Clear bug with repro steps, obvious fix path
-
-## Response Format
-Return ONLY valid JSON (no markdown, no explanation):
-{
-  "classification": {
-    "urgency": <1-5>,
-    "sentiment": <-2 to 2>,
-    "impact": <1-5>,
-    "actionability": <1-5>
-  },
-  "signals": [
-    {"signal_type": "feature_area", "signal_value": "<area like tunnels, installation, authentication>", "confidence": <0-1>},
-    {"signal_type": "user_segment", "signal_value": "<segment like enterprise, hobbyist, developer>", "confidence": <0-1>},
-    {"signal_type": "issue_category", "signal_value": "<category like bug, feature_request, question, documentation>", "confidence": <0-1>}
-  ],
-  "confidence": <0-1>,
-  "reasoning": "<1-2 sentence explanation of scores>"
-}
-`;
+    rules: ClassificationRules,
+    replies: Feedback[]
+  ): Promise<string> {
+    const fewShot =
+      this.prompts && template.template.includes("few_shot_examples")
+        ? await this.prompts.fewShotExamples(template.few_shot_count ?? 3, feedback.id)
+        : "";
+
+    return renderTemplate(template.template, {
+      feedback: { ...feedback, label: feedback.label || "None" },
+      rules,
+      language_note: feedback.translated_content
+        ? `- **Original language**: ${feedback.language} (machine-translated to English)\n`
+        : "",
+      thread_section: this.buildThreadSection(replies),
+      few_shot_examples: fewShot,
+    });
   }
 
-  private parseAIResponse(response: string): any {
-    try {
-      // Try to extract JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error("No JSON found in response");
+  // Follow-up comments, most recent last; scores should reflect where the conversation is now
+  private buildThreadSection(replies: Feedback[]): string {
+    if (replies.length === 0) return "";
 
-      const parsed = JSON.parse(jsonMatch[0]);
+    const recent = replies.slice(-20);
+    const lines = recent.map(
+      (r) => `- [${r.created_at}] **${r.author || "unknown"}**: ${r.content.slice(0, 1000)}`
+    );
 
-      // Validate required fields
-      if (!parsed.classification || typeof parsed.classification.urgency !== "number") {
-        throw new Error("Invalid classification structure");
-      }
+    return `
+## Follow-up Comments (${replies.length} total, oldest first${replies.length > recent.length ? ", showing latest 20" : ""})
+${lines.join("\n")}
 
-      return parsed;
-    } catch (e) {
-      console.error("Failed to parse AI response:", e, "Response:", response);
-      // Return default conservative classification on parse failure
-      return {
-        classification: {
-          urgency: 3,
-          sentiment: 0,
-          impact: 3,
-          actionability: 2,
-        },
-        signals: [],
-        confidence: 0.3,
-        reasoning: "Failed to parse AI response, using conservative defaults",
-      };
-    }
+Score the thread as a whole: later comments (e.g. "still happening", "workaround found", "fixed in latest") should move urgency and sentiment from the original report.
+`;
   }
 
-  private determineRoute(
-    classification: {
-      urgency: number;
-      sentiment: number;
-      impact: number;
-      actionability: number;
-    },
-    rules: ClassificationRules
-  ): string {
-    // Simplified routing - based on PRIMARY characteristic
-    // Priority order: immediate_engineering > trust_risk > quick_win_backlog > standard_backlog
-
-    // 1. Critical/Urgent items: Urgency >= 4 (simplified - just urgency)
-    if (classification.urgency >= 4) {
-      return "immediate_engineering";
-    }
+  // Ask for schema-valid output, feeding validation errors back to the model on each retry
+  // Throws StructuredOutputError when the output is still invalid after MAX_REPAIR_ATTEMPTS
+  private async runStructured(
+    messages: { role: string; content: string }[]
+  ): Promise<ClassificationOutput & { model: string }> {
+    let raw: unknown;
+    let errors: string[] = [];
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      if (attempt > 0) {
+        messages = [
+          ...messages,
+          { role: "assistant", content: typeof raw === "string" ? raw : JSON.stringify(raw ?? "") },
+          { role: "user", content: repairPrompt(errors, CLASSIFICATION_OUTPUT_SCHEMA) },
+        ];
+      }
 
-    // 2. Trust risk: Negative sentiment (frustrated users)
-    if (classification.sentiment <= -1) {
-      return "trust_risk";
-    }
+      const { response, model } = await this.models.run("classification", { messages });
+      raw = response.response;
+      const parsed = parseStructuredOutput<ClassificationOutput>(raw, CLASSIFICATION_OUTPUT_SCHEMA);
+      if (parsed.ok) return { ...parsed.value, model };
 
-    // 3. Quick win: High actionability + not urgent
-    if (classification.actionability >= 4 && classification.urgency <= 3) {
-      return "quick_win_backlog";
+      errors = parsed.errors;
+      console.warn(`Invalid classification output (attempt ${attempt + 1}):`, errors);
     }
 
-    // 4. Default to standard backlog
-    return "standard_backlog";
+    throw new StructuredOutputError(
+      errors,
+      typeof raw === "string" ? raw : JSON.stringify(raw ?? ""),
+      MAX_REPAIR_ATTEMPTS + 1
+    );
   }
 
   // Generate PM summary
@@ -186,7 +182,7 @@ Return ONLY valid JSON (no markdown, no explanation):
     feedbackItems: any[],
     metrics: any,
     periodDescription: string
-  ): Promise<string> {
+  ): Promise<{ summary: string; prompt_version: string }> {
     const immediateEngineering = feedbackItems
       .filter((f) => f.route?.includes("immediate_engineering"))
       .slice(0, 5);
@@ -197,62 +193,92 @@ Return ONLY valid JSON (no markdown, no explanation):
       .filter((f) => f.route?.includes("quick_win_backlog"))
       .slice(0, 5);
 
-    const prompt = `
-You are a senior product analyst. Generate a concise, actionable PM summary.
-
-## Period: ${periodDescription}
-
-## Metrics
-- Total feedback items: ${metrics.total}
-- By route: ${JSON.stringify(metrics.by_route)}
-- By source: ${JSON.stringify(metrics.by_source)}
-- Averages: Urgency ${metrics.averages?.avg_urgency?.toFixed(1) || "N/A"}, Sentiment ${metrics.averages?.avg_sentiment?.toFixed(1) || "N/A"}, Impact ${metrics.averages?.avg_impact?.toFixed(1) || "N/A"}
-
-## High Priority Items (Immediate Engineering)
-${
-  immediateEngineering.length > 0
-    ? immediateEngineering
-        .map((f) => `- [${f.source}] ${f.title} (Urgency:${f.urgency} Impact:${f.impact})`)
-        .join("\n")
-    : "None"
-}
-
-## Trust Risks (Frustrated users with significant impact)
-${
-  trustRisks.length > 0
-    ? trustRisks
-        .map((f) => `- [${f.source}] ${f.title} (Sentiment:${f.sentiment} Impact:${f.impact})`)
-        .join("\n")
-    : "None"
-}
+    // Summaries are one-offs, so each call is assigned independently
+    const template = this.prompts
+      ? await this.prompts.resolve("summary", crypto.randomUUID())
+      : BUILTIN_PROMPTS.summary;
+    const prompt = renderTemplate(template.template, {
+      period: periodDescription,
+      metrics: {
+        total: metrics.total,
+        by_route: JSON.stringify(metrics.by_route),
+        by_source: JSON.stringify(metrics.by_source),
+      },
+      averages: {
+        urgency: metrics.averages?.avg_urgency?.toFixed(1) || "N/A",
+        sentiment: metrics.averages?.avg_sentiment?.toFixed(1) || "N/A",
+        impact: metrics.averages?.avg_impact?.toFixed(1) || "N/A",
+      },
+      immediate_items:
+        immediateEngineering.length > 0
+          ? immediateEngineering
+              .map((f) => `- [${f.source}] ${f.title} (Urgency:${f.urgency} Impact:${f.impact})`)
+              .join("\n")
+          : "None",
+      trust_risk_items:
+        trustRisks.length > 0
+          ? trustRisks
+              .map((f) => `- [${f.source}] ${f.title} (Sentiment:${f.sentiment} Impact:${f.impact})`)
+              .join("\n")
+          : "None",
+      quick_win_items:
+        quickWins.length > 0
+          ? quickWins.map((f) => `- [${f.source}] ${f.title} (Actionability:${f.actionability})`).join("\n")
+          : "None",
+    });
 
-## Quick Wins (Low urgency, high actionability)
-${
-  quickWins.length > 0
-    ? quickWins.map((f) => `- [${f.source}] ${f.title} (Actionability:${f.actionability})`).join("\n")
-    : "None"
-}
+    const { response } = await this.models.run("summary", {
+      messages: [
+        {
+          role: "system",
+          content: "You are a senior product analyst creating executive summaries.",
+        },
+        { role: "user", content: prompt },
+      ],
+    });
 
-Generate a summary with these sections:
-1. **Executive Summary** (2-3 sentences)
-2. **Key Themes** (2-3 bullet points)
-3. **Recommended Actions** (prioritized numbered list)
-4. **Risk Assessment** (any trust or reliability concerns)
+    return { summary: response.response, prompt_version: template.version };
+  }
 
-Keep it concise and actionable. Focus on insights, not just data repetition.
-`;
+  // Cheap relevance check with a small model, used by the pre-filter ahead of classification
+  async checkRelevance(feedback: Feedback): Promise<{ relevant: boolean; reason: string }> {
+    if (this.redactor) {
+      feedback = (await this.redactor.redact(feedback)).feedback;
+    }
 
-    const response = await this.ai.run("@cf/meta/llama-3.1-70b-instruct", {
+    const { response } = await this.models.run("relevance", {
       messages: [
         {
           role: "system",
-          content: "You are a senior product analyst creating executive summaries.",
+          content: `You screen feedback for the cloudflared / Cloudflare Tunnel product team. Decide whether a post is genuine feedback, a question or a problem report about cloudflared, Cloudflare Tunnel, Zero Trust access or closely related Cloudflare networking. Promotions, unrelated mentions and generic chatter are not relevant. Return JSON only: {"relevant": true|false, "reason": "<short reason>"}`,
+        },
+        {
+          role: "user",
+          content: `Title: ${feedback.title}\n\n${feedback.content.slice(0, 2000)}`,
         },
-        { role: "user", content: prompt },
       ],
     });
 
-    return (response as any).response;
+    const match = String(response.response ?? "").match(/\{[\s\S]*\}/);
+    if (!match) throw new Error("Relevance check returned no JSON");
+    const parsed = JSON.parse(match[0]);
+    return { relevant: parsed.relevant !== false, reason: String(parsed.reason ?? "") };
+  }
+
+  // Translate text between languages (ISO 639-1 codes)
+  async translate(text: string, sourceLang: string, targetLang: string = "en"): Promise<string> {
+    const { response } = await this.models.run("translation", {
+      text,
+      source_lang: sourceLang,
+      target_lang: targetLang,
+    });
+    return response.translated_text;
+  }
+
+  // Compute text embeddings (one vector per input text)
+  async embed(texts: string[]): Promise<number[][]> {
+    const { response } = await this.models.run("embedding", { text: texts });
+    return response.data;
   }
 
   // Extract key themes from multiple feedback items
@@ -273,7 +299,7 @@ ${feedbackSummary}
 Return ONLY a JSON array of theme strings, e.g.: ["theme1", "theme2", "theme3"]
 `;
 
-    const response = await this.ai.run("@cf/meta/llama-3.1-8b-instruct", {
+    const { response } = await this.models.run("themes", {
       messages: [
         { role: "system", content: "Extract themes from feedback. Return only JSON array." },
         { role: "user", content: prompt },
@@ -281,7 +307,7 @@ Return ONLY a JSON array of theme strings, e.g.: ["theme1", "theme2", "theme3"]
     });
 
     try {
-      const match = (response as any).response.match(/\[[\s\S]*\]/);
+      const match = response.response.match(/\[[\s\S]*\]/);
       if (match) {
         return JSON.parse(match[0]);
       }
@@ -0,0 +1,222 @@
+// Spike detection on signals and routes, and alert delivery through pluggable notifiers
+
+import { HttpFetcher } from "./connectors";
+import { FeedbackDB } from "./db";
+import { AlertDestination, AlertSettings, ConfigStore } from "./kv";
+import { FieldError } from "./validation";
+
+export type AlertDimension = "signal" | "route";
+
+export type AlertStatus = "open" | "acknowledged";
+
+// Items per signal ("feature_area:installation") or route in one window
+// window 0 is the recent window, 1..baseline_windows the earlier ones (1 = just before it)
+export interface WindowCount {
+  dimension: AlertDimension;
+  key: string;
+  window: number;
+  count: number;
+}
+
+export interface Spike {
+  dimension: AlertDimension;
+  key: string;
+  current_count: number;
+  baseline_mean: number;
+  baseline_stddev: number;
+  z_score: number;
+}
+
+export interface AlertItem {
+  id: string;
+  source: string;
+  title: string;
+  created_at: string;
+  urgency: number | null;
+  impact: number | null;
+}
+
+export interface AlertDelivery {
+  destination: string;
+  status: "sent" | "failed";
+  error?: string;
+}
+
+export interface Alert extends Spike {
+  id: number;
+  window_start: string;
+  window_end: string;
+  top_items: AlertItem[];
+  deliveries: AlertDelivery[];
+  status: AlertStatus;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  created_at: string;
+}
+
+export interface AlertNotifier {
+  send(destination: AlertDestination, alert: Alert): Promise<void>;
+}
+
+const DESTINATION_TYPES: AlertDestination["type"][] = ["webhook", "slack"];
+
+// Spikes: window counts at least z_threshold deviations above the baseline mean and at least
+// min_count. The deviation is floored at 1 so a flat (e.g. all-zero) baseline does not turn a
+// couple of items into an infinite z-score
+export function detectSpikes(counts: WindowCount[], settings: AlertSettings): Spike[] {
+  const series = new Map<string, { dimension: AlertDimension; key: string; windows: number[] }>();
+  for (const row of counts) {
+    if (row.window < 0 || row.window > settings.baseline_windows) continue;
+    const id = `${row.dimension}\n${row.key}`;
+    if (!series.has(id)) {
+      series.set(id, { dimension: row.dimension, key: row.key, windows: new Array(settings.baseline_windows + 1).fill(0) });
+    }
+    series.get(id)!.windows[row.window] += row.count;
+  }
+
+  const spikes: Spike[] = [];
+  for (const { dimension, key, windows } of series.values()) {
+    const [current, ...baseline] = windows;
+    if (current < settings.min_count || baseline.length === 0) continue;
+
+    const mean = baseline.reduce((sum, c) => sum + c, 0) / baseline.length;
+    const stddev = Math.sqrt(baseline.reduce((sum, c) => sum + (c - mean) ** 2, 0) / baseline.length);
+    const z = (current - mean) / Math.max(stddev, 1);
+    if (z >= settings.z_threshold) {
+      spikes.push({
+        dimension,
+        key,
+        current_count: current,
+        baseline_mean: round(mean),
+        baseline_stddev: round(stddev),
+        z_score: round(z),
+      });
+    }
+  }
+  return spikes.sort((a, b) => b.z_score - a.z_score);
+}
+
+// POSTs the alert as JSON
+export class WebhookNotifier implements AlertNotifier {
+  constructor(private fetcher: HttpFetcher) {}
+
+  async send(destination: AlertDestination, alert: Alert): Promise<void> {
+    await post(this.fetcher, destination.url, { type: "feedback_spike", alert });
+  }
+}
+
+// Slack incoming webhook: one message with the top contributing items
+export class SlackNotifier implements AlertNotifier {
+  constructor(private fetcher: HttpFetcher) {}
+
+  async send(destination: AlertDestination, alert: Alert): Promise<void> {
+    const items = alert.top_items.map((item) => `• ${item.title} (${item.source}, ${item.id})`);
+    const text = [
+      `:rotating_light: Feedback spike in ${alert.dimension} *${alert.key}*: ${alert.current_count} items since ${alert.window_start} ` +
+        `(baseline ${alert.baseline_mean} ± ${alert.baseline_stddev}, z = ${alert.z_score})`,
+      ...items,
+    ].join("\n");
+    await post(this.fetcher, destination.url, { text });
+  }
+}
+
+export function createNotifiers(
+  fetcher: HttpFetcher = (url, init) => fetch(url, init)
+): Record<AlertDestination["type"], AlertNotifier> {
+  return {
+    webhook: new WebhookNotifier(fetcher),
+    slack: new SlackNotifier(fetcher),
+  };
+}
+
+// Detect spikes over the configured windows, store an alert for each signal/route outside its
+// cool-down with its top contributing items, and send it to every destination
+export async function runSpikeDetection(
+  db: FeedbackDB,
+  config: ConfigStore,
+  notifiers: Record<AlertDestination["type"], AlertNotifier>,
+  now: Date = new Date()
+): Promise<Alert[]> {
+  const settings = await config.getAlertSettings();
+  if (!settings.enabled) return [];
+
+  const windowMs = settings.window_hours * 60 * 60 * 1000;
+  const windowStart = new Date(now.getTime() - windowMs).toISOString();
+  const baselineStart = new Date(now.getTime() - (settings.baseline_windows + 1) * windowMs).toISOString();
+  const cooldownStart = new Date(now.getTime() - settings.cooldown_hours * 60 * 60 * 1000).toISOString();
+
+  const counts = await db.getAlertWindowCounts(baselineStart, windowStart, now.toISOString(), settings.window_hours, settings.signal_types);
+  const alerts: Alert[] = [];
+  for (const spike of detectSpikes(counts, settings)) {
+    if (await db.hasAlertSince(spike.dimension, spike.key, cooldownStart)) continue;
+
+    const topItems = await db.getAlertItems(spike.dimension, spike.key, windowStart, now.toISOString(), settings.top_items);
+    const alert = await db.createAlert(spike, windowStart, now.toISOString(), topItems);
+
+    alert.deliveries = [];
+    for (const destination of settings.destinations) {
+      try {
+        const notifier = notifiers[destination.type];
+        if (!notifier) throw new Error(`No notifier for destination type "${destination.type}"`);
+        await notifier.send(destination, alert);
+        alert.deliveries.push({ destination: destination.name, status: "sent" });
+      } catch (e) {
+        console.error(`Failed to send alert ${alert.id} to ${destination.name}:`, e);
+        alert.deliveries.push({ destination: destination.name, status: "failed", error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+    await db.setAlertDeliveries(alert.id, alert.deliveries);
+    alerts.push(alert);
+  }
+  return alerts;
+}
+
+// Field errors for alert settings updates, e.g. "destinations[0].url"
+export function validateAlertSettings(input: Partial<AlertSettings>): FieldError[] {
+  const errors: FieldError[] = [];
+  for (const field of ["window_hours", "baseline_windows", "z_threshold", "min_count", "cooldown_hours", "top_items"] as const) {
+    const value = input[field];
+    if (value !== undefined && (typeof value !== "number" || !(value > 0))) {
+      errors.push({ field, message: "must be a positive number" });
+    }
+  }
+  if (input.baseline_windows !== undefined && !Number.isInteger(input.baseline_windows)) {
+    errors.push({ field: "baseline_windows", message: "must be an integer" });
+  }
+  if (input.signal_types !== undefined && (!Array.isArray(input.signal_types) || input.signal_types.some((t) => typeof t !== "string"))) {
+    errors.push({ field: "signal_types", message: "must be an array of signal types" });
+  }
+  if (input.destinations !== undefined) {
+    if (!Array.isArray(input.destinations)) {
+      errors.push({ field: "destinations", message: "must be an array" });
+    } else {
+      input.destinations.forEach((destination: any, i: number) => {
+        if (!destination?.name || typeof destination.name !== "string") {
+          errors.push({ field: `destinations[${i}].name`, message: "is required" });
+        }
+        if (!DESTINATION_TYPES.includes(destination?.type)) {
+          errors.push({ field: `destinations[${i}].type`, message: `must be one of ${DESTINATION_TYPES.join(", ")}` });
+        }
+        if (typeof destination?.url !== "string" || !/^https:\/\//.test(destination.url)) {
+          errors.push({ field: `destinations[${i}].url`, message: "must be an https URL" });
+        }
+      });
+    }
+  }
+  return errors;
+}
+
+async function post(fetcher: HttpFetcher, url: string, body: unknown): Promise<void> {
+  const response = await fetcher(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status} ${response.statusText}`);
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,123 @@
+// Near-duplicate detection: embeds feedback and groups similar reports into clusters
+
+import { Feedback, FeedbackDB } from "./db";
+import { ClusterSettings } from "./kv";
+
+export interface VectorMatch {
+  id: string;
+  score: number; // Cosine similarity
+}
+
+// Vector search backend; D1 in production, in-memory in tests (Vectorize can slot in here)
+export interface VectorIndex {
+  upsert(id: string, vector: number[]): Promise<void>;
+  query(vector: number[], topK: number): Promise<VectorMatch[]>;
+  delete(id: string): Promise<void>;
+}
+
+export interface Embedder {
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface ClusterAssignment {
+  cluster_id: string;
+  duplicate_of?: string; // Closest existing report, when joining a cluster
+  similarity?: number;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+export class InMemoryVectorIndex implements VectorIndex {
+  private vectors = new Map<string, number[]>();
+
+  async upsert(id: string, vector: number[]): Promise<void> {
+    this.vectors.set(id, vector);
+  }
+
+  async query(vector: number[], topK: number): Promise<VectorMatch[]> {
+    return [...this.vectors.entries()]
+      .map(([id, v]) => ({ id, score: cosineSimilarity(vector, v) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.vectors.delete(id);
+  }
+}
+
+// Embeddings stored in D1 and compared by brute force (fine at feedback-prototype scale)
+export class D1VectorIndex implements VectorIndex {
+  constructor(private db: D1Database, private model: string) {}
+
+  async upsert(id: string, vector: number[]): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT OR REPLACE INTO feedback_embeddings (feedback_id, model, vector)
+         VALUES (?, ?, ?)`
+      )
+      .bind(id, this.model, JSON.stringify(vector))
+      .run();
+  }
+
+  async query(vector: number[], topK: number): Promise<VectorMatch[]> {
+    const result = await this.db
+      .prepare(`SELECT feedback_id, vector FROM feedback_embeddings WHERE model = ?`)
+      .bind(this.model)
+      .all<{ feedback_id: string; vector: string }>();
+
+    return result.results
+      .map((row) => ({ id: row.feedback_id, score: cosineSimilarity(vector, JSON.parse(row.vector)) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.prepare(`DELETE FROM feedback_embeddings WHERE feedback_id = ?`).bind(id).run();
+  }
+}
+
+export class FeedbackClusterer {
+  constructor(
+    private embedder: Embedder,
+    private index: VectorIndex,
+    private db: FeedbackDB,
+    private settings: ClusterSettings
+  ) {}
+
+  // Embed a feedback item and attach it to the most similar cluster, or start a new one
+  async assign(feedback: Feedback): Promise<ClusterAssignment> {
+    const text = `${feedback.title}\n${feedback.content}`.slice(0, 2000);
+    const [vector] = await this.embedder.embed([text]);
+
+    // Content may have changed since the item was last clustered
+    await this.db.removeFromCluster(feedback.id);
+
+    const matches = (await this.index.query(vector, 5)).filter((m) => m.id !== feedback.id);
+    await this.index.upsert(feedback.id, vector);
+
+    for (const match of matches) {
+      if (match.score < this.settings.similarity_threshold) break;
+
+      const membership = await this.db.getClusterMembership(match.id);
+      if (membership) {
+        await this.db.addToCluster(membership.cluster_id, feedback.id, match.score);
+        return { cluster_id: membership.cluster_id, duplicate_of: match.id, similarity: match.score };
+      }
+    }
+
+    const clusterId = crypto.randomUUID();
+    await this.db.createCluster(clusterId, feedback);
+    return { cluster_id: clusterId };
+  }
+}
@@ -0,0 +1,320 @@
+// Polling connectors for configured feedback sources
+
+import { Feedback, FeedbackDB } from "./db";
+import { ConfigStore, SourceConfig } from "./kv";
+import { GitHubIssue, mapGitHubIssue } from "./github";
+import { knownSources, RejectedFeedback, validateFeedback } from "./validation";
+
+// Injectable HTTP layer so connectors can be pointed at a fake server in tests
+export type HttpFetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface ConnectorResult {
+  items: Feedback[];
+  cursor: string | null; // Cursor to resume from on the next poll
+}
+
+export interface Connector {
+  fetchSince(
+    source: SourceConfig,
+    cursor: string | null,
+    token?: string
+  ): Promise<ConnectorResult>;
+}
+
+export interface PollResult {
+  source: string;
+  status: "success" | "failed" | "skipped";
+  ingested?: number;
+  rejected?: number;
+  error?: string;
+}
+
+const MAX_PAGES = 5;
+// Only Worker secrets named with this prefix can be sent to a source as its API token
+export const SOURCE_TOKEN_PREFIX = "SOURCE_TOKEN_";
+const DEFAULT_POLLING_INTERVAL_MINUTES = 60;
+
+async function fetchJson(fetcher: HttpFetcher, url: string, headers: HeadersInit): Promise<Response> {
+  const response = await fetcher(url, { headers });
+  if (!response.ok) {
+    throw new Error(`${url} returned ${response.status} ${response.statusText}`);
+  }
+  return response;
+}
+
+// Latest of the current cursor and the given ISO timestamps
+function latestTimestamp(cursor: string | null, timestamps: string[]): string | null {
+  return timestamps.reduce<string | null>((max, t) => (!max || t > max ? t : max), cursor);
+}
+
+// First line of a message, used as a title where the source has none
+function titleFrom(content: string): string {
+  const firstLine = content.split("\n")[0].trim();
+  return firstLine.length > 100 ? `${firstLine.slice(0, 97)}...` : firstLine;
+}
+
+// GitHub issues REST API: incremental via `since` (updated_at), paginated via Link header
+export class GitHubConnector implements Connector {
+  constructor(private fetcher: HttpFetcher) {}
+
+  async fetchSince(source: SourceConfig, cursor: string | null, token?: string): Promise<ConnectorResult> {
+    const url = new URL(source.api_endpoint!);
+    url.searchParams.set("state", "all");
+    url.searchParams.set("sort", "updated");
+    url.searchParams.set("direction", "asc");
+    url.searchParams.set("per_page", "100");
+    if (cursor) url.searchParams.set("since", cursor);
+
+    const headers: Record<string, string> = {
+      Accept: "application/vnd.github+json",
+      "User-Agent": "feedback-intelligence-agent",
+    };
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    const issues: GitHubIssue[] = [];
+    let next: string | null = url.toString();
+    for (let page = 0; next && page < MAX_PAGES; page++) {
+      const response = await fetchJson(this.fetcher, next, headers);
+      issues.push(...((await response.json()) as GitHubIssue[]));
+      next = response.headers.get("Link")?.match(/<([^>]+)>;\s*rel="next"/)?.[1] ?? null;
+    }
+
+    // The issues endpoint also returns pull requests
+    const items = issues
+      .filter((issue) => !issue.pull_request)
+      .map((issue) => mapGitHubIssue(issue, JSON.stringify(issue)));
+
+    return {
+      items,
+      cursor: latestTimestamp(cursor, issues.map((i) => i.updated_at || i.created_at)),
+    };
+  }
+}
+
+interface DiscordMessage {
+  id: string;
+  content: string;
+  timestamp: string;
+  author: { username: string; bot?: boolean };
+}
+
+// Discord channel messages API: incremental via `after` (message snowflake)
+export class DiscordConnector implements Connector {
+  constructor(private fetcher: HttpFetcher) {}
+
+  async fetchSince(source: SourceConfig, cursor: string | null, token?: string): Promise<ConnectorResult> {
+    const url = new URL(source.api_endpoint!);
+    url.searchParams.set("limit", "100");
+    if (cursor) url.searchParams.set("after", cursor);
+
+    const headers: Record<string, string> = {};
+    if (token) headers.Authorization = `Bot ${token}`;
+
+    const response = await fetchJson(this.fetcher, url.toString(), headers);
+    const messages = (await response.json()) as DiscordMessage[];
+
+    const items = messages
+      .filter((m) => !m.author.bot && m.content.trim().length > 0)
+      .map((m) => ({
+        id: `discord-${m.id}`,
+        source: "discord",
+        title: titleFrom(m.content),
+        content: m.content,
+        author: m.author.username,
+        created_at: m.timestamp,
+        raw_metadata: JSON.stringify(m),
+      }));
+
+    // Snowflakes are time-ordered; compare numerically to find the newest
+    const newest = messages.reduce<string | null>(
+      (max, m) => (!max || BigInt(m.id) > BigInt(max) ? m.id : max),
+      cursor
+    );
+
+    return { items, cursor: newest };
+  }
+}
+
+interface ZendeskTicket {
+  id: number;
+  subject: string | null;
+  description: string | null;
+  tags?: string[];
+  requester_id?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+// Zendesk incremental ticket export: incremental via `start_time` (unix seconds)
+export class ZendeskConnector implements Connector {
+  constructor(private fetcher: HttpFetcher) {}
+
+  async fetchSince(source: SourceConfig, cursor: string | null, token?: string): Promise<ConnectorResult> {
+    const url = new URL(source.api_endpoint!);
+    url.searchParams.set("start_time", cursor || "0");
+
+    const headers: Record<string, string> = {};
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    const tickets: ZendeskTicket[] = [];
+    let endTime: number | null = null;
+    let next: string | null = url.toString();
+    for (let page = 0; next && page < MAX_PAGES; page++) {
+      const response = await fetchJson(this.fetcher, next, headers);
+      const body = (await response.json()) as {
+        tickets: ZendeskTicket[];
+        end_time?: number;
+        next_page?: string | null;
+        end_of_stream?: boolean;
+      };
+      tickets.push(...body.tickets);
+      endTime = body.end_time ?? endTime;
+      next = body.end_of_stream ? null : body.next_page ?? null;
+    }
+
+    const items = tickets.map((t) => ({
+      id: `zendesk-${t.id}`,
+      source: "zendesk",
+      title: t.subject || titleFrom(t.description || ""),
+      content: t.description || t.subject || "",
+      label: t.tags && t.tags.length > 0 ? t.tags.join(", ") : undefined,
+      author: t.requester_id ? String(t.requester_id) : undefined,
+      created_at: t.created_at,
+      raw_metadata: JSON.stringify(t),
+    }));
+
+    return { items, cursor: endTime !== null ? String(endTime) : cursor };
+  }
+}
+
+interface SurveyResponse {
+  id: string;
+  question?: string;
+  answer: string;
+  respondent?: string;
+  submitted_at: string;
+}
+
+// Generic survey export: incremental via `since` (submitted_at ISO timestamp)
+export class SurveyConnector implements Connector {
+  constructor(private fetcher: HttpFetcher) {}
+
+  async fetchSince(source: SourceConfig, cursor: string | null, token?: string): Promise<ConnectorResult> {
+    const url = new URL(source.api_endpoint!);
+    if (cursor) url.searchParams.set("since", cursor);
+
+    const headers: Record<string, string> = {};
+    if (token) headers.Authorization = `Bearer ${token}`;
+
+    const response = await fetchJson(this.fetcher, url.toString(), headers);
+    const body = (await response.json()) as SurveyResponse[] | { responses: SurveyResponse[] };
+    const responses = Array.isArray(body) ? body : body.responses;
+
+    const items = responses
+      .filter((r) => r.answer && r.answer.trim().length > 0)
+      .map((r) => ({
+        id: `survey-${source.name}-${r.id}`,
+        source: "survey",
+        title: r.question || titleFrom(r.answer),
+        content: r.answer,
+        author: r.respondent,
+        created_at: r.submitted_at,
+        raw_metadata: JSON.stringify(r),
+      }));
+
+    return {
+      items,
+      cursor: latestTimestamp(cursor, responses.map((r) => r.submitted_at)),
+    };
+  }
+}
+
+export function createConnectors(
+  fetcher: HttpFetcher = (url, init) => fetch(url, init)
+): Partial<Record<SourceConfig["type"], Connector>> {
+  return {
+    github: new GitHubConnector(fetcher),
+    discord: new DiscordConnector(fetcher),
+    zendesk: new ZendeskConnector(fetcher),
+    survey: new SurveyConnector(fetcher),
+  };
+}
+
+// Poll every enabled source whose interval has elapsed, ingesting new items since its cursor
+// Items are validated like /api/ingest; rejected ones are skipped and reported in the source status
+export async function pollSources(
+  config: ConfigStore,
+  db: FeedbackDB,
+  connectors: Partial<Record<SourceConfig["type"], Connector>>,
+  secrets: Record<string, string | undefined>,
+  now: Date = new Date()
+): Promise<PollResult[]> {
+  const sources = await config.getSourceConfigs();
+  const known = knownSources(sources);
+  const results: PollResult[] = [];
+
+  for (const source of sources) {
+    if (!source.enabled || !source.api_endpoint) continue;
+
+    const previous = await config.getSourceStatus(source.name);
+    const intervalMs = (source.polling_interval_minutes ?? DEFAULT_POLLING_INTERVAL_MINUTES) * 60 * 1000;
+    if (previous && now.getTime() - new Date(previous.last_polled_at).getTime() < intervalMs) {
+      results.push({ source: source.name, status: "skipped" });
+      continue;
+    }
+
+    const connector = connectors[source.type];
+    try {
+      if (!connector) throw new Error(`No connector for source type "${source.type}"`);
+
+      if (source.auth_secret && !source.auth_secret.startsWith(SOURCE_TOKEN_PREFIX)) {
+        throw new Error(`auth_secret must name a ${SOURCE_TOKEN_PREFIX}* secret`);
+      }
+      const token = source.auth_secret ? secrets[source.auth_secret] : undefined;
+      const cursor = await config.getLastSyncTime(source.name);
+      const { items, cursor: nextCursor } = await connector.fetchSince(source, cursor, token);
+
+      const valid: Feedback[] = [];
+      const rejected: RejectedFeedback[] = [];
+      items.forEach((item, index) => {
+        const result = validateFeedback(item, known);
+        if (result.ok) {
+          valid.push(result.value);
+        } else {
+          rejected.push({ index, id: item.id, errors: result.errors });
+        }
+      });
+
+      const ingested = await db.ingestFeedbackBatch(valid);
+      await config.clearClassificationCaches([...ingested.changed, ...ingested.threads_updated]);
+      if (nextCursor && nextCursor !== cursor) {
+        await config.setLastSyncTime(source.name, nextCursor);
+      }
+
+      await config.setSourceStatus(source.name, {
+        last_polled_at: now.toISOString(),
+        last_success_at: now.toISOString(),
+        items_ingested: valid.length,
+        items_rejected: rejected.length,
+        rejected,
+        consecutive_failures: 0,
+      });
+      results.push({ source: source.name, status: "success", ingested: valid.length, rejected: rejected.length });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      console.error(`Failed to poll ${source.name}:`, e);
+
+      await config.setSourceStatus(source.name, {
+        last_polled_at: now.toISOString(),
+        last_success_at: previous?.last_success_at,
+        last_error: error,
+        items_ingested: 0,
+        items_rejected: 0,
+        consecutive_failures: (previous?.consecutive_failures ?? 0) + 1,
+      });
+      results.push({ source: source.name, status: "failed", error });
+    }
+  }
+
+  return results;
+}
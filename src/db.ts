@@ -1,5 +1,22 @@
 // Database operations for feedback intelligence agent
 
+import { Alert, AlertDelivery, AlertDimension, AlertItem, AlertStatus, Spike, WindowCount } from "./alerts";
+import { EvaluationMetrics, ExampleResult, LabeledExample } from "./evaluation";
+import {
+  ReclassificationFilter,
+  ReclassificationItemStatus,
+  ReclassificationJob,
+  ReclassificationJobStatus,
+} from "./jobs";
+import { detectLanguage } from "./language";
+import { AiCallRecord, AiUsageLog } from "./models";
+import { ClassificationLocks, OverrideField } from "./overrides";
+import { ClassificationQueueStatus } from "./pipeline";
+import { FilterStatus, FilterVerdict } from "./prefilter";
+import { RoutableItem } from "./routing";
+import { RedactionEntry, Redactor } from "./redaction";
+import { TrendRow } from "./trends";
+
 export interface Feedback {
   id: string;
   source: string;
@@ -9,6 +26,20 @@ export interface Feedback {
   author?: string;
   created_at: string;
   raw_metadata?: string;
+  parent_id?: string; // Set on follow-up comments; points at the thread's root feedback
+  language?: string; // ISO 639-1 code detected at ingest ("und" when undetermined)
+  translated_title?: string; // English translation used for classification (original kept in title)
+  translated_content?: string;
+  filter_status?: FilterStatus | null; // Set when the pre-filter excluded the item
+  filter_reason?: string | null;
+  filter_restored?: number; // 1 once a reviewer restored a false positive
+}
+
+export interface IngestResult {
+  inserted: string[];
+  changed: string[]; // Title or content changed; classification marked stale
+  unchanged: string[];
+  threads_updated: string[]; // Root feedback whose replies were added or edited
 }
 
 export interface Classification {
@@ -20,8 +51,14 @@ export interface Classification {
   route?: string;
   confidence?: number;
   reasoning?: string;
+  prompt_version?: string; // Template version that produced the classification
+  model?: string;
+  rules_hash?: string; // Classification rules in effect (see rulesHash)
+  review_status?: ReviewStatus | null; // needs_review while confidence is below the review threshold
 }
 
+export type ReviewStatus = "needs_review" | "accepted" | "corrected";
+
 export interface Signal {
   feedback_id: string;
   signal_type: string;
@@ -29,41 +66,116 @@ export interface Signal {
   confidence?: number;
 }
 
-export class FeedbackDB {
-  constructor(private db: D1Database) {}
+export interface ClassificationAuditEntry {
+  id?: number;
+  feedback_id: string;
+  field: OverrideField;
+  old_value: string | null;
+  new_value: string;
+  reason: string;
+  changed_by: string;
+  changed_at: string;
+}
+
+export interface RedactionReport {
+  feedback_id: string;
+  redacted_count: number;
+  entries: RedactionEntry[];
+  has_original: boolean;
+  redacted_at: string;
+}
+
+export class FeedbackDB implements AiUsageLog {
+  // With a redactor, PII is replaced by placeholders before anything is written
+  constructor(private db: D1Database, private redactor?: Redactor) {}
 
   // Ingest feedback from any source
-  async ingestFeedback(feedback: Feedback): Promise<void> {
-    await this.db
-      .prepare(
-        `INSERT OR REPLACE INTO feedback
-         (id, source, title, content, label, author, created_at, raw_metadata)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
-      )
-      .bind(
-        feedback.id,
-        feedback.source,
-        feedback.title,
-        feedback.content,
-        feedback.label || null,
-        feedback.author || null,
-        feedback.created_at,
-        feedback.raw_metadata || null
-      )
-      .run();
+  async ingestFeedback(feedback: Feedback): Promise<IngestResult> {
+    return this.ingestFeedbackBatch([feedback]);
   }
 
   // Batch ingest multiple feedback items
-  async ingestFeedbackBatch(feedbackItems: Feedback[]): Promise<void> {
-    const stmt = this.db.prepare(
-      `INSERT OR REPLACE INTO feedback
-       (id, source, title, content, label, author, created_at, raw_metadata)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  // Unchanged content is left alone; changed title/content bumps the revision and marks
+  // the existing classification stale so it is picked up again for classification
+  async ingestFeedbackBatch(feedbackItems: Feedback[]): Promise<IngestResult> {
+    const result: IngestResult = { inserted: [], changed: [], unchanged: [], threads_updated: [] };
+    if (feedbackItems.length === 0) return result;
+
+    // Later items with the same id win; thread roots go in before their replies
+    const unique = [...new Map(feedbackItems.map((f) => [f.id, f])).values()].sort(
+      (a, b) => Number(!!a.parent_id) - Number(!!b.parent_id)
     );
+    const redactions = this.redactor
+      ? await Promise.all(unique.map((f) => this.redactor!.redact(f)))
+      : null;
+    const items = redactions ? redactions.map((r) => r.feedback) : unique;
+    const hashes = await Promise.all(items.map((f) => contentHash(f)));
+    const existing = await this.getContentHashes(items.map((f) => f.id));
+    const now = new Date().toISOString();
 
-    await this.db.batch(
-      feedbackItems.map((f) =>
-        stmt.bind(
+    const upsert = this.db.prepare(
+      `INSERT INTO feedback
+       (id, source, title, content, label, author, created_at, raw_metadata, parent_id, content_hash, updated_at, revision, language)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         source = excluded.source,
+         title = excluded.title,
+         content = excluded.content,
+         label = excluded.label,
+         author = excluded.author,
+         created_at = excluded.created_at,
+         raw_metadata = excluded.raw_metadata,
+         parent_id = excluded.parent_id,
+         updated_at = CASE WHEN feedback.content_hash IS excluded.content_hash
+           THEN feedback.updated_at ELSE excluded.updated_at END,
+         revision = CASE WHEN feedback.content_hash IS excluded.content_hash
+           THEN feedback.revision ELSE feedback.revision + 1 END,
+         translated_title = CASE WHEN feedback.content_hash IS excluded.content_hash
+           THEN feedback.translated_title ELSE NULL END,
+         translated_content = CASE WHEN feedback.content_hash IS excluded.content_hash
+           THEN feedback.translated_content ELSE NULL END,
+         language = excluded.language,
+         content_hash = excluded.content_hash
+       WHERE feedback.content_hash IS NOT excluded.content_hash
+         OR feedback.source IS NOT excluded.source
+         OR feedback.label IS NOT excluded.label
+         OR feedback.author IS NOT excluded.author
+         OR feedback.created_at IS NOT excluded.created_at
+         OR feedback.raw_metadata IS NOT excluded.raw_metadata
+         OR feedback.parent_id IS NOT excluded.parent_id
+         OR feedback.language IS NOT excluded.language`
+    );
+    const markStale = this.db.prepare(
+      `UPDATE classifications SET stale = 1 WHERE feedback_id = ?`
+    );
+    // Changed content gets a fresh classification attempt
+    const clearFailure = this.db.prepare(`DELETE FROM classification_failures WHERE feedback_id = ?`);
+    const clearDeadLetter = this.db.prepare(`DELETE FROM classification_dead_letters WHERE feedback_id = ?`);
+    const storeReport = this.db.prepare(
+      `INSERT OR REPLACE INTO redaction_reports (feedback_id, redacted_count, entries, redacted_at)
+       VALUES (?, ?, ?, ?)`
+    );
+    const storeOriginal = this.db.prepare(
+      `INSERT OR REPLACE INTO feedback_originals (feedback_id, title, content, author, raw_metadata, stored_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    );
+    const deleteOriginal = this.db.prepare(`DELETE FROM feedback_originals WHERE feedback_id = ?`);
+
+    const statements: D1PreparedStatement[] = [];
+    const threadsUpdated = new Set<string>();
+    items.forEach((f, i) => {
+      const previous = existing.get(f.id);
+      if (previous === undefined) {
+        result.inserted.push(f.id);
+      } else if (previous !== hashes[i]) {
+        result.changed.push(f.id);
+        statements.push(markStale.bind(f.id), clearFailure.bind(f.id), clearDeadLetter.bind(f.id));
+      } else {
+        result.unchanged.push(f.id);
+      }
+
+      statements.push(
+        upsert.bind(
           f.id,
           f.source,
           f.title,
@@ -71,203 +183,1850 @@ export class FeedbackDB {
           f.label || null,
           f.author || null,
           f.created_at,
-          f.raw_metadata || null
+          f.raw_metadata || null,
+          f.parent_id || null,
+          hashes[i],
+          now,
+          detectLanguage(`${f.title}\n${f.content}`)
         )
-      )
-    );
+      );
+
+      // Redaction report (and optional original) follows the stored revision
+      const redaction = redactions?.[i];
+      if (redaction && previous !== hashes[i]) {
+        statements.push(storeReport.bind(f.id, redaction.report.length, JSON.stringify(redaction.report), now));
+        const original = redaction.original;
+        statements.push(
+          original
+            ? storeOriginal.bind(
+                f.id,
+                original.title,
+                original.content,
+                original.author || null,
+                original.raw_metadata || null,
+                now
+              )
+            : deleteOriginal.bind(f.id)
+        );
+      }
+
+      // A new or edited reply changes how the whole thread should be classified
+      if (f.parent_id && previous !== hashes[i]) {
+        threadsUpdated.add(f.parent_id);
+        statements.push(markStale.bind(f.parent_id), clearFailure.bind(f.parent_id), clearDeadLetter.bind(f.parent_id));
+      }
+    });
+
+    await this.db.batch(statements);
+    result.threads_updated = [...threadsUpdated];
+    return result;
   }
 
-  // Store classification results
-  async storeClassification(classification: Classification): Promise<void> {
+  // Return which of the given feedback IDs already exist
+  async getExistingIds(ids: string[]): Promise<Set<string>> {
+    return new Set((await this.getContentHashes(ids)).keys());
+  }
+
+  // Stored content hashes for the given feedback IDs (missing IDs are absent from the map)
+  private async getContentHashes(ids: string[]): Promise<Map<string, string | null>> {
+    const hashes = new Map<string, string | null>();
+
+    // D1 caps bound parameters per query at 100
+    for (let i = 0; i < ids.length; i += 100) {
+      const chunk = ids.slice(i, i + 100);
+      const result = await this.db
+        .prepare(`SELECT id, content_hash FROM feedback WHERE id IN (${chunk.map(() => "?").join(", ")})`)
+        .bind(...chunk)
+        .all<{ id: string; content_hash: string | null }>();
+
+      for (const row of result.results) {
+        hashes.set(row.id, row.content_hash);
+      }
+    }
+
+    return hashes;
+  }
+
+  // Parent IDs of the given feedback IDs (null for thread roots; missing IDs are absent from the map)
+  async getParentIds(ids: string[]): Promise<Map<string, string | null>> {
+    const parents = new Map<string, string | null>();
+
+    // D1 caps bound parameters per query at 100
+    for (let i = 0; i < ids.length; i += 100) {
+      const chunk = ids.slice(i, i + 100);
+      const result = await this.db
+        .prepare(`SELECT id, parent_id FROM feedback WHERE id IN (${chunk.map(() => "?").join(", ")})`)
+        .bind(...chunk)
+        .all<{ id: string; parent_id: string | null }>();
+
+      for (const row of result.results) {
+        parents.set(row.id, row.parent_id);
+      }
+    }
+
+    return parents;
+  }
+
+  // Store the English translation of a non-English feedback item
+  async storeTranslation(feedbackId: string, title: string, content: string): Promise<void> {
+    await this.db
+      .prepare(`UPDATE feedback SET translated_title = ?, translated_content = ? WHERE id = ?`)
+      .bind(title, content, feedbackId)
+      .run();
+  }
+
+  // Exclude a feedback item from classification, metrics and queues
+  async setFilterStatus(feedbackId: string, verdict: FilterVerdict): Promise<void> {
     await this.db
       .prepare(
-        `INSERT OR REPLACE INTO classifications
-         (feedback_id, urgency, sentiment, impact, actionability, route, confidence, reasoning)
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
-      )
-      .bind(
-        classification.feedback_id,
-        classification.urgency,
-        classification.sentiment,
-        classification.impact,
-        classification.actionability,
-        classification.route || null,
-        classification.confidence || null,
-        classification.reasoning || null
+        `UPDATE feedback SET filter_status = ?, filter_reason = ?, filtered_at = ?
+         WHERE id = ? AND filter_restored = 0`
       )
+      .bind(verdict.status, verdict.reason, new Date().toISOString(), feedbackId)
       .run();
   }
 
-  // Store extracted signals (clears old signals first to prevent duplicates)
-  async storeSignals(signals: Signal[]): Promise<void> {
-    if (signals.length === 0) return;
+  // Restore a pre-filter false positive; it is queued for classification and never filtered again
+  async restoreFilteredFeedback(feedbackId: string): Promise<boolean> {
+    const [restored] = await this.db.batch([
+      this.db
+        .prepare(
+          `UPDATE feedback SET filter_status = NULL, filter_reason = NULL, filtered_at = NULL, filter_restored = 1
+           WHERE id = ? AND filter_status IS NOT NULL`
+        )
+        .bind(feedbackId),
+      this.db.prepare(`UPDATE classifications SET stale = 1 WHERE feedback_id = ?`).bind(feedbackId),
+    ]);
+    return restored.meta.changes > 0;
+  }
 
-    // Get unique feedback IDs to clear old signals
-    const feedbackIds = [...new Set(signals.map(s => s.feedback_id))];
+  // Get feedback excluded by the pre-filter, newest first, for review
+  async getFilteredFeedback(status?: FilterStatus, limit: number = 50): Promise<Feedback[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM feedback
+         WHERE filter_status IS NOT NULL AND (?1 IS NULL OR filter_status = ?1)
+         ORDER BY filtered_at DESC
+         LIMIT ?2`
+      )
+      .bind(status ?? null, limit)
+      .all<Feedback>();
 
-    // Delete existing signals for these feedback items
-    for (const feedbackId of feedbackIds) {
-      await this.db
-        .prepare(`DELETE FROM signals WHERE feedback_id = ?`)
-        .bind(feedbackId)
-        .run();
-    }
+    return result.results;
+  }
 
-    // Insert new signals
-    const stmt = this.db.prepare(
-      `INSERT INTO signals (feedback_id, signal_type, signal_value, confidence)
-       VALUES (?, ?, ?, ?)`
-    );
+  // Store classification results (clearing any earlier classification failure)
+  // Every result is appended to classification_history; the classifications row is the current
+  // version and points at its history row
+  async storeClassification(classification: Classification): Promise<void> {
+    const values = [
+      classification.feedback_id,
+      classification.urgency,
+      classification.sentiment,
+      classification.impact,
+      classification.actionability,
+      classification.route || null,
+      classification.confidence || null,
+      classification.reasoning || null,
+      classification.prompt_version || null,
+      classification.model || null,
+      classification.rules_hash || null,
+    ];
+    await this.db.batch([
+      this.db
+        .prepare(
+          `INSERT INTO classification_history
+           (feedback_id, urgency, sentiment, impact, actionability, route, confidence, reasoning, prompt_version, model, rules_hash, classified_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(...values, new Date().toISOString()),
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO classifications
+           (feedback_id, urgency, sentiment, impact, actionability, route, confidence, reasoning, prompt_version, model, rules_hash, review_status, history_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, last_insert_rowid())`
+        )
+        .bind(...values, classification.review_status || null),
+      this.db.prepare(`DELETE FROM classification_failures WHERE feedback_id = ?`).bind(classification.feedback_id),
+    ]);
+  }
 
-    await this.db.batch(
-      signals.map((s) =>
-        stmt.bind(s.feedback_id, s.signal_type, s.signal_value, s.confidence || null)
+  // All classification versions of an item, oldest first; `current` marks the one in use
+  async getClassificationVersions(feedbackId: string): Promise<any[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT h.*, h.id IS c.history_id AS current
+         FROM classification_history h
+         LEFT JOIN classifications c ON c.feedback_id = h.feedback_id
+         WHERE h.feedback_id = ?
+         ORDER BY h.id`
       )
-    );
+      .bind(feedbackId)
+      .all();
+
+    return result.results.map((row: any) => ({ ...row, current: row.current === 1 }));
   }
 
-  // Get unclassified feedback
-  async getUnclassifiedFeedback(limit: number = 50): Promise<Feedback[]> {
+  // Versions present in the history: each model, prompt version and rules hash with its item count
+  async getClassificationHistoryVersions(): Promise<any[]> {
     const result = await this.db
       .prepare(
-        `SELECT f.* FROM feedback f
-         LEFT JOIN classifications c ON f.id = c.feedback_id
-         WHERE c.feedback_id IS NULL
-         ORDER BY f.created_at DESC
-         LIMIT ?`
+        `SELECT model, prompt_version, rules_hash, COUNT(DISTINCT feedback_id) AS items,
+                MIN(classified_at) AS first_classified_at, MAX(classified_at) AS last_classified_at
+         FROM classification_history
+         GROUP BY model, prompt_version, rules_hash
+         ORDER BY first_classified_at`
       )
-      .bind(limit)
       .all();
 
-    return result.results as Feedback[];
+    return result.results;
   }
 
-  // Get all feedback with classifications
-  async getAllFeedbackWithClassifications(limit: number = 100): Promise<any[]> {
+  // Latest history row per item for a version, matched on model, prompt version or rules hash
+  async getLatestClassificationsForVersion(version: string): Promise<Classification[]> {
     const result = await this.db
       .prepare(
-        `SELECT f.*, c.urgency, c.sentiment, c.impact, c.actionability, c.route, c.reasoning
-         FROM feedback f
-         LEFT JOIN classifications c ON f.id = c.feedback_id
-         ORDER BY f.created_at DESC
-         LIMIT ?`
+        `SELECT * FROM classification_history
+         WHERE id IN (
+           SELECT MAX(id) FROM classification_history
+           WHERE ?1 IN (model, prompt_version, rules_hash)
+           GROUP BY feedback_id
+         )`
       )
-      .bind(limit)
-      .all();
+      .bind(version)
+      .all<Classification>();
 
     return result.results;
   }
 
-  // Get feedback by route for PM review
-  async getFeedbackByRoute(route: string, limit: number = 20): Promise<any[]> {
+  // Record that the model's output for an item stayed invalid after repair retries
+  async recordClassificationFailure(feedbackId: string, error: string, rawOutput: string, attempts: number): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT OR REPLACE INTO classification_failures (feedback_id, error, raw_output, attempts, failed_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .bind(feedbackId, error, rawOutput.slice(0, 4000), attempts, new Date().toISOString())
+      .run();
+  }
+
+  // Get items in the classification_failed state, most recent first
+  async getClassificationFailures(limit: number = 50): Promise<any[]> {
     const result = await this.db
       .prepare(
-        `SELECT f.*, c.urgency, c.sentiment, c.impact, c.actionability, c.reasoning
-         FROM feedback f
-         JOIN classifications c ON f.id = c.feedback_id
-         WHERE c.route LIKE ?
-         ORDER BY c.urgency DESC, c.impact DESC
+        `SELECT f.id, f.source, f.title, f.created_at, cf.error, cf.raw_output, cf.attempts, cf.failed_at,
+                c.feedback_id IS NOT NULL AS has_previous_classification
+         FROM classification_failures cf
+         JOIN feedback f ON f.id = cf.feedback_id
+         LEFT JOIN classifications c ON c.feedback_id = cf.feedback_id
+         ORDER BY cf.failed_at DESC
          LIMIT ?`
       )
-      .bind(`%${route}%`, limit)
+      .bind(limit)
       .all();
 
     return result.results;
   }
 
-  // Get metrics for a time period
-  async getMetrics(startDate: string, endDate: string): Promise<any> {
-    const [totals, byRoute, bySource, avgScores] = await this.db.batch([
-      this.db
+  // Put failed items back in the classification queue (all, or the given ids)
+  async clearClassificationFailures(feedbackIds?: string[]): Promise<number> {
+    if (!feedbackIds) {
+      const result = await this.db.prepare(`DELETE FROM classification_failures`).run();
+      return result.meta.changes;
+    }
+    if (feedbackIds.length === 0) return 0;
+
+    const stmt = this.db.prepare(`DELETE FROM classification_failures WHERE feedback_id = ?`);
+    const results = await this.db.batch(feedbackIds.map((id) => stmt.bind(id)));
+    return results.reduce((sum, r) => sum + r.meta.changes, 0);
+  }
+
+  // ============ CLASSIFICATION PIPELINE ============
+
+  // Of the given ids, the thread roots that can be classified (replies resolve to their root)
+  async getClassifiableRoots(feedbackIds: string[]): Promise<string[]> {
+    const roots = new Set<string>();
+    // D1 limits bound parameters per query
+    for (let i = 0; i < feedbackIds.length; i += 100) {
+      const chunk = feedbackIds.slice(i, i + 100);
+      const result = await this.db
         .prepare(
-          `SELECT COUNT(*) as total FROM feedback
-           WHERE created_at BETWEEN ? AND ?`
+          `SELECT DISTINCT r.id FROM feedback f
+           JOIN feedback r ON r.id = COALESCE(f.parent_id, f.id)
+           WHERE f.id IN (${chunk.map(() => "?").join(", ")}) AND r.filter_status IS NULL`
         )
-        .bind(startDate, endDate),
+        .bind(...chunk)
+        .all<{ id: string }>();
+      result.results.forEach((r) => roots.add(r.id));
+    }
+    return [...roots];
+  }
 
+  // Unclassified roots not yet in the pipeline; pending/classifying rows last updated
+  // before `staleBefore` count as lost and are queued again. Dead letters wait for a replay.
+  async getUnqueuedFeedbackIds(limit: number, staleBefore: string): Promise<string[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT f.id FROM feedback f
+         LEFT JOIN classifications c ON f.id = c.feedback_id
+         WHERE f.parent_id IS NULL AND f.filter_status IS NULL
+           AND (c.feedback_id IS NULL OR c.stale = 1)
+           AND NOT EXISTS (SELECT 1 FROM classification_failures cf WHERE cf.feedback_id = f.id)
+           AND NOT EXISTS (SELECT 1 FROM classification_dead_letters d WHERE d.feedback_id = f.id)
+           AND NOT EXISTS (
+             SELECT 1 FROM classification_queue q
+             WHERE q.feedback_id = f.id AND q.status IN ('pending', 'classifying') AND q.updated_at >= ?2
+           )
+         ORDER BY f.created_at DESC
+         LIMIT ?1`
+      )
+      .bind(limit, staleBefore)
+      .all<{ id: string }>();
+
+    return result.results.map((r) => r.id);
+  }
+
+  // Mark items as pending (attempts restart) and release them from the dead-letter store
+  async markClassificationQueued(feedbackIds: string[]): Promise<void> {
+    if (feedbackIds.length === 0) return;
+
+    const now = new Date().toISOString();
+    const queue = this.db.prepare(
+      `INSERT INTO classification_queue (feedback_id, status, attempts, last_error, enqueued_at, updated_at)
+       VALUES (?1, 'pending', 0, NULL, ?2, ?2)
+       ON CONFLICT(feedback_id) DO UPDATE SET
+         status = 'pending', attempts = 0, last_error = NULL, enqueued_at = ?2, updated_at = ?2`
+    );
+    const release = this.db.prepare(`DELETE FROM classification_dead_letters WHERE feedback_id = ?`);
+    await this.db.batch(feedbackIds.flatMap((id) => [queue.bind(id, now), release.bind(id)]));
+  }
+
+  // Undo markClassificationQueued for items whose messages were never sent, so the
+  // unqueued sweep picks them up instead of waiting for them to go stale
+  async unmarkClassificationQueued(feedbackIds: string[]): Promise<void> {
+    if (feedbackIds.length === 0) return;
+
+    const remove = this.db.prepare(
+      `DELETE FROM classification_queue WHERE feedback_id = ? AND status = 'pending' AND attempts = 0`
+    );
+    await this.db.batch(feedbackIds.map((id) => remove.bind(id)));
+  }
+
+  // Record a pipeline state change for one item
+  async setClassificationStatus(
+    feedbackId: string,
+    status: ClassificationQueueStatus,
+    attempts: number,
+    error: string | null = null
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await this.db
+      .prepare(
+        `INSERT INTO classification_queue (feedback_id, status, attempts, last_error, enqueued_at, updated_at)
+         VALUES (?1, ?2, ?3, ?4, ?5, ?5)
+         ON CONFLICT(feedback_id) DO UPDATE SET
+           status = ?2, attempts = ?3, last_error = ?4, updated_at = ?5`
+      )
+      .bind(feedbackId, status, attempts, error, now)
+      .run();
+  }
+
+  // Move an item that kept failing to the dead-letter store
+  async deadLetterClassification(feedbackId: string, error: string, attempts: number): Promise<void> {
+    const now = new Date().toISOString();
+    await this.db.batch([
       this.db
         .prepare(
-          `SELECT c.route, COUNT(*) as count
-           FROM classifications c
-           JOIN feedback f ON c.feedback_id = f.id
-           WHERE f.created_at BETWEEN ? AND ?
-           GROUP BY c.route`
+          `INSERT INTO classification_queue (feedback_id, status, attempts, last_error, enqueued_at, updated_at)
+           VALUES (?1, 'failed', ?2, ?3, ?4, ?4)
+           ON CONFLICT(feedback_id) DO UPDATE SET
+             status = 'failed', attempts = ?2, last_error = ?3, updated_at = ?4`
         )
-        .bind(startDate, endDate),
-
+        .bind(feedbackId, attempts, error, now),
       this.db
         .prepare(
-          `SELECT source, COUNT(*) as count
-           FROM feedback
-           WHERE created_at BETWEEN ? AND ?
-           GROUP BY source`
+          `INSERT OR REPLACE INTO classification_dead_letters (feedback_id, error, attempts, dead_at)
+           VALUES (?, ?, ?, ?)`
         )
-        .bind(startDate, endDate),
+        .bind(feedbackId, error, attempts, now),
+    ]);
+  }
+
+  // Pipeline status of one item (null when it was never queued)
+  async getClassificationStatus(feedbackId: string): Promise<any | null> {
+    return await this.db
+      .prepare(`SELECT * FROM classification_queue WHERE feedback_id = ?`)
+      .bind(feedbackId)
+      .first();
+  }
+
+  // Item counts per pipeline status
+  async getClassificationQueueCounts(): Promise<Record<ClassificationQueueStatus, number>> {
+    const result = await this.db
+      .prepare(`SELECT status, COUNT(*) AS count FROM classification_queue GROUP BY status`)
+      .all<{ status: ClassificationQueueStatus; count: number }>();
+
+    const counts = { pending: 0, classifying: 0, done: 0, failed: 0 };
+    for (const row of result.results) counts[row.status] = row.count;
+    return counts;
+  }
+
+  // Get dead letters, most recent first
+  async getDeadLetters(limit: number = 50): Promise<any[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT f.id, f.source, f.title, f.created_at, d.error, d.attempts, d.dead_at
+         FROM classification_dead_letters d
+         JOIN feedback f ON f.id = d.feedback_id
+         ORDER BY d.dead_at DESC
+         LIMIT ?`
+      )
+      .bind(limit)
+      .all();
+
+    return result.results;
+  }
 
+  // Ids in the dead-letter store (all, or those among the given ids)
+  async getDeadLetterIds(feedbackIds?: string[]): Promise<string[]> {
+    const result = await this.db.prepare(`SELECT feedback_id FROM classification_dead_letters`).all<{ feedback_id: string }>();
+    const ids = result.results.map((r) => r.feedback_id);
+    return feedbackIds ? ids.filter((id) => feedbackIds.includes(id)) : ids;
+  }
+
+  // Create a reclassification job over the items its filter selects now
+  async createReclassificationJob(
+    id: string,
+    filter: ReclassificationFilter,
+    createdBy: string | null
+  ): Promise<ReclassificationJob> {
+    const now = new Date().toISOString();
+    await this.db.batch([
       this.db
         .prepare(
-          `SELECT
-             AVG(c.urgency) as avg_urgency,
-             AVG(c.sentiment) as avg_sentiment,
-             AVG(c.impact) as avg_impact,
-             AVG(c.actionability) as avg_actionability
-           FROM classifications c
-           JOIN feedback f ON c.feedback_id = f.id
-           WHERE f.created_at BETWEEN ? AND ?`
+          `INSERT INTO reclassification_jobs (id, status, filter, created_by, created_at, updated_at)
+           VALUES (?, 'running', ?, ?, ?, ?)`
+        )
+        .bind(id, JSON.stringify(filter), createdBy, now, now),
+      this.db
+        .prepare(
+          `INSERT INTO reclassification_job_items (job_id, feedback_id, updated_at)
+           SELECT ?1, f.id, ?2
+           FROM feedback f
+           LEFT JOIN classifications c ON c.feedback_id = f.id
+           WHERE f.parent_id IS NULL AND f.filter_status IS NULL
+             AND (?3 IS NULL OR f.source = ?3)
+             AND (?4 IS NULL OR f.created_at >= ?4)
+             AND (?5 IS NULL OR f.created_at <= ?5)
+             AND (?6 IS NULL OR c.route LIKE '%' || ?6 || '%')
+             AND (?7 IS NULL OR c.model = ?7)
+             AND (?8 IS NULL OR c.prompt_version = ?8)`
         )
-        .bind(startDate, endDate),
+        .bind(
+          id,
+          now,
+          filter.source ?? null,
+          filter.since ?? null,
+          filter.until ?? null,
+          filter.route ?? null,
+          filter.model ?? null,
+          filter.prompt_version ?? null
+        ),
     ]);
+    // A job with nothing to do is complete right away
+    await this.finishJobIfDone(id);
+    return (await this.getReclassificationJob(id))!;
+  }
 
-    return {
-      total: (totals.results[0] as any)?.total || 0,
-      by_route: byRoute.results,
-      by_source: bySource.results,
-      averages: avgScores.results[0],
-    };
+  // Get a reclassification job with item counts
+  async getReclassificationJob(id: string): Promise<ReclassificationJob | null> {
+    const jobs = await this.listReclassificationJobs(1, id);
+    return jobs[0] ?? null;
   }
 
-  // Store PM summary
-  async storeSummary(
-    periodStart: string,
-    periodEnd: string,
-    summaryType: string,
-    content: string,
-    metrics: any
+  // Recent reclassification jobs with item counts, newest first
+  async listReclassificationJobs(limit: number = 20, id: string | null = null): Promise<ReclassificationJob[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT j.*,
+                COUNT(i.feedback_id) AS total,
+                COALESCE(SUM(i.status IN ('done', 'failed')), 0) AS processed,
+                COALESCE(SUM(i.status = 'failed'), 0) AS failed,
+                COALESCE(SUM(i.status IN ('pending', 'processing')), 0) AS remaining
+         FROM reclassification_jobs j
+         LEFT JOIN reclassification_job_items i ON i.job_id = j.id
+         WHERE ?1 IS NULL OR j.id = ?1
+         GROUP BY j.id
+         ORDER BY j.created_at DESC
+         LIMIT ?2`
+      )
+      .bind(id, limit)
+      .all<any>();
+
+    return result.results.map((row) => ({ ...row, filter: JSON.parse(row.filter) }));
+  }
+
+  // Set a job's status (running when resumed, cancelled); returns false if the job is unknown
+  async setReclassificationJobStatus(id: string, status: ReclassificationJobStatus): Promise<boolean> {
+    const now = new Date().toISOString();
+    const result = await this.db
+      .prepare(
+        `UPDATE reclassification_jobs SET status = ?2, updated_at = ?3,
+           finished_at = CASE WHEN ?2 = 'running' THEN NULL ELSE ?3 END
+         WHERE id = ?1`
+      )
+      .bind(id, status, now)
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  // Items of a job not processed yet, and items claimed before `staleBefore` whose delivery was lost
+  async getPendingJobItemIds(jobId: string, staleBefore: string): Promise<string[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT feedback_id FROM reclassification_job_items
+         WHERE job_id = ? AND (status = 'pending' OR (status = 'processing' AND updated_at < ?))
+         ORDER BY feedback_id`
+      )
+      .bind(jobId, staleBefore)
+      .all<{ feedback_id: string }>();
+
+    return result.results.map((r) => r.feedback_id);
+  }
+
+  // Claim a job item for classification: pending, or processing but claimed before `staleBefore`
+  // Returns false when another delivery holds or already finished it
+  async claimJobItem(jobId: string, feedbackId: string, staleBefore: string): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `UPDATE reclassification_job_items SET status = 'processing', updated_at = ?4
+         WHERE job_id = ?1 AND feedback_id = ?2
+           AND (status = 'pending' OR (status = 'processing' AND updated_at < ?3))`
+      )
+      .bind(jobId, feedbackId, staleBefore, new Date().toISOString())
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  // Checkpoint one job item and complete the job when nothing is pending or processing
+  async setJobItemStatus(
+    jobId: string,
+    feedbackId: string,
+    status: ReclassificationItemStatus,
+    error: string | null = null
   ): Promise<void> {
+    const now = new Date().toISOString();
+    await this.db.batch([
+      this.db
+        .prepare(
+          `UPDATE reclassification_job_items SET status = ?, error = ?, updated_at = ?
+           WHERE job_id = ? AND feedback_id = ?`
+        )
+        .bind(status, error, now, jobId, feedbackId),
+      this.db.prepare(`UPDATE reclassification_jobs SET updated_at = ? WHERE id = ?`).bind(now, jobId),
+    ]);
+    if (status === "done" || status === "failed") await this.finishJobIfDone(jobId);
+  }
+
+  // Mark a running job completed once none of its items is pending or processing
+  private async finishJobIfDone(jobId: string): Promise<void> {
+    const now = new Date().toISOString();
     await this.db
       .prepare(
-        `INSERT INTO summaries (period_start, period_end, summary_type, content, metrics)
-         VALUES (?, ?, ?, ?, ?)`
+        `UPDATE reclassification_jobs SET status = 'completed', updated_at = ?2, finished_at = ?2
+         WHERE id = ?1 AND status = 'running'
+           AND NOT EXISTS (
+             SELECT 1 FROM reclassification_job_items WHERE job_id = ?1 AND status IN ('pending', 'processing')
+           )`
       )
-      .bind(periodStart, periodEnd, summaryType, content, JSON.stringify(metrics))
+      .bind(jobId, now)
       .run();
   }
 
-  // Get trending signals
-  async getTrendingSignals(days: number = 7, limit: number = 10): Promise<any[]> {
+  // Failed items of a job with their errors
+  async getFailedJobItems(jobId: string, limit: number = 50): Promise<any[]> {
     const result = await this.db
       .prepare(
-        `SELECT signal_type, signal_value, COUNT(*) as frequency, AVG(confidence) as avg_confidence
-         FROM signals s
-         JOIN feedback f ON s.feedback_id = f.id
-         WHERE f.created_at >= datetime('now', '-' || ? || ' days')
-         GROUP BY signal_type, signal_value
-         ORDER BY frequency DESC
+        `SELECT feedback_id, error, updated_at FROM reclassification_job_items
+         WHERE job_id = ? AND status = 'failed'
+         ORDER BY updated_at DESC
          LIMIT ?`
       )
-      .bind(days, limit)
+      .bind(jobId, limit)
       .all();
 
     return result.results;
   }
 
-  // Get feedback by ID
-  async getFeedbackById(id: string): Promise<Feedback | null> {
-    const result = await this.db
-      .prepare(`SELECT * FROM feedback WHERE id = ?`)
-      .bind(id)
-      .first();
+  // Store extracted signals (clears old signals first to prevent duplicates)
+  async storeSignals(signals: Signal[]): Promise<void> {
+    if (signals.length === 0) return;
 
-    return result as Feedback | null;
-  }
+    // Get unique feedback IDs to clear old signals
+    const feedbackIds = [...new Set(signals.map(s => s.feedback_id))];
+
+    // Delete existing signals for these feedback items
+    for (const feedbackId of feedbackIds) {
+      await this.db
+        .prepare(`DELETE FROM signals WHERE feedback_id = ?`)
+        .bind(feedbackId)
+        .run();
+    }
+
+    // Insert new signals
+    const stmt = this.db.prepare(
+      `INSERT INTO signals (feedback_id, signal_type, signal_value, confidence)
+       VALUES (?, ?, ?, ?)`
+    );
+
+    await this.db.batch(
+      signals.map((s) =>
+        stmt.bind(s.feedback_id, s.signal_type, s.signal_value, s.confidence || null)
+      )
+    );
+  }
+
+  // Get stored signals for feedback items, keyed by feedback id
+  async getSignalsByFeedback(feedbackIds: string[]): Promise<Map<string, Signal[]>> {
+    const signals = new Map<string, Signal[]>();
+    // D1 limits bound parameters per query
+    for (let i = 0; i < feedbackIds.length; i += 100) {
+      const chunk = feedbackIds.slice(i, i + 100);
+      const result = await this.db
+        .prepare(
+          `SELECT feedback_id, signal_type, signal_value, confidence FROM signals
+           WHERE feedback_id IN (${chunk.map(() => "?").join(", ")})`
+        )
+        .bind(...chunk)
+        .all<Signal>();
+      for (const signal of result.results) {
+        signals.set(signal.feedback_id, [...(signals.get(signal.feedback_id) || []), signal]);
+      }
+    }
+    return signals;
+  }
+
+  // Count signal values the taxonomy doesn't know yet
+  async recordTaxonomyCandidates(candidates: Signal[]): Promise<void> {
+    if (candidates.length === 0) return;
+
+    const now = new Date().toISOString();
+    const stmt = this.db.prepare(
+      `INSERT INTO taxonomy_candidates (signal_type, signal_value, occurrences, example_feedback_id, first_seen, last_seen)
+       VALUES (?1, ?2, 1, ?3, ?4, ?4)
+       ON CONFLICT(signal_type, signal_value) DO UPDATE SET
+         occurrences = occurrences + 1, example_feedback_id = ?3, last_seen = ?4`
+    );
+    await this.db.batch(candidates.map((c) => stmt.bind(c.signal_type, c.signal_value, c.feedback_id, now)));
+  }
+
+  // Get taxonomy candidates, most frequent first
+  async getTaxonomyCandidates(limit: number = 100): Promise<any[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM taxonomy_candidates
+         ORDER BY occurrences DESC, last_seen DESC
+         LIMIT ?`
+      )
+      .bind(limit)
+      .all();
+
+    return result.results;
+  }
+
+  // Drop candidates that became (or were merged into) taxonomy entries
+  async deleteTaxonomyCandidates(signalType: string, values: string[]): Promise<void> {
+    if (values.length === 0) return;
+
+    const stmt = this.db.prepare(`DELETE FROM taxonomy_candidates WHERE signal_type = ? AND signal_value = ?`);
+    await this.db.batch(values.map((value) => stmt.bind(signalType, value.toLowerCase())));
+  }
+
+  // Rewrite stored signals of the given values (case-insensitive) to one value
+  // An item that had several of the merged values keeps a single signal
+  async mergeSignalValues(signalType: string, from: string[], to: string): Promise<number> {
+    const values = [...new Set(from.map((v) => v.toLowerCase()))];
+    if (values.length === 0) return 0;
+
+    let updated = 0;
+    // D1 limits bound parameters per query
+    for (let i = 0; i < values.length; i += 90) {
+      const chunk = values.slice(i, i + 90);
+      const result = await this.db
+        .prepare(
+          `UPDATE signals SET signal_value = ?1
+           WHERE signal_type = ?2 AND signal_value != ?1
+             AND lower(signal_value) IN (${chunk.map((_, j) => `?${j + 3}`).join(", ")})`
+        )
+        .bind(to, signalType, ...chunk)
+        .run();
+      updated += result.meta.changes;
+    }
+
+    await this.db
+      .prepare(
+        `DELETE FROM signals
+         WHERE signal_type = ?1 AND signal_value = ?2
+           AND id NOT IN (
+             SELECT MAX(id) FROM signals WHERE signal_type = ?1 AND signal_value = ?2 GROUP BY feedback_id
+           )`
+      )
+      .bind(signalType, to)
+      .run();
+    return updated;
+  }
+
+  // Get classified root feedback with scores, signals and route locks for re-routing
+  async getRoutableClassifications(): Promise<RoutableItem[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT f.id AS feedback_id, f.title, f.source,
+                c.urgency, c.sentiment, c.impact, c.actionability, c.confidence, c.route,
+                EXISTS (SELECT 1 FROM classification_locks l WHERE l.feedback_id = f.id AND l.field = 'route') AS route_locked
+         FROM classifications c
+         JOIN feedback f ON f.id = c.feedback_id
+         WHERE f.parent_id IS NULL AND f.filter_status IS NULL
+         ORDER BY f.created_at DESC`
+      )
+      .all<any>();
+
+    const signals = await this.getSignalsByFeedback(result.results.map((r) => r.feedback_id));
+    return result.results.map((row) => ({
+      ...row,
+      confidence: row.confidence ?? undefined,
+      route_locked: !!row.route_locked,
+      signals: signals.get(row.feedback_id) || [],
+    }));
+  }
+
+  // Set the route of existing classifications (re-routing without AI reclassification)
+  // Each re-routed item gets a history row (same scores and model, new route and rules hash)
+  async updateRoutes(updates: { feedback_id: string; route: string }[], rulesHash: string): Promise<void> {
+    if (updates.length === 0) return;
+
+    const classifiedAt = new Date().toISOString();
+    const history = this.db.prepare(
+      `INSERT INTO classification_history
+       (feedback_id, urgency, sentiment, impact, actionability, route, confidence, reasoning, prompt_version, model, rules_hash, classified_at)
+       SELECT feedback_id, urgency, sentiment, impact, actionability, ?2, confidence, reasoning, prompt_version, model, ?3, ?4
+       FROM classifications WHERE feedback_id = ?1`
+    );
+    const current = this.db.prepare(
+      `UPDATE classifications SET route = ?2, rules_hash = ?3, history_id = last_insert_rowid() WHERE feedback_id = ?1`
+    );
+    await this.db.batch(
+      updates.flatMap((u) => [
+        history.bind(u.feedback_id, u.route, rulesHash, classifiedAt),
+        current.bind(u.feedback_id, u.route, rulesHash),
+      ])
+    );
+  }
+
+  // Get unclassified feedback (including items whose content or thread changed since classification)
+  // Replies are classified as part of their thread, never on their own
+  async getUnclassifiedFeedback(limit: number = 50): Promise<Feedback[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT f.* FROM feedback f
+         LEFT JOIN classifications c ON f.id = c.feedback_id
+         WHERE f.parent_id IS NULL AND f.filter_status IS NULL
+           AND (c.feedback_id IS NULL OR c.stale = 1)
+           AND NOT EXISTS (SELECT 1 FROM classification_failures cf WHERE cf.feedback_id = f.id)
+         ORDER BY f.created_at DESC
+         LIMIT ?`
+      )
+      .bind(limit)
+      .all();
+
+    return result.results as Feedback[];
+  }
+
+  // Get all feedback with classifications, optionally for one language
+  async getAllFeedbackWithClassifications(limit: number = 100, language?: string): Promise<any[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT f.*, c.urgency, c.sentiment, c.impact, c.actionability, c.route, c.confidence, c.reasoning,
+                c.stale AS classification_stale, c.review_status,
+                EXISTS (SELECT 1 FROM classification_locks l WHERE l.feedback_id = f.id AND l.field = 'route') AS route_locked,
+                cf.error AS classification_error,
+                CASE WHEN cf.feedback_id IS NOT NULL THEN 'classification_failed'
+                     WHEN c.feedback_id IS NOT NULL THEN 'classified' END AS classification_status,
+                q.status AS queue_status
+         FROM feedback f
+         LEFT JOIN classifications c ON f.id = c.feedback_id
+         LEFT JOIN classification_failures cf ON f.id = cf.feedback_id
+         LEFT JOIN classification_queue q ON f.id = q.feedback_id
+         WHERE (?1 IS NULL OR f.language = ?1)
+         ORDER BY f.created_at DESC
+         LIMIT ?2`
+      )
+      .bind(language ?? null, limit)
+      .all();
+
+    return result.results;
+  }
+
+  // Get feedback by route for PM review
+  // Near-duplicates are collapsed to their most urgent report, with report_count as demand
+  async getFeedbackByRoute(route: string, limit: number = 20, language?: string): Promise<any[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM (
+           SELECT f.*, c.urgency, c.sentiment, c.impact, c.actionability, c.reasoning,
+                  cm.cluster_id, COALESCE(cl.report_count, 1) AS report_count,
+                  ROW_NUMBER() OVER (
+                    PARTITION BY COALESCE(cm.cluster_id, f.id)
+                    ORDER BY c.urgency DESC, c.impact DESC
+                  ) AS cluster_rank
+           FROM feedback f
+           JOIN classifications c ON f.id = c.feedback_id
+           LEFT JOIN cluster_members cm ON f.id = cm.feedback_id
+           LEFT JOIN clusters cl ON cm.cluster_id = cl.id
+           WHERE c.route LIKE ?1 AND f.filter_status IS NULL AND (?3 IS NULL OR f.language = ?3)
+             AND c.review_status IS NOT 'needs_review'
+         )
+         WHERE cluster_rank = 1
+         ORDER BY urgency DESC, impact DESC, report_count DESC
+         LIMIT ?2`
+      )
+      .bind(`%${route}%`, limit, language ?? null)
+      .all();
+
+    return result.results;
+  }
+
+  // Get metrics for a time period, optionally for one language
+  async getMetrics(startDate: string, endDate: string, language?: string): Promise<any> {
+    const lang = language ?? null;
+    const [totals, byRoute, bySource, avgScores, byLanguage, filtered, failed] = await this.db.batch([
+      this.db
+        .prepare(
+          `SELECT COUNT(*) as total,
+                  COUNT(DISTINCT COALESCE(cm.cluster_id, f.id)) as unique_issues
+           FROM feedback f
+           LEFT JOIN cluster_members cm ON f.id = cm.feedback_id
+           WHERE f.created_at BETWEEN ?1 AND ?2 AND f.filter_status IS NULL AND f.parent_id IS NULL
+             AND (?3 IS NULL OR f.language = ?3)`
+        )
+        .bind(startDate, endDate, lang),
+
+      this.db
+        .prepare(
+          `SELECT c.route, COALESCE(cm.cluster_id, f.id) as issue, COUNT(*) as count
+           FROM classifications c
+           JOIN feedback f ON c.feedback_id = f.id
+           LEFT JOIN cluster_members cm ON f.id = cm.feedback_id
+           WHERE f.created_at BETWEEN ?1 AND ?2 AND f.filter_status IS NULL
+             AND (?3 IS NULL OR f.language = ?3)
+           GROUP BY c.route, issue`
+        )
+        .bind(startDate, endDate, lang),
+
+      this.db
+        .prepare(
+          `SELECT source, COUNT(*) as count
+           FROM feedback
+           WHERE created_at BETWEEN ?1 AND ?2 AND filter_status IS NULL AND parent_id IS NULL
+             AND (?3 IS NULL OR language = ?3)
+           GROUP BY source`
+        )
+        .bind(startDate, endDate, lang),
+
+      this.db
+        .prepare(
+          `SELECT
+             AVG(c.urgency) as avg_urgency,
+             AVG(c.sentiment) as avg_sentiment,
+             AVG(c.impact) as avg_impact,
+             AVG(c.actionability) as avg_actionability
+           FROM classifications c
+           JOIN feedback f ON c.feedback_id = f.id
+           WHERE f.created_at BETWEEN ?1 AND ?2 AND f.filter_status IS NULL
+             AND (?3 IS NULL OR f.language = ?3)`
+        )
+        .bind(startDate, endDate, lang),
+
+      this.db
+        .prepare(
+          `SELECT COALESCE(f.language, 'und') as language, COUNT(*) as count,
+                  SUM(f.translated_content IS NOT NULL) as translated,
+                  AVG(c.urgency) as avg_urgency,
+                  AVG(c.sentiment) as avg_sentiment,
+                  AVG(c.impact) as avg_impact
+           FROM feedback f
+           LEFT JOIN classifications c ON f.id = c.feedback_id
+           WHERE f.created_at BETWEEN ?1 AND ?2 AND f.filter_status IS NULL AND f.parent_id IS NULL
+             AND (?3 IS NULL OR f.language = ?3)
+           GROUP BY COALESCE(f.language, 'und')
+           ORDER BY count DESC`
+        )
+        .bind(startDate, endDate, lang),
+
+      this.db
+        .prepare(
+          `SELECT filter_status, COUNT(*) as count
+           FROM feedback
+           WHERE created_at BETWEEN ?1 AND ?2 AND filter_status IS NOT NULL AND parent_id IS NULL
+             AND (?3 IS NULL OR language = ?3)
+           GROUP BY filter_status`
+        )
+        .bind(startDate, endDate, lang),
+
+      this.db
+        .prepare(
+          `SELECT COUNT(*) as count
+           FROM classification_failures cf
+           JOIN feedback f ON cf.feedback_id = f.id
+           WHERE f.created_at BETWEEN ?1 AND ?2 AND (?3 IS NULL OR f.language = ?3)`
+        )
+        .bind(startDate, endDate, lang),
+    ]);
+
+    // Items carry every route they were assigned ("immediate_engineering,trust_risk"): count each one
+    const routes = new Map<string | null, { count: number; issues: Set<string> }>();
+    for (const row of byRoute.results as { route: string | null; issue: string; count: number }[]) {
+      for (const route of row.route === null ? [null] : row.route.split(",")) {
+        if (!routes.has(route)) routes.set(route, { count: 0, issues: new Set() });
+        routes.get(route)!.count += row.count;
+        routes.get(route)!.issues.add(row.issue);
+      }
+    }
+
+    return {
+      total: (totals.results[0] as any)?.total || 0,
+      unique_issues: (totals.results[0] as any)?.unique_issues || 0,
+      by_route: [...routes].map(([route, { count, issues }]) => ({ route, count, unique_count: issues.size })),
+      by_source: bySource.results,
+      by_language: byLanguage.results,
+      filtered: Object.fromEntries(filtered.results.map((r: any) => [r.filter_status, r.count])),
+      classification_failed: (failed.results[0] as any)?.count || 0,
+      averages: avgScores.results[0],
+    };
+  }
+
+  // Store PM summary
+  async storeSummary(
+    periodStart: string,
+    periodEnd: string,
+    summaryType: string,
+    content: string,
+    metrics: any,
+    promptVersion?: string
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO summaries (period_start, period_end, summary_type, content, metrics, prompt_version)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .bind(periodStart, periodEnd, summaryType, content, JSON.stringify(metrics), promptVersion || null)
+      .run();
+  }
+
+  // Classification outcomes per prompt version, for comparing A/B arms
+  async getPromptVersionStats(): Promise<any[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT COALESCE(prompt_version, 'unknown') as prompt_version,
+                COUNT(*) as classified,
+                AVG(urgency) as avg_urgency,
+                AVG(sentiment) as avg_sentiment,
+                AVG(impact) as avg_impact,
+                AVG(actionability) as avg_actionability,
+                AVG(confidence) as avg_confidence,
+                SUM(route LIKE '%immediate_engineering%') as immediate_engineering,
+                SUM(route LIKE '%trust_risk%') as trust_risk,
+                SUM(route LIKE '%quick_win_backlog%') as quick_win_backlog,
+                SUM(route = 'standard_backlog') as standard_backlog
+         FROM classifications
+         GROUP BY COALESCE(prompt_version, 'unknown')
+         ORDER BY classified DESC`
+      )
+      .all();
+
+    return result.results;
+  }
+
+  // Get trending signals
+  // startDate is an ISO 8601 instant like created_at (SQLite datetime() text would compare wrongly)
+  async getTrendingSignals(startDate: string, limit: number = 10, language?: string): Promise<any[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT signal_type, signal_value, COUNT(*) as frequency, AVG(confidence) as avg_confidence
+         FROM signals s
+         JOIN feedback f ON s.feedback_id = f.id
+         WHERE f.created_at >= ?1
+           AND f.filter_status IS NULL AND (?3 IS NULL OR f.language = ?3)
+         GROUP BY signal_type, signal_value
+         ORDER BY frequency DESC
+         LIMIT ?2`
+      )
+      .bind(startDate, limit, language ?? null)
+      .all();
+
+    return result.results;
+  }
+
+  // Per-bucket counts by route, source and signal value, and average scores, for feedback
+  // created at or after startDate (ISO 8601); modifiers map created_at to its bucket's first day
+  async getTrendRows(
+    modifiers: string[],
+    startDate: string,
+    language?: string
+  ): Promise<{ routes: TrendRow[]; sources: TrendRow[]; signals: TrendRow[]; scores: TrendRow[] }> {
+    const bucket = `date(f.created_at, ${modifiers.map((_, i) => `?${i + 3}`).join(", ")})`;
+    const where = `f.created_at >= ?1 AND f.filter_status IS NULL AND (?2 IS NULL OR f.language = ?2)`;
+    const params = [startDate, language ?? null, ...modifiers];
+
+    const [routes, sources, signals, scores] = await this.db.batch<any>([
+      this.db
+        .prepare(
+          `SELECT ${bucket} AS bucket, c.route AS key, COUNT(*) AS value, COUNT(*) AS items
+           FROM classifications c
+           JOIN feedback f ON c.feedback_id = f.id
+           WHERE ${where} AND c.route IS NOT NULL
+           GROUP BY bucket, c.route`
+        )
+        .bind(...params),
+      this.db
+        .prepare(
+          `SELECT ${bucket} AS bucket, f.source AS key, COUNT(*) AS value, COUNT(*) AS items
+           FROM feedback f
+           WHERE ${where}
+           GROUP BY bucket, f.source`
+        )
+        .bind(...params),
+      this.db
+        .prepare(
+          `SELECT ${bucket} AS bucket, s.signal_type || ':' || s.signal_value AS key,
+                  COUNT(DISTINCT s.feedback_id) AS value, COUNT(DISTINCT s.feedback_id) AS items
+           FROM signals s
+           JOIN feedback f ON s.feedback_id = f.id
+           WHERE ${where}
+           GROUP BY bucket, s.signal_type, s.signal_value`
+        )
+        .bind(...params),
+      this.db
+        .prepare(
+          `SELECT ${bucket} AS bucket, COUNT(*) AS items,
+                  AVG(c.urgency) AS urgency, AVG(c.sentiment) AS sentiment,
+                  AVG(c.impact) AS impact, AVG(c.actionability) AS actionability
+           FROM classifications c
+           JOIN feedback f ON c.feedback_id = f.id
+           WHERE ${where}
+           GROUP BY bucket`
+        )
+        .bind(...params),
+    ]);
+
+    return {
+      routes: routes.results,
+      sources: sources.results,
+      signals: signals.results,
+      scores: scores.results.flatMap((row: any) =>
+        (["urgency", "sentiment", "impact", "actionability"] as const).map((field) => ({
+          bucket: row.bucket,
+          key: field,
+          value: row[field],
+          items: row.items,
+        }))
+      ),
+    };
+  }
+
+  // Items per signal and route in the recent window (0) and each earlier window (1 = just
+  // before it) of windowHours since baselineStart; routes are split by the caller
+  async getAlertWindowCounts(
+    baselineStart: string,
+    windowStart: string,
+    windowEnd: string,
+    windowHours: number,
+    signalTypes: string[]
+  ): Promise<WindowCount[]> {
+    const window = `CASE WHEN f.created_at >= ?2 THEN 0
+      ELSE CAST((julianday(?2) - julianday(f.created_at)) * 24 / ?4 AS INTEGER) + 1 END`;
+    const where = `f.created_at > ?1 AND f.created_at <= ?3 AND f.filter_status IS NULL`;
+    const types = signalTypes.slice(0, 90);
+
+    const [signals, routes] = await this.db.batch<any>([
+      this.db
+        .prepare(
+          `SELECT 'signal' AS dimension, s.signal_type || ':' || s.signal_value AS key, ${window} AS window,
+                  COUNT(DISTINCT f.id) AS count
+           FROM signals s
+           JOIN feedback f ON s.feedback_id = f.id
+           WHERE ${where} AND s.signal_type IN (${types.map((_, i) => `?${i + 5}`).join(", ") || "NULL"})
+           GROUP BY key, window`
+        )
+        .bind(baselineStart, windowStart, windowEnd, windowHours, ...types),
+      this.db
+        .prepare(
+          `SELECT 'route' AS dimension, c.route AS key, ${window} AS window, COUNT(*) AS count
+           FROM classifications c
+           JOIN feedback f ON c.feedback_id = f.id
+           WHERE ${where} AND c.route IS NOT NULL
+           GROUP BY key, window`
+        )
+        .bind(baselineStart, windowStart, windowEnd, windowHours),
+    ]);
+
+    // Items carry every route they were assigned ("immediate_engineering,trust_risk")
+    const routeCounts = (routes.results as WindowCount[]).flatMap((row) =>
+      row.key.split(",").map((route) => ({ ...row, key: route }))
+    );
+    return [...(signals.results as WindowCount[]), ...routeCounts];
+  }
+
+  // Most urgent items behind a spike, created in [since, until]
+  async getAlertItems(dimension: AlertDimension, key: string, since: string, until: string, limit: number): Promise<AlertItem[]> {
+    const separator = key.indexOf(":");
+    const match =
+      dimension === "signal"
+        ? `EXISTS (SELECT 1 FROM signals s WHERE s.feedback_id = f.id AND s.signal_type = ?3 AND s.signal_value = ?4)`
+        : `c.route LIKE '%' || ?3 || '%'`;
+    const params = dimension === "signal" ? [key.slice(0, separator), key.slice(separator + 1)] : [key];
+
+    const result = await this.db
+      .prepare(
+        `SELECT f.id, f.source, f.title, f.created_at, c.urgency, c.impact
+         FROM feedback f
+         LEFT JOIN classifications c ON c.feedback_id = f.id
+         WHERE f.created_at >= ?1 AND f.created_at <= ?2 AND f.filter_status IS NULL AND ${match}
+         ORDER BY c.urgency DESC, c.impact DESC, f.created_at DESC
+         LIMIT ${dimension === "signal" ? "?5" : "?4"}`
+      )
+      .bind(since, until, ...params, limit)
+      .all<AlertItem>();
+
+    return result.results;
+  }
+
+  // Whether a signal/route already alerted since the given time (cool-down)
+  async hasAlertSince(dimension: AlertDimension, key: string, since: string): Promise<boolean> {
+    const row = await this.db
+      .prepare(`SELECT 1 FROM alerts WHERE dimension = ? AND key = ? AND created_at >= ? LIMIT 1`)
+      .bind(dimension, key, since)
+      .first();
+
+    return row !== null;
+  }
+
+  // Store an open alert for a spike
+  async createAlert(spike: Spike, windowStart: string, windowEnd: string, topItems: AlertItem[]): Promise<Alert> {
+    const row = await this.db
+      .prepare(
+        `INSERT INTO alerts
+         (dimension, key, window_start, window_end, current_count, baseline_mean, baseline_stddev, z_score, top_items, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING id`
+      )
+      .bind(
+        spike.dimension,
+        spike.key,
+        windowStart,
+        windowEnd,
+        spike.current_count,
+        spike.baseline_mean,
+        spike.baseline_stddev,
+        spike.z_score,
+        JSON.stringify(topItems),
+        new Date().toISOString()
+      )
+      .first<{ id: number }>();
+
+    return (await this.getAlert(row!.id))!;
+  }
+
+  // Record where an alert was sent
+  async setAlertDeliveries(id: number, deliveries: AlertDelivery[]): Promise<void> {
+    await this.db.prepare(`UPDATE alerts SET deliveries = ? WHERE id = ?`).bind(JSON.stringify(deliveries), id).run();
+  }
+
+  // Get alerts, newest first (?status to filter)
+  async getAlerts(status?: AlertStatus, limit: number = 50): Promise<Alert[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM alerts
+         WHERE ?1 IS NULL OR status = ?1
+         ORDER BY created_at DESC, id DESC
+         LIMIT ?2`
+      )
+      .bind(status ?? null, limit)
+      .all<any>();
+
+    return result.results.map(parseAlert);
+  }
+
+  // Get one alert
+  async getAlert(id: number): Promise<Alert | null> {
+    const row = await this.db.prepare(`SELECT * FROM alerts WHERE id = ?`).bind(id).first<any>();
+    return row ? parseAlert(row) : null;
+  }
+
+  // Acknowledge an open alert; returns false if it was not open
+  async acknowledgeAlert(id: number, acknowledgedBy: string): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `UPDATE alerts SET status = 'acknowledged', acknowledged_by = ?, acknowledged_at = ?
+         WHERE id = ? AND status = 'open'`
+      )
+      .bind(acknowledgedBy, new Date().toISOString(), id)
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  // Get feedback by ID
+  async getFeedbackById(id: string): Promise<Feedback | null> {
+    const result = await this.db
+      .prepare(`SELECT * FROM feedback WHERE id = ?`)
+      .bind(id)
+      .first();
+
+    return result as Feedback | null;
+  }
+
+  // Get replies to a thread root, oldest first
+  async getThreadReplies(rootId: string): Promise<Feedback[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM feedback WHERE parent_id = ?
+         ORDER BY created_at ASC, id ASC`
+      )
+      .bind(rootId)
+      .all<Feedback>();
+
+    return result.results;
+  }
+
+  // Record a point on a thread's sentiment trajectory (one per thread classification)
+  async recordThreadSentiment(
+    classification: Classification,
+    replyCount: number
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO thread_sentiment (thread_id, sentiment, urgency, reply_count)
+         VALUES (?, ?, ?, ?)`
+      )
+      .bind(classification.feedback_id, classification.sentiment, classification.urgency, replyCount)
+      .run();
+  }
+
+  // Get a thread's sentiment trajectory, oldest first
+  async getThreadTrajectory(rootId: string): Promise<any[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT sentiment, urgency, reply_count, recorded_at
+         FROM thread_sentiment
+         WHERE thread_id = ?
+         ORDER BY id ASC`
+      )
+      .bind(rootId)
+      .all();
+
+    return result.results;
+  }
+
+  // Get the classification for a feedback item
+  async getClassification(feedbackId: string): Promise<any | null> {
+    return await this.db
+      .prepare(`SELECT * FROM classifications WHERE feedback_id = ?`)
+      .bind(feedbackId)
+      .first();
+  }
+
+  // Get what was redacted from a feedback item at ingest (types and placeholders, never values)
+  async getRedactionReport(feedbackId: string): Promise<RedactionReport | null> {
+    const row = await this.db
+      .prepare(
+        `SELECT r.feedback_id, r.redacted_count, r.entries, r.redacted_at,
+                o.feedback_id IS NOT NULL AS has_original
+         FROM redaction_reports r
+         LEFT JOIN feedback_originals o ON o.feedback_id = r.feedback_id
+         WHERE r.feedback_id = ?`
+      )
+      .bind(feedbackId)
+      .first<{ feedback_id: string; redacted_count: number; entries: string; redacted_at: string; has_original: number }>();
+
+    if (!row) return null;
+    return {
+      feedback_id: row.feedback_id,
+      redacted_count: row.redacted_count,
+      entries: JSON.parse(row.entries),
+      has_original: !!row.has_original,
+      redacted_at: row.redacted_at,
+    };
+  }
+
+  // Get the unredacted original of a feedback item (only stored when store_original is on)
+  async getFeedbackOriginal(
+    feedbackId: string
+  ): Promise<{ title: string; content: string; author: string | null; raw_metadata: string | null; stored_at: string } | null> {
+    return await this.db
+      .prepare(`SELECT title, content, author, raw_metadata, stored_at FROM feedback_originals WHERE feedback_id = ?`)
+      .bind(feedbackId)
+      .first();
+  }
+
+  // Get stored feedback that carries expected labels in raw_metadata (imported labeled datasets), all without a limit
+  async getLabeledFeedback(limit?: number): Promise<Feedback[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT * FROM feedback
+         WHERE parent_id IS NULL
+           AND CASE WHEN json_valid(raw_metadata) THEN json_extract(raw_metadata, '$.classification') END IS NOT NULL
+         ORDER BY id
+         LIMIT ?`
+      )
+      .bind(limit ?? -1)
+      .all<Feedback>();
+
+    return result.results;
+  }
+
+  // Store a classifier evaluation run
+  async storeEvaluationRun(run: {
+    model: string;
+    prompt_version: string;
+    dataset: string;
+    notes?: string;
+    metrics: EvaluationMetrics;
+    results: ExampleResult[];
+  }): Promise<number> {
+    const row = await this.db
+      .prepare(
+        `INSERT INTO evaluation_runs
+         (model, prompt_version, dataset, notes, example_count, failed_count, metrics, results, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         RETURNING id`
+      )
+      .bind(
+        run.model,
+        run.prompt_version,
+        run.dataset,
+        run.notes || null,
+        run.metrics.examples,
+        run.metrics.failed,
+        JSON.stringify(run.metrics),
+        JSON.stringify(run.results),
+        new Date().toISOString()
+      )
+      .first<{ id: number }>();
+
+    return row!.id;
+  }
+
+  // List evaluation runs (metrics only), newest first, optionally for one prompt version
+  async getEvaluationRuns(promptVersion?: string, limit: number = 20): Promise<any[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT id, model, prompt_version, dataset, notes, example_count, failed_count, metrics, status, created_at
+         FROM evaluation_runs
+         WHERE ?1 IS NULL OR prompt_version = ?1
+         ORDER BY id DESC
+         LIMIT ?2`
+      )
+      .bind(promptVersion ?? null, limit)
+      .all<any>();
+
+    return result.results.map((row) => ({ ...row, metrics: JSON.parse(row.metrics) }));
+  }
+
+  // Get one evaluation run including per-example results (remaining: queued examples not classified yet)
+  async getEvaluationRun(id: number): Promise<any | null> {
+    const row = await this.db
+      .prepare(
+        `SELECT r.*, (SELECT COUNT(*) FROM evaluation_run_examples e WHERE e.run_id = r.id AND e.status != 'done') AS remaining
+         FROM evaluation_runs r WHERE r.id = ?`
+      )
+      .bind(id)
+      .first<any>();
+    if (!row) return null;
+    return { ...row, metrics: JSON.parse(row.metrics), results: JSON.parse(row.results) };
+  }
+
+  // Create a running evaluation run whose examples are classified from the queue
+  // `model` is the primary model until the answering models are known
+  async createQueuedEvaluationRun(
+    run: { model: string; prompt_version: string; dataset: string; notes?: string },
+    examples: LabeledExample[]
+  ): Promise<number> {
+    const now = new Date().toISOString();
+    const row = await this.db
+      .prepare(
+        `INSERT INTO evaluation_runs
+         (model, prompt_version, dataset, notes, example_count, metrics, results, created_at, status)
+         VALUES (?, ?, ?, ?, ?, 'null', '[]', ?, 'running')
+         RETURNING id`
+      )
+      .bind(run.model, run.prompt_version, run.dataset, run.notes || null, examples.length, now)
+      .first<{ id: number }>();
+    const id = row!.id;
+
+    const insert = this.db.prepare(
+      `INSERT INTO evaluation_run_examples (run_id, position, example, updated_at) VALUES (?, ?, ?, ?)`
+    );
+    for (let i = 0; i < examples.length; i += 100) {
+      await this.db.batch(
+        examples.slice(i, i + 100).map((example, offset) => insert.bind(id, i + offset, JSON.stringify(example), now))
+      );
+    }
+    return id;
+  }
+
+  // Positions (and example ids) of a run's examples not classified yet, including claims abandoned before `staleBefore`
+  async getPendingEvaluationExamples(runId: number, staleBefore: string): Promise<{ position: number; id: string }[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT position, json_extract(example, '$.feedback.id') AS id FROM evaluation_run_examples
+         WHERE run_id = ? AND (status = 'pending' OR (status = 'processing' AND updated_at < ?))
+         ORDER BY position`
+      )
+      .bind(runId, staleBefore)
+      .all<{ position: number; id: string }>();
+
+    return result.results;
+  }
+
+  // Claim an example for classification like claimJobItem; null when another delivery holds or finished it
+  async claimEvaluationExample(runId: number, position: number, staleBefore: string): Promise<LabeledExample | null> {
+    const row = await this.db
+      .prepare(
+        `UPDATE evaluation_run_examples SET status = 'processing', updated_at = ?4
+         WHERE run_id = ?1 AND position = ?2
+           AND (status = 'pending' OR (status = 'processing' AND updated_at < ?3))
+         RETURNING example`
+      )
+      .bind(runId, position, staleBefore, new Date().toISOString())
+      .first<{ example: string }>();
+
+    return row ? JSON.parse(row.example) : null;
+  }
+
+  // Store an example's result, or release the claim (null) so a retried delivery can take it again
+  async setEvaluationExampleResult(runId: number, position: number, result: ExampleResult | null): Promise<void> {
+    await this.db
+      .prepare(
+        `UPDATE evaluation_run_examples SET status = ?, result = ?, updated_at = ?
+         WHERE run_id = ? AND position = ?`
+      )
+      .bind(result ? "done" : "pending", result ? JSON.stringify(result) : null, new Date().toISOString(), runId, position)
+      .run();
+  }
+
+  // Results of a queued run in dataset order; null while any example is still pending or processing
+  async getEvaluationExampleResults(runId: number): Promise<ExampleResult[] | null> {
+    const result = await this.db
+      .prepare(`SELECT status, result FROM evaluation_run_examples WHERE run_id = ? ORDER BY position`)
+      .bind(runId)
+      .all<{ status: string; result: string | null }>();
+
+    if (result.results.some((row) => row.status !== "done")) return null;
+    return result.results.map((row) => JSON.parse(row.result!));
+  }
+
+  // Store the metrics of a queued run and mark it completed (no-op if already completed)
+  async completeEvaluationRun(
+    runId: number,
+    run: { model: string | null; metrics: EvaluationMetrics; results: ExampleResult[] }
+  ): Promise<void> {
+    await this.db
+      .prepare(
+        `UPDATE evaluation_runs
+         SET status = 'completed', model = COALESCE(?, model), failed_count = ?, metrics = ?, results = ?
+         WHERE id = ? AND status = 'running'`
+      )
+      .bind(run.model, run.metrics.failed, JSON.stringify(run.metrics), JSON.stringify(run.results), runId)
+      .run();
+  }
+
+  // Get the human-overridden fields of a classification (kept when the AI reclassifies)
+  async getClassificationLocks(feedbackId: string): Promise<ClassificationLocks> {
+    const result = await this.db
+      .prepare(`SELECT field, value FROM classification_locks WHERE feedback_id = ?`)
+      .bind(feedbackId)
+      .all<{ field: OverrideField; value: string }>();
+
+    const locks: Record<string, string | number> = {};
+    for (const row of result.results) {
+      locks[row.field] = row.field === "route" ? row.value : Number(row.value);
+    }
+    return locks as ClassificationLocks;
+  }
+
+  // Store an overridden classification, lock the overridden fields and record the audit trail in one batch
+  // The overridden version is appended to classification_history with model "human"
+  async applyClassificationOverride(
+    previous: Classification | null,
+    updated: Classification,
+    override: { changes: ClassificationLocks; reason: string; changed_by: string }
+  ): Promise<ClassificationAuditEntry[]> {
+    const changedAt = new Date().toISOString();
+    const fields = Object.keys(override.changes) as OverrideField[];
+    // A route recomputed from overridden scores is audited too, but only explicit overrides are locked
+    if (!fields.includes("route") && previous?.route !== updated.route) fields.push("route");
+
+    const entries: ClassificationAuditEntry[] = fields.map((field) => ({
+      feedback_id: updated.feedback_id,
+      field,
+      old_value: previous?.[field] == null ? null : String(previous[field]),
+      new_value: String(updated[field] ?? ""),
+      reason: override.reason,
+      changed_by: override.changed_by,
+      changed_at: changedAt,
+    }));
+
+    const lockStmt = this.db.prepare(
+      `INSERT INTO classification_locks (feedback_id, field, value, locked_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(feedback_id, field) DO UPDATE SET value = excluded.value, locked_at = excluded.locked_at`
+    );
+    const auditStmt = this.db.prepare(
+      `INSERT INTO classification_audit (feedback_id, field, old_value, new_value, reason, changed_by, changed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    const reasoning = `Human override: ${override.reason}`;
+    await this.db.batch([
+      this.db
+        .prepare(
+          `INSERT INTO classification_history
+           (feedback_id, urgency, sentiment, impact, actionability, route, reasoning, model, classified_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, 'human', ?)`
+        )
+        .bind(
+          updated.feedback_id,
+          updated.urgency,
+          updated.sentiment,
+          updated.impact,
+          updated.actionability,
+          updated.route || null,
+          reasoning,
+          changedAt
+        ),
+      this.db
+        .prepare(
+          `INSERT INTO classifications (feedback_id, urgency, sentiment, impact, actionability, route, reasoning, history_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, last_insert_rowid())
+           ON CONFLICT(feedback_id) DO UPDATE SET
+             urgency = excluded.urgency, sentiment = excluded.sentiment, impact = excluded.impact,
+             actionability = excluded.actionability, route = excluded.route, history_id = excluded.history_id,
+             reviewed_by = CASE WHEN review_status = 'needs_review' THEN ?8 ELSE reviewed_by END,
+             reviewed_at = CASE WHEN review_status = 'needs_review' THEN ?9 ELSE reviewed_at END,
+             review_status = CASE WHEN review_status = 'needs_review' THEN 'corrected' ELSE review_status END`
+        )
+        .bind(
+          updated.feedback_id,
+          updated.urgency,
+          updated.sentiment,
+          updated.impact,
+          updated.actionability,
+          updated.route || null,
+          reasoning,
+          override.changed_by,
+          changedAt
+        ),
+      ...Object.entries(override.changes).map(([field, value]) =>
+        lockStmt.bind(updated.feedback_id, field, String(value), changedAt)
+      ),
+      ...entries.map((e) =>
+        auditStmt.bind(e.feedback_id, e.field, e.old_value, e.new_value, e.reason, e.changed_by, e.changed_at)
+      ),
+    ]);
+
+    return entries;
+  }
+
+  // Get the override history of a classification, oldest first
+  async getClassificationAudit(feedbackId: string): Promise<ClassificationAuditEntry[]> {
+    const result = await this.db
+      .prepare(`SELECT * FROM classification_audit WHERE feedback_id = ? ORDER BY changed_at, id`)
+      .bind(feedbackId)
+      .all<ClassificationAuditEntry>();
+
+    return result.results;
+  }
+
+  // Get all override audit entries, oldest first
+  async getOverrideAuditLog(limit: number = 1000): Promise<ClassificationAuditEntry[]> {
+    const result = await this.db
+      .prepare(`SELECT * FROM classification_audit ORDER BY changed_at, id LIMIT ?`)
+      .bind(limit)
+      .all<ClassificationAuditEntry>();
+
+    return result.results;
+  }
+
+  // Get feedback with human-overridden classifications (the corrected labels), most recently corrected first
+  async getCorrectedExamples(limit: number = 100): Promise<{ feedback: Feedback; classification: Classification }[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT f.*, c.urgency, c.sentiment, c.impact, c.actionability, c.route
+         FROM feedback f
+         JOIN classifications c ON c.feedback_id = f.id
+         JOIN (SELECT feedback_id, MAX(locked_at) AS locked_at FROM classification_locks GROUP BY feedback_id) l
+           ON l.feedback_id = f.id
+         ORDER BY l.locked_at DESC, f.id
+         LIMIT ?`
+      )
+      .bind(limit)
+      .all<any>();
+
+    return result.results.map(({ urgency, sentiment, impact, actionability, route, ...feedback }) => ({
+      feedback: feedback as Feedback,
+      classification: { feedback_id: feedback.id, urgency, sentiment, impact, actionability, route },
+    }));
+  }
+
+  // Get classifications waiting for human review, least confident first
+  async getReviewQueue(limit: number = 50, language?: string): Promise<any[]> {
+    const result = await this.db
+      .prepare(
+        `SELECT f.id, f.source, f.title, f.created_at, c.urgency, c.sentiment, c.impact, c.actionability,
+                c.route, c.confidence, c.reasoning, c.model, c.prompt_version, c.classified_at
+         FROM classifications c
+         JOIN feedback f ON f.id = c.feedback_id
+         WHERE c.review_status = 'needs_review' AND f.filter_status IS NULL
+           AND (?2 IS NULL OR f.language = ?2)
+         ORDER BY c.confidence ASC, f.created_at DESC
+         LIMIT ?1`
+      )
+      .bind(limit, language ?? null)
+      .all();
+
+    return result.results;
+  }
+
+  // Accept the AI classification of a queued item as-is (false when it was not waiting for review)
+  async acceptReview(feedbackId: string, reviewedBy: string): Promise<boolean> {
+    const result = await this.db
+      .prepare(
+        `UPDATE classifications SET review_status = 'accepted', reviewed_by = ?, reviewed_at = ?
+         WHERE feedback_id = ? AND review_status = 'needs_review'`
+      )
+      .bind(reviewedBy, new Date().toISOString(), feedbackId)
+      .run();
+    return result.meta.changes > 0;
+  }
+
+  // Share of classifications that needed review, per source and per model/prompt version
+  // needs_review counts every low-confidence item; pending those not yet accepted or corrected
+  async getReviewStats(): Promise<{ by_source: any[]; by_model: any[] }> {
+    const counts = `COUNT(*) AS classified,
+                    SUM(c.review_status IS NOT NULL) AS needs_review,
+                    SUM(c.review_status IS 'needs_review') AS pending,
+                    SUM(c.review_status IS 'accepted') AS accepted,
+                    SUM(c.review_status IS 'corrected') AS corrected,
+                    ROUND(1.0 * SUM(c.review_status IS NOT NULL) / COUNT(*), 4) AS review_share`;
+    const [bySource, byModel] = await this.db.batch([
+      this.db.prepare(
+        `SELECT f.source, ${counts}
+         FROM classifications c
+         JOIN feedback f ON f.id = c.feedback_id
+         WHERE f.filter_status IS NULL
+         GROUP BY f.source
+         ORDER BY review_share DESC, f.source`
+      ),
+      this.db.prepare(
+        `SELECT c.model, c.prompt_version, ${counts}
+         FROM classifications c
+         JOIN feedback f ON f.id = c.feedback_id
+         WHERE f.filter_status IS NULL AND c.model IS NOT NULL
+         GROUP BY c.model, c.prompt_version
+         ORDER BY review_share DESC, c.model, c.prompt_version`
+      ),
+    ]);
+
+    return { by_source: bySource.results, by_model: byModel.results };
+  }
+
+  // Record one AI model attempt
+  async logAiCall(record: AiCallRecord): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO ai_usage
+         (task, model, outcome, latency_ms, input_chars, output_chars, input_tokens, output_tokens, error, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        record.task,
+        record.model,
+        record.outcome,
+        record.latency_ms,
+        record.input_chars,
+        record.output_chars,
+        record.input_tokens ?? null,
+        record.output_tokens ?? null,
+        record.error?.slice(0, 500) ?? null,
+        new Date().toISOString()
+      )
+      .run();
+  }
+
+  // AI usage per task, model and day over the last `days` days, optionally for one task
+  async getAiUsage(days: number = 7, task?: string): Promise<any[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+    const result = await this.db
+      .prepare(
+        `SELECT task, model, substr(created_at, 1, 10) AS day,
+                COUNT(*) AS calls,
+                SUM(outcome = 'ok') AS ok,
+                SUM(outcome = 'error') AS errors,
+                SUM(outcome = 'timeout') AS timeouts,
+                ROUND(AVG(latency_ms)) AS avg_latency_ms,
+                MAX(latency_ms) AS max_latency_ms,
+                SUM(input_chars) AS input_chars,
+                SUM(output_chars) AS output_chars,
+                SUM(input_tokens) AS input_tokens,
+                SUM(output_tokens) AS output_tokens
+         FROM ai_usage
+         WHERE created_at >= ?1 AND (?2 IS NULL OR task = ?2)
+         GROUP BY task, model, day
+         ORDER BY day DESC, task, calls DESC`
+      )
+      .bind(since, task ?? null)
+      .all();
+
+    return result.results;
+  }
+
+  // Get the cluster a feedback item belongs to
+  async getClusterMembership(
+    feedbackId: string
+  ): Promise<{ cluster_id: string; representative_id: string } | null> {
+    return await this.db
+      .prepare(
+        `SELECT cm.cluster_id, cl.representative_id
+         FROM cluster_members cm
+         JOIN clusters cl ON cm.cluster_id = cl.id
+         WHERE cm.feedback_id = ?`
+      )
+      .bind(feedbackId)
+      .first();
+  }
+
+  // Start a new cluster with the given feedback as its representative
+  async createCluster(clusterId: string, feedback: Feedback): Promise<void> {
+    await this.db.batch([
+      this.db
+        .prepare(
+          `INSERT INTO clusters (id, representative_id, title, report_count)
+           VALUES (?, ?, ?, 1)`
+        )
+        .bind(clusterId, feedback.id, feedback.title),
+      this.db
+        .prepare(`INSERT INTO cluster_members (feedback_id, cluster_id, similarity) VALUES (?, ?, 1)`)
+        .bind(feedback.id, clusterId),
+    ]);
+  }
+
+  // Add a near-duplicate report to an existing cluster
+  async addToCluster(clusterId: string, feedbackId: string, similarity: number): Promise<void> {
+    await this.db.batch([
+      this.db
+        .prepare(`INSERT INTO cluster_members (feedback_id, cluster_id, similarity) VALUES (?, ?, ?)`)
+        .bind(feedbackId, clusterId, similarity),
+      this.db
+        .prepare(
+          `UPDATE clusters SET report_count = report_count + 1, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`
+        )
+        .bind(clusterId),
+    ]);
+  }
+
+  // Remove a feedback item from its cluster, promoting a new representative or dropping empty clusters
+  async removeFromCluster(feedbackId: string): Promise<void> {
+    const membership = await this.getClusterMembership(feedbackId);
+    if (!membership) return;
+
+    const clusterId = membership.cluster_id;
+    await this.db.batch([
+      this.db.prepare(`DELETE FROM cluster_members WHERE feedback_id = ?`).bind(feedbackId),
+      this.db
+        .prepare(
+          `UPDATE clusters SET report_count = report_count - 1, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`
+        )
+        .bind(clusterId),
+      this.db.prepare(`DELETE FROM clusters WHERE id = ? AND report_count <= 0`).bind(clusterId),
+      this.db
+        .prepare(
+          `UPDATE clusters SET
+             representative_id = (
+               SELECT cm.feedback_id FROM cluster_members cm
+               WHERE cm.cluster_id = clusters.id ORDER BY cm.added_at, cm.feedback_id LIMIT 1),
+             title = (
+               SELECT f.title FROM cluster_members cm JOIN feedback f ON cm.feedback_id = f.id
+               WHERE cm.cluster_id = clusters.id ORDER BY cm.added_at, cm.feedback_id LIMIT 1)
+           WHERE id = ? AND representative_id = ?`
+        )
+        .bind(clusterId, feedbackId),
+    ]);
+  }
+
+  // Get clusters ordered by report count (demand), with their member reports
+  async getClusters(minReports: number = 2, limit: number = 50): Promise<any[]> {
+    const clusters = await this.db
+      .prepare(
+        `SELECT * FROM clusters
+         WHERE report_count >= ?
+         ORDER BY report_count DESC, updated_at DESC
+         LIMIT ?`
+      )
+      .bind(minReports, limit)
+      .all<{ id: string }>();
+
+    if (clusters.results.length === 0) return [];
+
+    const ids = clusters.results.map((c) => c.id);
+    const members = await this.db
+      .prepare(
+        `SELECT cm.cluster_id, cm.similarity, f.id, f.source, f.title, f.author, f.created_at, c.route
+         FROM cluster_members cm
+         JOIN feedback f ON cm.feedback_id = f.id
+         LEFT JOIN classifications c ON f.id = c.feedback_id
+         WHERE cm.cluster_id IN (${ids.map(() => "?").join(", ")})
+         ORDER BY f.created_at`
+      )
+      .bind(...ids)
+      .all<{ cluster_id: string }>();
+
+    return clusters.results.map((cluster) => ({
+      ...cluster,
+      members: members.results
+        .filter((m) => m.cluster_id === cluster.id)
+        .map(({ cluster_id, ...member }) => member),
+    }));
+  }
+
+  // Get feedback from a source whose label list mentions the given label
+  async getFeedbackByLabel(source: string, label: string): Promise<Feedback[]> {
+    const result = await this.db
+      .prepare(`SELECT * FROM feedback WHERE source = ? AND label LIKE ?`)
+      .bind(source, `%${label}%`)
+      .all<Feedback>();
+
+    return result.results;
+  }
+
+  // Update the label list of a feedback item
+  async updateFeedbackLabel(id: string, label: string | null): Promise<void> {
+    await this.db
+      .prepare(`UPDATE feedback SET label = ? WHERE id = ?`)
+      .bind(label, id)
+      .run();
+  }
+}
+
+// SHA-256 of the fields that feed classification
+export async function contentHash(feedback: Pick<Feedback, "title" | "content">): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(`${feedback.title}\n${feedback.content}`)
+  );
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function parseAlert(row: any): Alert {
+  return { ...row, top_items: JSON.parse(row.top_items), deliveries: row.deliveries ? JSON.parse(row.deliveries) : [] };
 }
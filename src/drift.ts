@@ -0,0 +1,110 @@
+// Model drift: how the same items' classifications differ between two versions
+// (a model, prompt version or rules hash)
+
+import { Classification } from "./db";
+import { Dimension, DIMENSIONS } from "./evaluation";
+
+export interface DimensionDrift {
+  mean_delta: number | null; // Average of to - from (positive: the newer version scores higher)
+  mean_abs_delta: number | null;
+  changed: number; // Items whose score differs
+}
+
+export interface ItemDrift {
+  feedback_id: string;
+  from: Pick<Classification, Dimension | "route" | "model" | "prompt_version" | "rules_hash">;
+  to: Pick<Classification, Dimension | "route" | "model" | "prompt_version" | "rules_hash">;
+  deltas: Record<Dimension, number>;
+  route_changed: boolean;
+}
+
+export interface DriftReport {
+  from: string;
+  to: string;
+  from_items: number; // Items classified by each version
+  to_items: number;
+  compared: number; // Items classified by both
+  dimensions: Record<Dimension, DimensionDrift>;
+  routes: {
+    changed: number;
+    transitions: { from: string | null; to: string | null; count: number }[]; // Changed routes only
+  };
+  items: ItemDrift[]; // Largest total score change first
+}
+
+// Compare the latest classification per item of two versions over the items both classified
+export function compareVersions(
+  from: { version: string; classifications: Classification[] },
+  to: { version: string; classifications: Classification[] },
+  limit: number = 50
+): DriftReport {
+  const before = new Map(from.classifications.map((c) => [c.feedback_id, c]));
+  const items: ItemDrift[] = [];
+  for (const after of to.classifications) {
+    const previous = before.get(after.feedback_id);
+    if (!previous) continue;
+
+    items.push({
+      feedback_id: after.feedback_id,
+      from: snapshot(previous),
+      to: snapshot(after),
+      deltas: Object.fromEntries(DIMENSIONS.map((d) => [d, after[d] - previous[d]])) as Record<Dimension, number>,
+      route_changed: (previous.route ?? null) !== (after.route ?? null),
+    });
+  }
+
+  const transitions = new Map<string, { from: string | null; to: string | null; count: number }>();
+  for (const item of items.filter((i) => i.route_changed)) {
+    const key = `${item.from.route}\n${item.to.route}`;
+    const transition = transitions.get(key) ?? { from: item.from.route ?? null, to: item.to.route ?? null, count: 0 };
+    transition.count++;
+    transitions.set(key, transition);
+  }
+
+  const totalChange = (item: ItemDrift) => DIMENSIONS.reduce((sum, d) => sum + Math.abs(item.deltas[d]), 0);
+  return {
+    from: from.version,
+    to: to.version,
+    from_items: from.classifications.length,
+    to_items: to.classifications.length,
+    compared: items.length,
+    dimensions: Object.fromEntries(
+      DIMENSIONS.map((d) => {
+        const deltas = items.map((i) => i.deltas[d]);
+        return [
+          d,
+          {
+            mean_delta: mean(deltas),
+            mean_abs_delta: mean(deltas.map(Math.abs)),
+            changed: deltas.filter((delta) => delta !== 0).length,
+          },
+        ];
+      })
+    ) as Record<Dimension, DimensionDrift>,
+    routes: {
+      changed: items.filter((i) => i.route_changed).length,
+      transitions: [...transitions.values()].sort((a, b) => b.count - a.count),
+    },
+    items: items
+      .filter((i) => i.route_changed || totalChange(i) > 0)
+      .sort((a, b) => totalChange(b) - totalChange(a) || Number(b.route_changed) - Number(a.route_changed))
+      .slice(0, limit),
+  };
+}
+
+function snapshot(c: Classification): ItemDrift["from"] {
+  return {
+    urgency: c.urgency,
+    sentiment: c.sentiment,
+    impact: c.impact,
+    actionability: c.actionability,
+    route: c.route,
+    model: c.model,
+    prompt_version: c.prompt_version,
+    rules_hash: c.rules_hash,
+  };
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 1000) / 1000 : null;
+}
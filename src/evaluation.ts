@@ -0,0 +1,224 @@
+// Evaluation harness: runs the classifier over labeled feedback and scores it against expectations
+
+import { Classification, Feedback } from "./db";
+import { ClassificationRules } from "./kv";
+import { availableRoutes, DEFAULT_ROUTE } from "./routing";
+
+export const DIMENSIONS = ["urgency", "sentiment", "impact", "actionability"] as const;
+
+// Up to this many examples are classified sequentially inside the request; larger sets would
+// outrun the Worker's time limit, so they are queued and classified one message per example
+export const MAX_INLINE_EVALUATION_EXAMPLES = 10;
+
+export type Dimension = (typeof DIMENSIONS)[number];
+export type Scores = Record<Dimension, number>;
+
+export interface LabeledExample {
+  feedback: Feedback;
+  expected: { classification: Scores; routes: string[] };
+}
+
+export interface ExampleResult {
+  id: string;
+  expected: { classification: Scores; routes: string[] };
+  predicted?: { classification: Scores; routes: string[] };
+  model?: string; // Model that answered (a fallback when the primary model failed)
+  error?: string;
+}
+
+export interface DimensionMetrics {
+  accuracy: number | null; // Exact match share
+  within_one: number | null; // Share off by at most one point
+  mae: number | null; // Mean absolute error
+}
+
+export interface RouteMetrics {
+  tp: number;
+  fp: number;
+  fn: number;
+  tn: number;
+  precision: number | null;
+  recall: number | null;
+}
+
+export interface EvaluationMetrics {
+  examples: number;
+  evaluated: number;
+  failed: number;
+  dimensions: Record<Dimension, DimensionMetrics>;
+  routes: Record<string, RouteMetrics>;
+  confusion_matrix: Record<string, Record<string, number>>; // expected route -> predicted route -> count
+}
+
+export interface ExampleClassifier {
+  classifyFeedback(
+    feedback: Feedback,
+    rules: ClassificationRules,
+    replies?: Feedback[],
+    options?: { promptVersion?: string }
+  ): Promise<{ classification: Classification }>;
+}
+
+// Examples from the generated-questions dataset ({hypothetical_issues: [...]}) format
+export function labeledExamplesFromDataset(data: any): LabeledExample[] {
+  if (!data || !Array.isArray(data.hypothetical_issues)) {
+    throw new Error("Labeled dataset must contain a hypothetical_issues array");
+  }
+
+  return data.hypothetical_issues
+    .filter((item: any) => item.classification && item.routing)
+    .map((item: any) => ({
+      feedback: {
+        id: `hypothetical-${item.id}`,
+        source: "github",
+        title: item.title,
+        content: item.comment,
+        label: item.label,
+        created_at: new Date().toISOString(),
+      },
+      expected: {
+        classification: pickScores(item.classification),
+        routes: expectedRoutes(item.routing),
+      },
+    }));
+}
+
+// Example from stored feedback whose raw_metadata carries the expected labels (see the importer)
+export function labeledExampleFromFeedback(feedback: Feedback): LabeledExample | null {
+  try {
+    const metadata = JSON.parse(feedback.raw_metadata || "{}");
+    if (!metadata.classification || !metadata.routing) return null;
+    return {
+      feedback,
+      expected: {
+        classification: pickScores(metadata.classification),
+        routes: expectedRoutes(metadata.routing),
+      },
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Classify every example (sequentially, to stay within AI rate limits) with one prompt version and score the results
+export async function runEvaluation(
+  examples: LabeledExample[],
+  classifier: ExampleClassifier,
+  rules: ClassificationRules,
+  promptVersion?: string
+): Promise<{ metrics: EvaluationMetrics; results: ExampleResult[] }> {
+  const results: ExampleResult[] = [];
+  for (const example of examples) {
+    results.push(await evaluateExample(example, classifier, rules, promptVersion));
+  }
+
+  return { metrics: computeMetrics(results, availableRoutes(rules.routing_rules, rules.default_route)), results };
+}
+
+// Classify one example; a classifier failure is recorded on the result rather than thrown
+export async function evaluateExample(
+  example: LabeledExample,
+  classifier: ExampleClassifier,
+  rules: ClassificationRules,
+  promptVersion?: string
+): Promise<ExampleResult> {
+  const result: ExampleResult = { id: example.feedback.id, expected: example.expected };
+  try {
+    const { classification } = await classifier.classifyFeedback(example.feedback, rules, [], { promptVersion });
+    result.predicted = {
+      classification: pickScores(classification),
+      routes: (classification.route || rules.default_route).split(",").map((r) => r.trim()),
+    };
+    result.model = classification.model;
+  } catch (e) {
+    result.error = e instanceof Error ? e.message : String(e);
+  }
+  return result;
+}
+
+// Models that answered the examples, comma-separated in order of first use; null when none did
+export function answeringModels(results: ExampleResult[]): string | null {
+  const models = new Set(results.flatMap((r) => (r.model ? [r.model] : [])));
+  return models.size > 0 ? [...models].join(",") : null;
+}
+
+// Route metrics cover the configured routes plus any other route an example expects or got
+export function computeMetrics(results: ExampleResult[], configuredRoutes: string[] = []): EvaluationMetrics {
+  const scored = results.filter((r) => r.predicted);
+  const allRoutes = [
+    ...new Set([...configuredRoutes, ...scored.flatMap((r) => [...r.expected.routes, ...r.predicted!.routes])]),
+  ];
+
+  const dimensions = Object.fromEntries(
+    DIMENSIONS.map((dimension) => {
+      const errors = scored.map((r) => Math.abs(r.predicted!.classification[dimension] - r.expected.classification[dimension]));
+      return [
+        dimension,
+        {
+          accuracy: share(errors.filter((e) => e === 0).length, errors.length),
+          within_one: share(errors.filter((e) => e <= 1).length, errors.length),
+          mae: errors.length > 0 ? round(errors.reduce((sum, e) => sum + e, 0) / errors.length) : null,
+        },
+      ];
+    })
+  ) as Record<Dimension, DimensionMetrics>;
+
+  const routes: Record<string, RouteMetrics> = {};
+  for (const route of allRoutes) {
+    const counts = { tp: 0, fp: 0, fn: 0, tn: 0 };
+    for (const r of scored) {
+      const expected = r.expected.routes.includes(route);
+      const predicted = r.predicted!.routes.includes(route);
+      if (expected && predicted) counts.tp++;
+      else if (!expected && predicted) counts.fp++;
+      else if (expected && !predicted) counts.fn++;
+      else counts.tn++;
+    }
+    routes[route] = {
+      ...counts,
+      precision: share(counts.tp, counts.tp + counts.fp),
+      recall: share(counts.tp, counts.tp + counts.fn),
+    };
+  }
+
+  // Items can carry several expected routes; each expected/predicted pair is counted
+  const confusion: Record<string, Record<string, number>> = {};
+  for (const expected of allRoutes) {
+    confusion[expected] = Object.fromEntries(allRoutes.map((predicted) => [predicted, 0]));
+  }
+  for (const r of scored) {
+    for (const expected of r.expected.routes) {
+      for (const predicted of r.predicted!.routes) {
+        confusion[expected][predicted]++;
+      }
+    }
+  }
+
+  return {
+    examples: results.length,
+    evaluated: scored.length,
+    failed: results.length - scored.length,
+    dimensions,
+    routes,
+    confusion_matrix: confusion,
+  };
+}
+
+function pickScores(source: Partial<Record<Dimension, unknown>>): Scores {
+  return Object.fromEntries(DIMENSIONS.map((d) => [d, Number(source[d])])) as Scores;
+}
+
+function expectedRoutes(routing: Record<string, unknown>): string[] {
+  const routes = Object.entries(routing)
+    .filter(([, value]) => value === true)
+    .map(([route]) => route);
+  return routes.length > 0 ? routes : [DEFAULT_ROUTE];
+}
+
+function share(count: number, total: number): number | null {
+  return total > 0 ? round(count / total) : null;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,136 @@
+// GitHub webhook verification and event mapping
+
+import { Feedback } from "./db";
+
+export interface GitHubLabel {
+  name: string;
+}
+
+export interface GitHubIssue {
+  id: number;
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  user: { login: string } | null;
+  labels?: GitHubLabel[];
+  created_at: string;
+  updated_at?: string;
+  pull_request?: unknown;
+}
+
+export interface GitHubComment {
+  id: number;
+  body: string | null;
+  html_url: string;
+  user: { login: string } | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface GitHubWebhookPayload {
+  action?: string;
+  issue?: GitHubIssue;
+  comment?: GitHubComment;
+  label?: GitHubLabel;
+  changes?: { name?: { from: string } };
+  repository?: { full_name: string };
+}
+
+// Actions that carry a meaningful change to the issue or comment text/labels
+const INGESTED_ISSUE_ACTIONS = ["opened", "edited", "reopened", "labeled", "unlabeled"];
+const INGESTED_COMMENT_ACTIONS = ["created", "edited"];
+
+// Verify the X-Hub-Signature-256 header (HMAC-SHA256 of the raw body)
+export async function verifyGitHubSignature(
+  secret: string,
+  body: string,
+  signatureHeader: string | null
+): Promise<boolean> {
+  if (!signatureHeader || !signatureHeader.startsWith("sha256=")) return false;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  const expected = [...new Uint8Array(mac)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+
+  return timingSafeEqual(expected, signatureHeader.slice("sha256=".length).toLowerCase());
+}
+
+// Constant-time string comparison so signature and token checks don't leak timing
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export function formatGitHubLabels(labels: GitHubLabel[] | undefined): string | undefined {
+  if (!labels || labels.length === 0) return undefined;
+  return labels.map((l) => l.name).join(", ");
+}
+
+// Map a GitHub issue (from a webhook or the REST API) to a feedback row
+export function mapGitHubIssue(issue: GitHubIssue, rawMetadata: string): Feedback {
+  return {
+    id: `gh-issue-${issue.id}`,
+    source: "github",
+    title: issue.title,
+    content: issue.body || issue.title,
+    label: formatGitHubLabels(issue.labels),
+    author: issue.user?.login,
+    created_at: issue.created_at,
+    raw_metadata: rawMetadata,
+  };
+}
+
+// Map an `issues` or `issue_comment` event to a feedback row (null if not ingested)
+export function mapGitHubEvent(event: string, payload: GitHubWebhookPayload): Feedback | null {
+  const { action, issue, comment } = payload;
+  if (!issue) return null;
+
+  if (event === "issues" && action && INGESTED_ISSUE_ACTIONS.includes(action)) {
+    return mapGitHubIssue(issue, JSON.stringify(payload));
+  }
+
+  if (event === "issue_comment" && comment && action && INGESTED_COMMENT_ACTIONS.includes(action)) {
+    return {
+      id: `gh-comment-${comment.id}`,
+      source: "github",
+      title: `Re: ${issue.title}`,
+      content: comment.body || "",
+      label: formatGitHubLabels(issue.labels),
+      author: comment.user?.login,
+      created_at: comment.created_at,
+      raw_metadata: JSON.stringify(payload),
+      parent_id: `gh-issue-${issue.id}`,
+    };
+  }
+
+  return null;
+}
+
+// Rewrite a comma-separated label list after a repository label is renamed or deleted
+export function applyLabelChange(
+  labelList: string,
+  oldName: string,
+  newName: string | null
+): string | null {
+  const labels = labelList
+    .split(",")
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0)
+    .flatMap((l) => (l === oldName ? (newName ? [newName] : []) : [l]));
+
+  return labels.length > 0 ? labels.join(", ") : null;
+}
@@ -0,0 +1,462 @@
+// Bulk import of feedback exports (CSV, NDJSON and the labeled JSON datasets)
+
+import { Feedback, FeedbackDB } from "./db";
+import { ConfigStore } from "./kv";
+import { findInvalidParents, formatFieldErrors, validateFeedback } from "./validation";
+
+export type ImportFormat = "csv" | "ndjson" | "pm_training" | "generated_questions";
+
+export interface ImportOptions {
+  format: ImportFormat;
+  source?: string; // Default source for rows that don't carry one
+  mapping?: Record<string, string>; // CSV only: Feedback field -> column header
+  sources: Set<string>; // Known source values (see knownSources)
+  batchSize?: number;
+}
+
+export interface ImportRowError {
+  line: number; // Line number (CSV/NDJSON) or 1-based record index (JSON datasets)
+  error: string;
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  inserted: number;
+  updated: number; // Existing rows whose title or content changed
+  unchanged: number;
+  rejected: number;
+  errors: ImportRowError[];
+  error?: string; // Set when the body is not in the declared format (rows read before it are imported)
+}
+
+type ParsedRow = { line: number; record: Record<string, unknown> } | { line: number; error: string };
+
+const FEEDBACK_FIELDS = ["id", "source", "title", "content", "label", "author", "created_at", "parent_id"] as const;
+const DEFAULT_BATCH_SIZE = 100; // D1 caps bound parameters per query at 100
+const MAX_REPORTED_ERRORS = 500;
+
+// The body as a whole is not in the declared format (as opposed to one bad row)
+class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFormatError";
+  }
+}
+
+// Pick a format from an explicit parameter or the request Content-Type
+export function detectImportFormat(formatParam: string | null, contentType: string | null): ImportFormat | null {
+  if (formatParam) {
+    const formats: ImportFormat[] = ["csv", "ndjson", "pm_training", "generated_questions"];
+    return formats.includes(formatParam as ImportFormat) ? (formatParam as ImportFormat) : null;
+  }
+
+  const type = (contentType || "").split(";")[0].trim().toLowerCase();
+  if (type === "text/csv") return "csv";
+  if (type === "application/x-ndjson" || type === "application/ndjson") return "ndjson";
+  return null;
+}
+
+export async function importFeedback(
+  body: ReadableStream<Uint8Array>,
+  options: ImportOptions,
+  db: FeedbackDB,
+  config: ConfigStore
+): Promise<ImportReport> {
+  const report: ImportReport = {
+    format: options.format,
+    inserted: 0,
+    updated: 0,
+    unchanged: 0,
+    rejected: 0,
+    errors: [],
+  };
+  const batchSize = Math.min(options.batchSize ?? DEFAULT_BATCH_SIZE, DEFAULT_BATCH_SIZE);
+  const importedAt = new Date().toISOString();
+
+  const reject = (line: number, error: string) => {
+    report.rejected++;
+    if (report.errors.length < MAX_REPORTED_ERRORS) {
+      report.errors.push({ line, error });
+    }
+  };
+
+  let batch: { line: number; feedback: Feedback }[] = [];
+  const flush = async () => {
+    if (batch.length === 0) return;
+
+    const invalidParents = await findInvalidParents(batch.map((b) => b.feedback), db);
+    const items: Feedback[] = [];
+    for (const { line, feedback } of batch) {
+      if (feedback.parent_id && invalidParents.has(feedback.parent_id)) {
+        reject(line, `parent_id ${invalidParents.get(feedback.parent_id)}`);
+      } else {
+        items.push(feedback);
+      }
+    }
+
+    const result = await db.ingestFeedbackBatch(items);
+    await config.clearClassificationCaches([...result.changed, ...result.threads_updated]);
+
+    report.inserted += result.inserted.length;
+    report.updated += result.changed.length;
+    report.unchanged += result.unchanged.length;
+    batch = [];
+  };
+
+  try {
+    for await (const row of parseRows(body, options)) {
+      if ("error" in row) {
+        reject(row.line, row.error);
+        continue;
+      }
+
+      const result = await toFeedback(row.record, options, importedAt);
+      if (typeof result === "string") {
+        reject(row.line, result);
+        continue;
+      }
+
+      batch.push({ line: row.line, feedback: result });
+      if (batch.length >= batchSize) {
+        await flush();
+      }
+    }
+  } catch (e) {
+    if (!(e instanceof ImportFormatError)) throw e;
+    report.error = e.message;
+  }
+  await flush();
+
+  return report;
+}
+
+async function* parseRows(body: ReadableStream<Uint8Array>, options: ImportOptions): AsyncGenerator<ParsedRow> {
+  switch (options.format) {
+    case "ndjson":
+      for await (const { line, text } of readLines(body)) {
+        if (text.trim().length === 0) continue;
+        try {
+          const record = JSON.parse(text);
+          if (!record || typeof record !== "object" || Array.isArray(record)) {
+            yield { line, error: "Expected a JSON object" };
+          } else {
+            yield { line, record };
+          }
+        } catch (e) {
+          yield { line, error: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` };
+        }
+      }
+      return;
+
+    case "csv": {
+      let header: string[] | null = null;
+      for await (const { line, fields } of readCsvRecords(body)) {
+        if (!header) {
+          header = fields.map((f) => f.trim());
+          continue;
+        }
+        if (fields.length === 1 && fields[0].trim() === "") continue;
+        if (fields.length !== header.length) {
+          yield { line, error: `Expected ${header.length} columns, found ${fields.length}` };
+          continue;
+        }
+        yield { line, record: mapCsvRecord(header, fields, options.mapping) };
+      }
+      return;
+    }
+
+    case "pm_training":
+      for await (const row of readJsonArrayItems(body, null, "PM training data must be a JSON array")) {
+        if ("error" in row) {
+          yield row;
+          continue;
+        }
+        const item = row.value;
+        yield {
+          line: row.line,
+          record: {
+            id: item.id,
+            source: item.source,
+            title: item.title,
+            content: item.body,
+            label: Array.isArray(item.labels) ? item.labels.join(", ") : item.labels,
+            raw_metadata: { product: item.product, user_impact: item.user_impact },
+          },
+        };
+      }
+      return;
+
+    case "generated_questions":
+      for await (const row of readJsonArrayItems(body, "hypothetical_issues", "Generated questions must contain a hypothetical_issues array")) {
+        if ("error" in row) {
+          yield row;
+          continue;
+        }
+        const item = row.value;
+        yield {
+          line: row.line,
+          record: {
+            id: item.id !== undefined ? `hypothetical-${item.id}` : undefined,
+            title: item.title,
+            content: item.comment,
+            label: item.label,
+            raw_metadata: {
+              classification: item.classification,
+              routing: item.routing,
+              archetype: item.archetype,
+            },
+          },
+        };
+      }
+      return;
+  }
+}
+
+// Build a record from a CSV row; unmapped columns are kept for raw_metadata
+function mapCsvRecord(header: string[], fields: string[], mapping?: Record<string, string>): Record<string, unknown> {
+  const row = Object.fromEntries(header.map((h, i) => [h, fields[i]]));
+  const record: Record<string, unknown> = {};
+  const used = new Set<string>();
+
+  for (const field of FEEDBACK_FIELDS) {
+    const column = mapping?.[field] ?? field;
+    if (column in row) {
+      record[field] = row[column];
+      used.add(column);
+    }
+  }
+
+  const extra = Object.fromEntries(Object.entries(row).filter(([column]) => !used.has(column)));
+  if (Object.keys(extra).length > 0) {
+    record.raw_metadata = extra;
+  }
+
+  return record;
+}
+
+// Convert a parsed record into a validated Feedback row, or return an error message
+async function toFeedback(
+  record: Record<string, unknown>,
+  options: ImportOptions,
+  importedAt: string
+): Promise<Feedback | string> {
+  const present = (value: unknown) => value !== undefined && value !== null && String(value).trim() !== "";
+
+  const source = present(record.source) ? record.source : options.source;
+
+  let id = record.id;
+  if (!present(id) && typeof source === "string" && typeof record.title === "string" && typeof record.content === "string") {
+    id = await stableId(source, record.title, record.content);
+  }
+
+  const candidate = {
+    ...record,
+    id,
+    source,
+    created_at: present(record.created_at) ? record.created_at : importedAt,
+  };
+
+  const result = validateFeedback(candidate, options.sources);
+  return result.ok ? result.value : formatFieldErrors(result.errors);
+}
+
+// Deterministic id for rows without one, so re-importing the same export updates instead of duplicating
+async function stableId(source: string, title: string, content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${source}\n${title}\n${content}`));
+  const hex = [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+  return `${source}-${hex.slice(0, 16)}`;
+}
+
+async function* readText(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    yield value;
+  }
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<{ line: number; text: string }> {
+  let buffer = "";
+  let line = 0;
+  for await (const chunk of readText(body)) {
+    buffer += chunk;
+    const parts = buffer.split("\n");
+    buffer = parts.pop()!;
+    for (const text of parts) {
+      yield { line: ++line, text: text.replace(/\r$/, "") };
+    }
+  }
+  if (buffer.length > 0) {
+    yield { line: ++line, text: buffer.replace(/\r$/, "") };
+  }
+}
+
+// Elements of a JSON array, read from the stream one at a time: the top-level array, or the array
+// under `key` in a top-level object. Each element is parsed on its own (leniently, see
+// parseLenientJson), so a malformed record is a row error; a body without the array throws
+async function* readJsonArrayItems(
+  body: ReadableStream<Uint8Array>,
+  key: string | null,
+  missingMessage: string
+): AsyncGenerator<{ line: number; value: any } | { line: number; error: string }> {
+  const arrayDepth = key === null ? 0 : 1; // Nesting depth the array opens at
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let inArray = false;
+  let started = false;
+  let text = ""; // Current element inside the array; the last string token outside it
+  let currentKey: string | null = null;
+  let line = 0;
+
+  const element = () => {
+    const json = text.trim();
+    text = "";
+    if (json.length === 0) return null;
+    line++;
+    try {
+      const value = parseLenientJson(json);
+      return value && typeof value === "object" && !Array.isArray(value)
+        ? { line, value }
+        : { line, error: "Expected a JSON object" };
+    } catch (e) {
+      return { line, error: `Invalid JSON: ${e instanceof Error ? e.message : String(e)}` };
+    }
+  };
+
+  for await (const chunk of readText(body)) {
+    for (const char of chunk) {
+      if (inString) {
+        text += char;
+        if (escaped) escaped = false;
+        else if (char === "\\") escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (inArray) {
+        if (char === "[" || char === "{") depth++;
+        if (char === "]" || char === "}") depth--;
+        if (depth === arrayDepth || (char === "," && depth === arrayDepth + 1)) {
+          const row = element();
+          if (row) yield row;
+          if (depth === arrayDepth) return;
+          continue;
+        }
+        if (char === '"') inString = true;
+        text += char;
+        continue;
+      }
+
+      if (/\s/.test(char)) continue;
+      if (!started) {
+        started = true;
+        if (char !== (key === null ? "[" : "{")) throw new ImportFormatError(missingMessage);
+      }
+      if (char === '"') {
+        inString = true;
+        text = char;
+      } else if (char === ":" && depth === 1) {
+        try {
+          currentKey = parseLenientJson(text);
+        } catch {
+          currentKey = null;
+        }
+      } else if (char === "," && depth === 1) {
+        currentKey = null;
+      } else if (char === "[" || char === "{") {
+        inArray = char === "[" && depth === arrayDepth && (key === null || currentKey === key);
+        if (inArray) text = "";
+        depth++;
+      } else if (char === "]" || char === "}") {
+        depth--;
+      }
+    }
+  }
+
+  throw new ImportFormatError(inArray ? "Unexpected end of JSON input" : missingMessage);
+}
+
+// RFC 4180 CSV reader: quoted fields may contain commas, escaped quotes and newlines
+async function* readCsvRecords(body: ReadableStream<Uint8Array>): AsyncGenerator<{ line: number; fields: string[] }> {
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let pendingQuote = false; // Saw a quote inside a quoted field; next char decides
+  let line = 1;
+  let recordLine = 1;
+
+  for await (const chunk of readText(body)) {
+    for (const char of chunk) {
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          if (char === "\n") line++;
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field.length === 0) {
+        inQuotes = true;
+      } else if (char === ",") {
+        fields.push(field);
+        field = "";
+      } else if (char === "\n") {
+        fields.push(field.replace(/\r$/, ""));
+        yield { line: recordLine, fields };
+        fields = [];
+        field = "";
+        recordLine = ++line;
+      } else {
+        field += char;
+      }
+    }
+  }
+
+  if (field.length > 0 || fields.length > 0) {
+    fields.push(field.replace(/\r$/, ""));
+    yield { line: recordLine, fields };
+  }
+}
+
+// JSON.parse that tolerates raw line breaks inside strings (hand-edited datasets)
+export function parseLenientJson(text: string): any {
+  let out = "";
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      } else if (char === "\n" || char === "\r") {
+        // A wrapped line: fold the break and its indentation into one space
+        while (i + 1 < text.length && /\s/.test(text[i + 1])) i++;
+        out += " ";
+        continue;
+      }
+    } else if (char === '"') {
+      inString = true;
+    }
+    out += char;
+  }
+
+  return JSON.parse(out);
+}
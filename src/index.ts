@@ -4,14 +4,98 @@
  * using LLMs to extract structured signals and produce actionable PM summaries.
  */
 
-import { FeedbackDB, Feedback } from "./db";
-import { ConfigStore } from "./kv";
+import { Classification, FeedbackDB, Feedback, Signal } from "./db";
+import { AI_TASKS, AlertSettings, ClassificationRules, ClusterSettings, ConfigStore, FilterSettings, ModelSettings, RedactionSettings, rulesHash } from "./kv";
+import { ModelRunner } from "./models";
 import { FeedbackClassifier } from "./ai";
+import { AlertStatus, createNotifiers, runSpikeDetection, validateAlertSettings } from "./alerts";
+import { ClusterAssignment, D1VectorIndex, FeedbackClusterer } from "./clusters";
+import { createConnectors, pollSources, SOURCE_TOKEN_PREFIX } from "./connectors";
+import { compareVersions } from "./drift";
+import {
+  answeringModels,
+  computeMetrics,
+  evaluateExample,
+  labeledExampleFromFeedback,
+  labeledExamplesFromDataset,
+  LabeledExample,
+  MAX_INLINE_EVALUATION_EXAMPLES,
+  runEvaluation,
+} from "./evaluation";
+import { detectImportFormat, importFeedback, parseLenientJson } from "./importer";
+import { normalizeJobFilter, ReclassificationFilter, ReclassificationJob, validateJobFilter } from "./jobs";
+import { toEnglish } from "./language";
+import { applyLocks, OVERRIDE_FIELDS, overridesDataset, validateOverride } from "./overrides";
+import {
+  ClassificationMessage,
+  enqueueClassification,
+  enqueueEvaluation,
+  enqueueJob,
+  enqueueUnqueued,
+  MAX_CLASSIFICATION_ATTEMPTS,
+  retryDelaySeconds,
+  STALE_AFTER_MS,
+} from "./pipeline";
+import { FeedbackPrefilter, FilterStatus, FilterVerdict, validateFilterSettings } from "./prefilter";
+import {
+  BUILTIN_PROMPTS,
+  PROMPT_TASKS,
+  PROMPT_VARIABLES,
+  PromptAssignment,
+  PromptLibrary,
+  PromptTask,
+  PromptTemplate,
+  unknownVariables,
+} from "./prompts";
+import { Redactor } from "./redaction";
+import {
+  availableRoutes,
+  describeCondition,
+  rerouteItems,
+  routeFor,
+  simulateRouting,
+  validateDefaultRoute,
+  validateRoutingRules,
+} from "./routing";
+import { describePolicy, validateScorePolicies } from "./scoring";
+import { StructuredOutputError } from "./structured";
+import {
+  allowedValues,
+  mergeTaxonomyValues,
+  resolveValue,
+  SignalTaxonomy,
+  TAXONOMY_SIGNAL_TYPES,
+  TaxonomySignalType,
+  validateTaxonomy,
+} from "./taxonomy";
+import {
+  bucketInstant,
+  bucketModifiers,
+  bucketStarts,
+  buildSeries,
+  comparisonLag,
+  expandRoutes,
+  parseUtcOffset,
+  TREND_INTERVALS,
+  TrendInterval,
+} from "./trends";
+import { FieldError, findInvalidParents, knownSources, RejectedFeedback, validateFeedback } from "./validation";
+import {
+  GitHubWebhookPayload,
+  applyLabelChange,
+  mapGitHubEvent,
+  mapGitHubIssue,
+  timingSafeEqual,
+  verifyGitHubSignature,
+} from "./github";
 
 export interface Env {
   AI: Ai;
   DB: D1Database;
   KV: KVNamespace;
+  CLASSIFY_QUEUE: Queue<ClassificationMessage>;
+  GITHUB_WEBHOOK_SECRET?: string;
+  PII_ACCESS_TOKEN?: string; // Bearer token for reading unredacted originals
 }
 
 export default {
@@ -20,14 +104,17 @@ export default {
     const path = url.pathname;
 
     // Initialize services
-    const db = new FeedbackDB(env.DB);
     const config = new ConfigStore(env.KV);
-    const classifier = new FeedbackClassifier(env.AI);
+    const redactor = new Redactor(config);
+    const db = new FeedbackDB(env.DB, redactor);
+    const prompts = new PromptLibrary(config, db);
+    const models = new ModelRunner(env.AI, config, db);
+    const classifier = new FeedbackClassifier(env.AI, redactor, prompts, models);
 
     // CORS headers for API access
     const corsHeaders = {
       "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+      "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
       "Access-Control-Allow-Headers": "Content-Type",
     };
 
@@ -40,16 +127,254 @@ export default {
       // ============ FEEDBACK INGESTION ============
 
       // POST /api/ingest - Ingest feedback from any source
+      // Batches are partial-success: valid items are stored, invalid ones returned with their index
       if (path === "/api/ingest" && request.method === "POST") {
-        const body = await request.json() as Feedback | Feedback[];
-        const feedbackItems = Array.isArray(body) ? body : [body];
+        let body: unknown;
+        try {
+          body = await request.json();
+        } catch {
+          return Response.json(
+            { success: false, error: "Request body must be valid JSON" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
 
-        for (const item of feedbackItems) {
-          await db.ingestFeedback(item);
+        const items: unknown[] = Array.isArray(body) ? body : [body];
+        const sources = knownSources(await config.getSourceConfigs());
+
+        const candidates: { index: number; feedback: Feedback }[] = [];
+        const rejected: RejectedFeedback[] = [];
+        items.forEach((item, index) => {
+          const result = validateFeedback(item, sources);
+          if (result.ok) {
+            candidates.push({ index, feedback: result.value });
+          } else {
+            const id = typeof item === "object" && item && "id" in item ? item.id : undefined;
+            rejected.push({ index, id, errors: result.errors });
+          }
+        });
+
+        // Replies must point at a thread root that exists (or arrives in the same batch)
+        const invalidParents = await findInvalidParents(candidates.map((c) => c.feedback), db);
+        const valid: Feedback[] = [];
+        for (const { index, feedback } of candidates) {
+          if (feedback.parent_id && invalidParents.has(feedback.parent_id)) {
+            rejected.push({
+              index,
+              id: feedback.id,
+              errors: [{ field: "parent_id", message: invalidParents.get(feedback.parent_id)! }],
+            });
+          } else {
+            valid.push(feedback);
+          }
+        }
+        rejected.sort((a, b) => a.index - b.index);
+
+        const result = await db.ingestFeedbackBatch(valid);
+        await config.clearClassificationCaches([...result.changed, ...result.threads_updated]);
+        // The batch is stored either way; items the queue did not take are picked up by the
+        // scheduled sweep of unqueued feedback
+        let queued: string[] = [];
+        try {
+          queued = await enqueueClassification(env.CLASSIFY_QUEUE, db, [
+            ...result.inserted,
+            ...result.changed,
+            ...result.threads_updated,
+          ]);
+        } catch (e) {
+          console.error("Failed to queue ingested feedback:", e);
         }
 
         return Response.json(
-          { success: true, ingested: feedbackItems.length },
+          {
+            success: rejected.length === 0,
+            ingested: valid.length,
+            inserted: result.inserted.length,
+            updated: result.changed.length,
+            unchanged: result.unchanged.length,
+            queued: queued.length,
+            rejected,
+          },
+          { status: valid.length === 0 && rejected.length > 0 ? 400 : 200, headers: corsHeaders }
+        );
+      }
+
+      // POST /api/import - Bulk import CSV, NDJSON or the labeled JSON datasets
+      // ?format=csv|ndjson|pm_training|generated_questions (csv/ndjson also inferred from Content-Type)
+      // ?source= default source, ?mapping= CSV column mapping as JSON ({"title":"Subject",...})
+      if (path === "/api/import" && request.method === "POST") {
+        const format = detectImportFormat(
+          url.searchParams.get("format"),
+          request.headers.get("Content-Type")
+        );
+        if (!format) {
+          return Response.json(
+            { error: "Unknown import format. Use ?format=csv|ndjson|pm_training|generated_questions" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        if (!request.body) {
+          return Response.json(
+            { error: "Request body is empty" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+
+        let mapping: Record<string, string> | undefined;
+        const mappingParam = url.searchParams.get("mapping");
+        if (mappingParam) {
+          try {
+            mapping = JSON.parse(mappingParam);
+          } catch {
+            return Response.json(
+              { error: "mapping must be a JSON object of field -> column" },
+              { status: 400, headers: corsHeaders }
+            );
+          }
+        }
+
+        const report = await importFeedback(
+          request.body,
+          {
+            format,
+            source: url.searchParams.get("source") || (format === "generated_questions" ? "github" : undefined),
+            mapping,
+            sources: knownSources(await config.getSourceConfigs()),
+          },
+          db,
+          config
+        );
+        // Imports can be large: new items are picked up by the unqueued sweep
+        ctx.waitUntil(enqueueUnqueued(env.CLASSIFY_QUEUE, db));
+
+        // A body not in the declared format (e.g. malformed JSON) reports the rows read before it
+        if (report.error) {
+          return Response.json({ success: false, ...report }, { status: 400, headers: corsHeaders });
+        }
+        return Response.json({ success: true, ...report }, { headers: corsHeaders });
+      }
+
+      // POST /api/webhooks/github - Receive GitHub issue/comment/label events
+      if (path === "/api/webhooks/github" && request.method === "POST") {
+        if (!env.GITHUB_WEBHOOK_SECRET) {
+          return Response.json(
+            { error: "GitHub webhook secret is not configured" },
+            { status: 500, headers: corsHeaders }
+          );
+        }
+
+        const rawBody = await request.text();
+        const valid = await verifyGitHubSignature(
+          env.GITHUB_WEBHOOK_SECRET,
+          rawBody,
+          request.headers.get("X-Hub-Signature-256")
+        );
+        if (!valid) {
+          return Response.json(
+            { error: "Invalid signature" },
+            { status: 401, headers: corsHeaders }
+          );
+        }
+
+        const event = request.headers.get("X-GitHub-Event") || "";
+        let payload: GitHubWebhookPayload;
+        try {
+          payload = JSON.parse(rawBody);
+        } catch {
+          return Response.json(
+            { success: false, error: "Request body must be valid JSON" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+
+        if (event === "ping") {
+          return Response.json({ success: true, message: "pong" }, { headers: corsHeaders });
+        }
+
+        // Repository label renamed or deleted: rewrite label lists on stored issues
+        if (event === "label") {
+          const oldName = payload.changes?.name?.from ?? payload.label?.name;
+          const newName = payload.action === "deleted" ? null : payload.label?.name ?? null;
+          if (!oldName || (payload.action !== "edited" && payload.action !== "deleted")) {
+            return Response.json(
+              { success: true, ignored: true, event, action: payload.action },
+              { status: 202, headers: corsHeaders }
+            );
+          }
+
+          const affected = await db.getFeedbackByLabel("github", oldName);
+          let updated = 0;
+          for (const item of affected) {
+            const label = applyLabelChange(item.label || "", oldName, newName);
+            if (label !== (item.label || null)) {
+              await db.updateFeedbackLabel(item.id, label);
+              updated++;
+            }
+          }
+
+          return Response.json({ success: true, event, updated }, { headers: corsHeaders });
+        }
+
+        const feedback = mapGitHubEvent(event, payload);
+        if (!feedback) {
+          return Response.json(
+            { success: true, ignored: true, event, action: payload.action },
+            { status: 202, headers: corsHeaders }
+          );
+        }
+
+        // Comments can arrive before their issue was ever ingested; store the issue as thread root
+        const mapped = [feedback];
+        if (feedback.parent_id && payload.issue) {
+          const existing = await db.getExistingIds([feedback.parent_id]);
+          if (!existing.has(feedback.parent_id)) {
+            mapped.unshift(mapGitHubIssue(payload.issue, JSON.stringify({ issue: payload.issue, repository: payload.repository })));
+          }
+        }
+
+        // Mapped items get the same checks as /api/ingest (an empty comment body is rejected);
+        // a reply is only stored together with its root
+        const sources = knownSources(await config.getSourceConfigs());
+        const items: Feedback[] = [];
+        const rejected: RejectedFeedback[] = [];
+        mapped.forEach((item, index) => {
+          const result = validateFeedback(item, sources);
+          if (result.ok) {
+            items.push(result.value);
+          } else {
+            rejected.push({ index, id: item.id, errors: result.errors });
+          }
+        });
+        if (rejected.length > 0) {
+          return Response.json({ success: false, event, rejected }, { status: 400, headers: corsHeaders });
+        }
+
+        const result = await db.ingestFeedbackBatch(items);
+        await config.clearClassificationCaches([...result.changed, ...result.threads_updated]);
+
+        // Queue new or edited threads for classification so the dashboard picks them up; the
+        // item is stored either way and a failed send is left to the scheduled sweep
+        const rootId = feedback.parent_id ?? feedback.id;
+        const touched = [...result.inserted, ...result.changed, ...result.threads_updated];
+        let queued = false;
+        if (touched.includes(rootId)) {
+          try {
+            queued = (await enqueueClassification(env.CLASSIFY_QUEUE, db, [rootId])).length > 0;
+          } catch (e) {
+            console.error(`Failed to queue ${rootId}:`, e);
+          }
+        }
+
+        return Response.json(
+          {
+            success: true,
+            event,
+            id: feedback.id,
+            thread_id: rootId,
+            created: result.inserted.includes(feedback.id),
+            changed: result.changed.includes(feedback.id),
+            queued,
+          },
           { headers: corsHeaders }
         );
       }
@@ -57,21 +382,23 @@ export default {
       // ============ CLASSIFICATION ============
 
       // POST /api/classify - Classify pending feedback using AI
-      // Use ?force=true to reclassify all items (clears existing classifications)
+      // Use ?force=true to reclassify all items as a background job (see POST /api/jobs/reclassify)
       if (path === "/api/classify" && request.method === "POST") {
         const rules = await config.getClassificationRules();
         const limitParam = url.searchParams.get("limit");
-        const forceParam = url.searchParams.get("force");
         const limit = limitParam ? parseInt(limitParam) : 10;
-        const force = forceParam === "true";
 
-        // If force=true, clear all classifications and reclassify from scratch
-        if (force) {
-          await env.DB.prepare("DELETE FROM classifications").run();
-          await env.DB.prepare("DELETE FROM signals").run();
+        // Current classifications stay in place until each item's new result is stored
+        if (url.searchParams.get("force") === "true") {
+          const job = await startReclassificationJob(env, db, {}, request.headers.get("Cf-Access-Authenticated-User-Email"));
+          return Response.json({ success: true, forced: true, job }, { status: 202, headers: corsHeaders });
+        }
+        // Failed items stay out of the queue until retried (or their content changes)
+        if (url.searchParams.get("retry_failed") === "true") {
+          await db.clearClassificationFailures();
         }
 
-        const unclassified = await db.getUnclassifiedFeedback(force ? 100 : limit);
+        const unclassified = await db.getUnclassifiedFeedback(limit);
 
         if (unclassified.length === 0) {
           return Response.json(
@@ -80,78 +407,117 @@ export default {
           );
         }
 
+        const clusterer = await createClusterer(env, db, config, classifier);
+        const prefilter = await createPrefilter(config, classifier);
         const results = [];
         for (const feedback of unclassified) {
-          // Skip cache if force reclassifying
-          if (!force) {
-            const cached = await config.getCachedClassification(feedback.id);
-            if (cached) {
-              results.push({ id: feedback.id, cached: true, ...cached });
-              continue;
-            }
-          } else {
-            // Clear cache for this item
-            await config.clearClassificationCache(feedback.id);
+          const cached = await config.getCachedClassification(feedback.id);
+          if (cached) {
+            results.push({ id: feedback.id, cached: true, ...cached });
+            continue;
           }
 
-          // Classify with AI
-          const { classification, signals } = await classifier.classifyFeedback(
+          // Classify with AI and store results
+          const { classification, cluster, filtered, failed } = await classifyAndStore(
             feedback,
-            rules
+            rules,
+            db,
+            config,
+            classifier,
+            clusterer,
+            prefilter
           );
 
-          // Store results
-          await db.storeClassification(classification);
-          if (signals.length > 0) {
-            await db.storeSignals(signals);
-          }
-
-          // Cache result
-          await config.cacheClassification(feedback.id, classification);
-
-          results.push({ id: feedback.id, cached: false, ...classification });
+          results.push(
+            filtered
+              ? { id: feedback.id, cached: false, filtered }
+              : failed
+                ? { id: feedback.id, cached: false, status: "classification_failed", ...failed }
+                : { id: feedback.id, cached: false, ...classification, cluster }
+          );
         }
 
         return Response.json(
-          { success: true, classified: results, forced: force },
+          { success: true, classified: results, forced: false },
           { headers: corsHeaders }
         );
       }
 
-      // POST /api/fix-routes - Fix routing for existing classifications (no AI reclassification)
-      if (path === "/api/fix-routes" && request.method === "POST") {
-        const rules = await config.getClassificationRules();
+      // GET /api/classification/failures - Items whose model output stayed invalid after repair retries
+      // Retry with POST /api/classify?retry_failed=true (editing the feedback also retries it)
+      if (path === "/api/classification/failures" && request.method === "GET") {
+        const limit = parseInt(url.searchParams.get("limit") || "50");
+        const failures = await db.getClassificationFailures(limit);
+        return Response.json({ failures }, { headers: corsHeaders });
+      }
 
-        // Get all classified feedback
-        const allFeedback = await db.getAllFeedbackWithClassifications(500);
-        const classified = allFeedback.filter((f: any) => f.urgency !== null);
+      // ============ CLASSIFICATION PIPELINE ============
 
-        let fixed = 0;
-        for (const item of classified) {
-          // Simplified routing based on PRIMARY characteristic
-          let newRoute = "standard_backlog";
+      // GET /api/queue - Item counts per pipeline status
+      if (path === "/api/queue" && request.method === "GET") {
+        const counts = await db.getClassificationQueueCounts();
+        return Response.json({ counts }, { headers: corsHeaders });
+      }
 
-          // 1. Critical: Urgency >= 4
-          if (item.urgency >= 4) {
-            newRoute = "immediate_engineering";
-          }
-          // 2. Trust risk: Negative sentiment
-          else if (item.sentiment <= -1) {
-            newRoute = "trust_risk";
-          }
-          // 3. Quick win: High actionability + not urgent
-          else if (item.actionability >= 4 && item.urgency <= 3) {
-            newRoute = "quick_win_backlog";
-          }
+      // GET /api/queue/dead-letters - Items that kept failing, most recent first
+      if (path === "/api/queue/dead-letters" && request.method === "GET") {
+        const limit = parseInt(url.searchParams.get("limit") || "50");
+        const deadLetters = await db.getDeadLetters(limit);
+        return Response.json({ dead_letters: deadLetters }, { headers: corsHeaders });
+      }
 
-          // Update route if different
-          if (item.route !== newRoute) {
-            await env.DB.prepare(
-              "UPDATE classifications SET route = ? WHERE feedback_id = ?"
-            ).bind(newRoute, item.id).run();
-            fixed++;
-          }
+      // POST /api/queue/dead-letters/replay - Queue dead-lettered items again
+      // Body: {ids?: string[]} (all dead letters when omitted)
+      if (path === "/api/queue/dead-letters/replay" && request.method === "POST") {
+        let body: { ids?: unknown } = {};
+        try {
+          const text = await request.text();
+          if (text.trim()) body = JSON.parse(text);
+        } catch {
+          return Response.json(
+            { success: false, error: "Request body must be valid JSON" },
+            { status: 400, headers: corsHeaders }
+          );
         }
+        if (body.ids !== undefined && (!Array.isArray(body.ids) || body.ids.some((id) => typeof id !== "string"))) {
+          return Response.json(
+            { success: false, errors: [{ field: "ids", message: "must be an array of feedback ids" }] },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+
+        const ids = await db.getDeadLetterIds(body.ids as string[] | undefined);
+        // Items dead-lettered for invalid model output get a fresh attempt too
+        await db.clearClassificationFailures(ids);
+        const replayed = await enqueueClassification(env.CLASSIFY_QUEUE, db, ids);
+        return Response.json({ success: true, replayed }, { headers: corsHeaders });
+      }
+
+      // GET /api/feedback/:id/status - Classification pipeline status of one item
+      const statusMatch = path.match(/^\/api\/feedback\/([^/]+)\/status$/);
+      if (statusMatch && request.method === "GET") {
+        const id = decodeURIComponent(statusMatch[1]);
+        const feedback = await db.getFeedbackById(id);
+        if (!feedback) {
+          return Response.json({ error: "Feedback not found" }, { status: 404, headers: corsHeaders });
+        }
+        // Replies are queued as part of their thread
+        const rootId = feedback.parent_id ?? id;
+        const status = await db.getClassificationStatus(rootId);
+        return Response.json(status ?? { feedback_id: rootId, status: null }, { headers: corsHeaders });
+      }
+
+      // POST /api/fix-routes - Fix routing for existing classifications (no AI reclassification)
+      if (path === "/api/fix-routes" && request.method === "POST") {
+        const rules = await config.getClassificationRules();
+
+        // Human-overridden routes are left alone
+        const classified = await db.getRoutableClassifications();
+        const updates = rerouteItems(classified, rules.routing_rules, rules.default_route)
+          .filter((r) => r.from !== r.to)
+          .map((r) => ({ feedback_id: r.item.feedback_id, route: r.to }));
+        await db.updateRoutes(updates, await rulesHash(rules));
+        const fixed = updates.length;
 
         return Response.json(
           { success: true, message: `Fixed routes for ${fixed} items`, total: classified.length },
@@ -159,39 +525,496 @@ export default {
         );
       }
 
-      // GET /api/feedback - Get all feedback with classifications
+      // GET /api/feedback - Get all feedback with classifications (?language= filters by ISO 639-1 code)
       if (path === "/api/feedback" && request.method === "GET") {
         const limitParam = url.searchParams.get("limit");
         const limit = limitParam ? parseInt(limitParam) : 100;
-        const feedback = await db.getAllFeedbackWithClassifications(limit);
+        const language = url.searchParams.get("language") || undefined;
+        const feedback = await db.getAllFeedbackWithClassifications(limit, language);
 
         return Response.json({ feedback }, { headers: corsHeaders });
       }
 
+      // GET /api/feedback/:id/thread - Thread root, replies, classification and sentiment trajectory
+      const threadMatch = path.match(/^\/api\/feedback\/([^/]+)\/thread$/);
+      if (threadMatch && request.method === "GET") {
+        const requested = await db.getFeedbackById(decodeURIComponent(threadMatch[1]));
+        if (!requested) {
+          return Response.json(
+            { error: "Feedback not found" },
+            { status: 404, headers: corsHeaders }
+          );
+        }
+
+        const root = requested.parent_id ? await db.getFeedbackById(requested.parent_id) : requested;
+        if (!root) {
+          return Response.json(
+            { error: "Thread root not found" },
+            { status: 404, headers: corsHeaders }
+          );
+        }
+
+        const [replies, classification, trajectory] = await Promise.all([
+          db.getThreadReplies(root.id),
+          db.getClassification(root.id),
+          db.getThreadTrajectory(root.id),
+        ]);
+
+        return Response.json(
+          { thread_id: root.id, root, replies, classification, sentiment_trajectory: trajectory },
+          { headers: corsHeaders }
+        );
+      }
+
+      // GET /api/feedback/:id/redactions - What PII was replaced at ingest (types and placeholders only)
+      const redactionsMatch = path.match(/^\/api\/feedback\/([^/]+)\/redactions$/);
+      if (redactionsMatch && request.method === "GET") {
+        const report = await db.getRedactionReport(decodeURIComponent(redactionsMatch[1]));
+        if (!report) {
+          return Response.json(
+            { error: "No redaction report for this feedback" },
+            { status: 404, headers: corsHeaders }
+          );
+        }
+        return Response.json(report, { headers: corsHeaders });
+      }
+
+      // GET /api/feedback/:id/original - Unredacted original (requires Authorization: Bearer PII_ACCESS_TOKEN)
+      const originalMatch = path.match(/^\/api\/feedback\/([^/]+)\/original$/);
+      if (originalMatch && request.method === "GET") {
+        const authorization = request.headers.get("Authorization") ?? "";
+        if (!env.PII_ACCESS_TOKEN || !timingSafeEqual(authorization, `Bearer ${env.PII_ACCESS_TOKEN}`)) {
+          return Response.json(
+            { error: "Access to unredacted feedback requires PII_ACCESS_TOKEN" },
+            { status: 403, headers: corsHeaders }
+          );
+        }
+
+        const original = await db.getFeedbackOriginal(decodeURIComponent(originalMatch[1]));
+        if (!original) {
+          return Response.json(
+            { error: "No original stored for this feedback" },
+            { status: 404, headers: corsHeaders }
+          );
+        }
+        return Response.json(original, { headers: corsHeaders });
+      }
+
+      // GET /api/filtered - Feedback excluded by the spam/off-topic pre-filter, for review
+      // ?status=spam|off_topic, ?limit= (default 50)
+      if (path === "/api/filtered" && request.method === "GET") {
+        const status = url.searchParams.get("status");
+        if (status && status !== "spam" && status !== "off_topic") {
+          return Response.json(
+            { error: "status must be spam or off_topic" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        const limit = parseInt(url.searchParams.get("limit") || "50");
+        const feedback = await db.getFilteredFeedback((status as FilterStatus) || undefined, limit);
+        return Response.json({ feedback }, { headers: corsHeaders });
+      }
+
+      // POST /api/feedback/:id/restore - Restore a pre-filter false positive and classify it
+      const restoreMatch = path.match(/^\/api\/feedback\/([^/]+)\/restore$/);
+      if (restoreMatch && request.method === "POST") {
+        const id = decodeURIComponent(restoreMatch[1]);
+        if (!(await db.restoreFilteredFeedback(id))) {
+          return Response.json(
+            { error: "Feedback not found or not filtered" },
+            { status: 404, headers: corsHeaders }
+          );
+        }
+
+        await config.clearClassificationCache(id);
+        const queued = await enqueueClassification(env.CLASSIFY_QUEUE, db, [id]);
+        return Response.json({ success: true, id, queued_for_classification: queued.includes(id) }, { headers: corsHeaders });
+      }
+
+      // ============ RECLASSIFICATION JOBS ============
+
+      // POST /api/jobs/reclassify - Reclassify the items a filter selects, in the background
+      // Body: {filter?: {source, since, until, route, model, prompt_version}, created_by?}
+      if (path === "/api/jobs/reclassify" && request.method === "POST") {
+        let body: { filter?: unknown; created_by?: unknown } = {};
+        try {
+          const text = await request.text();
+          if (text.trim()) body = JSON.parse(text);
+        } catch {
+          return Response.json(
+            { success: false, error: "Request body must be valid JSON" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        const errors = validateJobFilter(body.filter);
+        if (errors.length > 0) {
+          return Response.json({ success: false, errors }, { status: 400, headers: corsHeaders });
+        }
+
+        const createdBy =
+          request.headers.get("Cf-Access-Authenticated-User-Email") ||
+          (typeof body.created_by === "string" && body.created_by.trim() ? body.created_by.trim() : null);
+        const filter = normalizeJobFilter((body.filter ?? {}) as ReclassificationFilter);
+        const job = await startReclassificationJob(env, db, filter, createdBy);
+        return Response.json({ success: true, job }, { status: 202, headers: corsHeaders });
+      }
+
+      // GET /api/jobs - Recent reclassification jobs with progress
+      if (path === "/api/jobs" && request.method === "GET") {
+        const limit = parseInt(url.searchParams.get("limit") || "20");
+        return Response.json({ jobs: await db.listReclassificationJobs(limit) }, { headers: corsHeaders });
+      }
+
+      // GET /api/jobs/:id - Job progress: processed, failed and remaining items (failed items listed)
+      const jobMatch = path.match(/^\/api\/jobs\/([^/]+)$/);
+      if (jobMatch && request.method === "GET") {
+        const id = decodeURIComponent(jobMatch[1]);
+        const job = await db.getReclassificationJob(id);
+        if (!job) {
+          return Response.json({ error: "Job not found" }, { status: 404, headers: corsHeaders });
+        }
+        return Response.json({ ...job, failures: await db.getFailedJobItems(id) }, { headers: corsHeaders });
+      }
+
+      // POST /api/jobs/:id/cancel - Stop a running job; processed items keep their new results
+      // POST /api/jobs/:id/resume - Queue the job's remaining items again (after cancelling or a stall)
+      const jobActionMatch = path.match(/^\/api\/jobs\/([^/]+)\/(cancel|resume)$/);
+      if (jobActionMatch && request.method === "POST") {
+        const id = decodeURIComponent(jobActionMatch[1]);
+        const action = jobActionMatch[2];
+        const job = await db.getReclassificationJob(id);
+        if (!job) {
+          return Response.json({ error: "Job not found" }, { status: 404, headers: corsHeaders });
+        }
+        if (job.status === "completed" || (action === "cancel" && job.status === "cancelled")) {
+          return Response.json({ error: `Job is already ${job.status}` }, { status: 409, headers: corsHeaders });
+        }
+
+        if (action === "cancel") {
+          await db.setReclassificationJobStatus(id, "cancelled");
+          return Response.json({ success: true, job: await db.getReclassificationJob(id) }, { headers: corsHeaders });
+        }
+        await db.setReclassificationJobStatus(id, "running");
+        const queued = await enqueueJob(env.CLASSIFY_QUEUE, db, id);
+        return Response.json({ success: true, queued, job: await db.getReclassificationJob(id) }, { headers: corsHeaders });
+      }
+
+      // ============ HUMAN OVERRIDES ============
+
+      // PATCH /api/feedback/:id/classification - Override scores and/or route with a reason
+      // Body: {urgency?, sentiment?, impact?, actionability?, route?, reason, changed_by?}
+      // Who: Cf-Access-Authenticated-User-Email (Cloudflare Access), else body changed_by
+      // Overridden fields are locked: AI reclassification keeps them; items waiting for review count as corrected
+      const overrideMatch = path.match(/^\/api\/feedback\/([^/]+)\/classification$/);
+      if (overrideMatch && request.method === "PATCH") {
+        const id = decodeURIComponent(overrideMatch[1]);
+        let body: unknown;
+        try {
+          body = await request.json();
+        } catch {
+          return Response.json(
+            { success: false, error: "Request body must be valid JSON" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+
+        const rules = await config.getClassificationRules();
+        const result = validateOverride(body, availableRoutes(rules.routing_rules, rules.default_route));
+        if (!result.ok) {
+          return Response.json({ success: false, errors: result.errors }, { status: 400, headers: corsHeaders });
+        }
+        const changedBy = request.headers.get("Cf-Access-Authenticated-User-Email") || result.value.changed_by;
+        if (!changedBy) {
+          return Response.json(
+            { success: false, errors: [{ field: "changed_by", message: "is required without Cloudflare Access" }] },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+
+        const feedback = await db.getFeedbackById(id);
+        if (!feedback) {
+          return Response.json({ error: "Feedback not found" }, { status: 404, headers: corsHeaders });
+        }
+        if (feedback.parent_id) {
+          return Response.json(
+            { error: "Replies are classified as part of their thread; override the root instead" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+
+        const previous = (await db.getClassification(id)) as Classification | null;
+        const { changes } = result.value;
+        if (!previous && OVERRIDE_FIELDS.some((f) => f !== "route" && changes[f] === undefined)) {
+          return Response.json(
+            { success: false, error: "Unclassified feedback needs all four scores to be overridden" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+
+        // Earlier overrides stay locked (a locked route is not recomputed from new scores)
+        const locks = { ...(await db.getClassificationLocks(id)), ...changes };
+        const signals = (await db.getSignalsByFeedback([id])).get(id);
+        const updated = applyLocks(
+          { ...(previous ?? ({ feedback_id: id } as Classification)), feedback_id: id },
+          locks,
+          (scores) => routeFor(rules.routing_rules, { ...scores, signals }, rules.default_route)
+        );
+        const audit = await db.applyClassificationOverride(previous, updated, { ...result.value, changed_by: changedBy });
+        await config.clearClassificationCache(id);
+
+        return Response.json(
+          { success: true, classification: await db.getClassification(id), locks: await db.getClassificationLocks(id), audit },
+          { headers: corsHeaders }
+        );
+      }
+
+      // GET /api/feedback/:id/classification/history - Every classification version, override audit trail
+      // and currently locked fields
+      const historyMatch = path.match(/^\/api\/feedback\/([^/]+)\/classification\/history$/);
+      if (historyMatch && request.method === "GET") {
+        const id = decodeURIComponent(historyMatch[1]);
+        const [classification, versions, locks, audit] = await Promise.all([
+          db.getClassification(id),
+          db.getClassificationVersions(id),
+          db.getClassificationLocks(id),
+          db.getClassificationAudit(id),
+        ]);
+        return Response.json({ feedback_id: id, classification, versions, locks, audit }, { headers: corsHeaders });
+      }
+
+      // GET /api/overrides/export - Human corrections as training/evaluation data
+      // ?format=dataset (default): generated-questions JSON accepted by POST /api/evaluate
+      // ?format=audit: NDJSON audit trail, one override per line
+      if (path === "/api/overrides/export" && request.method === "GET") {
+        const format = url.searchParams.get("format") || "dataset";
+        const limit = parseInt(url.searchParams.get("limit") || "1000");
+
+        if (format === "audit") {
+          const entries = await db.getOverrideAuditLog(limit);
+          return new Response(entries.map((e) => JSON.stringify(e)).join("\n"), {
+            headers: { ...corsHeaders, "Content-Type": "application/x-ndjson" },
+          });
+        }
+        if (format !== "dataset") {
+          return Response.json({ error: "format must be dataset or audit" }, { status: 400, headers: corsHeaders });
+        }
+
+        const rules = await config.getClassificationRules();
+        return Response.json(
+          overridesDataset(await db.getCorrectedExamples(limit), availableRoutes(rules.routing_rules, rules.default_route)),
+          { headers: corsHeaders }
+        );
+      }
+
+      // ============ REVIEW QUEUE ============
+
+      // GET /api/review - Classifications below the confidence threshold, least confident first
+      // Correct an item with PATCH /api/feedback/:id/classification, or accept it as-is
+      if (path === "/api/review" && request.method === "GET") {
+        const limit = parseInt(url.searchParams.get("limit") || "50");
+        const rules = await config.getClassificationRules();
+        const items = await db.getReviewQueue(limit, url.searchParams.get("language") || undefined);
+        return Response.json({ threshold: rules.review_confidence_threshold, items }, { headers: corsHeaders });
+      }
+
+      // GET /api/review/stats - Share of classifications needing review per source and model version
+      if (path === "/api/review/stats" && request.method === "GET") {
+        const rules = await config.getClassificationRules();
+        const stats = await db.getReviewStats();
+        return Response.json({ threshold: rules.review_confidence_threshold, ...stats }, { headers: corsHeaders });
+      }
+
+      // POST /api/review/:id/accept - Accept the AI classification and clear it from the queue
+      // Who: Cf-Access-Authenticated-User-Email (Cloudflare Access), else body reviewed_by
+      const acceptMatch = path.match(/^\/api\/review\/([^/]+)\/accept$/);
+      if (acceptMatch && request.method === "POST") {
+        const id = decodeURIComponent(acceptMatch[1]);
+        let body: { reviewed_by?: unknown } = {};
+        try {
+          const text = await request.text();
+          if (text.trim()) body = JSON.parse(text);
+        } catch {
+          return Response.json(
+            { success: false, error: "Request body must be valid JSON" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        const reviewedBy =
+          request.headers.get("Cf-Access-Authenticated-User-Email") ||
+          (typeof body.reviewed_by === "string" && body.reviewed_by.trim() ? body.reviewed_by.trim() : null);
+        if (!reviewedBy) {
+          return Response.json(
+            { success: false, errors: [{ field: "reviewed_by", message: "is required without Cloudflare Access" }] },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+
+        if (!(await db.acceptReview(id, reviewedBy))) {
+          return Response.json({ error: "Feedback is not waiting for review" }, { status: 404, headers: corsHeaders });
+        }
+        await config.clearClassificationCache(id);
+        return Response.json({ success: true, classification: await db.getClassification(id) }, { headers: corsHeaders });
+      }
+
+      // GET /api/clusters - Near-duplicate clusters ordered by report count
+      // ?min_reports= (default 2) hides single-report clusters, ?limit= (default 50)
+      if (path === "/api/clusters" && request.method === "GET") {
+        const minReports = parseInt(url.searchParams.get("min_reports") || "2");
+        const limit = parseInt(url.searchParams.get("limit") || "50");
+        const clusters = await db.getClusters(minReports, limit);
+
+        return Response.json({ clusters }, { headers: corsHeaders });
+      }
+
+      // ============ EVALUATION ============
+
+      // POST /api/evaluate - Run the classifier over labeled feedback and store accuracy metrics
+      // Body: a generated-questions dataset ({hypothetical_issues: [...]}); empty body uses
+      // imported labeled feedback. ?limit= caps the examples (default: all). ?notes= labels the run
+      // ?prompt_version= evaluates a specific template (default: the active classification version)
+      // Up to 10 examples run inline; larger runs are queued (202) and followed at GET /api/evaluations/:id
+      if (path === "/api/evaluate" && request.method === "POST") {
+        const limitParam = url.searchParams.get("limit");
+        const limit = limitParam === null ? undefined : Number(limitParam);
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+          return Response.json(
+            { success: false, errors: [{ field: "limit", message: "must be a positive integer" }] },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        const promptVersion = url.searchParams.get("prompt_version") || (await prompts.activeVersion("classification"));
+        if (!(await prompts.get("classification", promptVersion))) {
+          return Response.json(
+            { error: `Unknown classification prompt version "${promptVersion}"` },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        const text = await request.text();
+
+        let examples: LabeledExample[];
+        let dataset: string;
+        if (text.trim().length > 0) {
+          try {
+            examples = labeledExamplesFromDataset(parseLenientJson(text)).slice(0, limit ?? Infinity);
+          } catch (e) {
+            return Response.json(
+              { error: e instanceof Error ? e.message : "Invalid labeled dataset" },
+              { status: 400, headers: corsHeaders }
+            );
+          }
+          dataset = "upload";
+        } else {
+          const stored = await db.getLabeledFeedback(limit);
+          examples = stored.map(labeledExampleFromFeedback).filter((e): e is LabeledExample => e !== null);
+          dataset = "stored";
+        }
+
+        if (examples.length === 0) {
+          return Response.json(
+            { error: "No labeled examples; import a generated_questions dataset or send one in the body" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+
+        const notes = url.searchParams.get("notes") || undefined;
+        if (examples.length > MAX_INLINE_EVALUATION_EXAMPLES) {
+          const model = await models.primaryModel("classification");
+          const id = await db.createQueuedEvaluationRun({ model, prompt_version: promptVersion, dataset, notes }, examples);
+          await enqueueEvaluation(env.CLASSIFY_QUEUE, db, id);
+          return Response.json(
+            { id, status: "running", prompt_version: promptVersion, dataset, examples: examples.length },
+            { status: 202, headers: corsHeaders }
+          );
+        }
+
+        const rules = await config.getClassificationRules();
+        const { metrics, results } = await runEvaluation(examples, classifier, rules, promptVersion);
+        const run = {
+          model: answeringModels(results) ?? (await models.primaryModel("classification")),
+          prompt_version: promptVersion,
+          dataset,
+          notes,
+          metrics,
+          results,
+        };
+        const id = await db.storeEvaluationRun(run);
+
+        return Response.json({ id, ...run }, { headers: corsHeaders });
+      }
+
+      // GET /api/evaluations - Stored evaluation runs, newest first (?prompt_version=, ?limit=)
+      if (path === "/api/evaluations" && request.method === "GET") {
+        const limit = parseInt(url.searchParams.get("limit") || "20");
+        const runs = await db.getEvaluationRuns(url.searchParams.get("prompt_version") || undefined, limit);
+        return Response.json({ runs }, { headers: corsHeaders });
+      }
+
+      // GET /api/evaluations/:id - One evaluation run with per-example results; queued runs report
+      // status "running" and the examples remaining until their metrics are stored
+      const evaluationMatch = path.match(/^\/api\/evaluations\/(\d+)$/);
+      if (evaluationMatch && request.method === "GET") {
+        const run = await db.getEvaluationRun(parseInt(evaluationMatch[1]));
+        if (!run) {
+          return Response.json(
+            { error: "Evaluation run not found" },
+            { status: 404, headers: corsHeaders }
+          );
+        }
+        return Response.json(run, { headers: corsHeaders });
+      }
+
+      // GET /api/drift?from=&to= - Compare two classification versions over the items both classified
+      // A version is a model, prompt version or rules hash (see versions in the 400 response)
+      if (path === "/api/drift" && request.method === "GET") {
+        const from = url.searchParams.get("from");
+        const to = url.searchParams.get("to");
+        if (!from || !to) {
+          return Response.json(
+            { error: "from and to are required", versions: await db.getClassificationHistoryVersions() },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+
+        const limit = parseInt(url.searchParams.get("limit") || "50");
+        const [before, after] = await Promise.all([
+          db.getLatestClassificationsForVersion(from),
+          db.getLatestClassificationsForVersion(to),
+        ]);
+        return Response.json(
+          compareVersions({ version: from, classifications: before }, { version: to, classifications: after }, limit),
+          { headers: corsHeaders }
+        );
+      }
+
       // ============ PM DASHBOARD ============
 
-      // GET /api/dashboard - Get PM dashboard data
+      // GET /api/dashboard - Get PM dashboard data (?language= filters by ISO 639-1 code)
       if (path === "/api/dashboard" && request.method === "GET") {
         const days = parseInt(url.searchParams.get("days") || "7");
+        const language = url.searchParams.get("language") || undefined;
         const endDate = new Date().toISOString();
         const startDate = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
 
-        const [metrics, immediate, trustRisk, quickWins, trends] = await Promise.all([
-          db.getMetrics(startDate, endDate),
-          db.getFeedbackByRoute("immediate_engineering", 10),
-          db.getFeedbackByRoute("trust_risk", 10),
-          db.getFeedbackByRoute("quick_win_backlog", 10),
-          db.getTrendingSignals(days, 10),
+        // Items waiting for review are listed in needs_review, not in their routed queues
+        const [metrics, immediate, trustRisk, quickWins, needsReview, trends] = await Promise.all([
+          db.getMetrics(startDate, endDate, language),
+          db.getFeedbackByRoute("immediate_engineering", 10, language),
+          db.getFeedbackByRoute("trust_risk", 10, language),
+          db.getFeedbackByRoute("quick_win_backlog", 10, language),
+          db.getReviewQueue(10, language),
+          db.getTrendingSignals(startDate, 10, language),
         ]);
 
         return Response.json(
           {
             period: { start: startDate, end: endDate, days },
+            language: language ?? null,
             metrics,
             queues: {
               immediate_engineering: immediate,
               trust_risk: trustRisk,
               quick_wins: quickWins,
+              needs_review: needsReview,
             },
             trending_signals: trends,
           },
@@ -199,6 +1022,48 @@ export default {
         );
       }
 
+      // GET /api/trends - Counts per route, source and signal value, and average scores, per bucket
+      // ?interval=day|week|month (default day), ?periods= buckets (default 14/8/6), ?limit= series
+      // per dimension (default 10), ?utc_offset=+02:00 buckets by that offset's calendar, ?language=
+      // Day and week buckets are compared week over week, month buckets month over month
+      if (path === "/api/trends" && request.method === "GET") {
+        const interval = (url.searchParams.get("interval") || "day") as TrendInterval;
+        const offset = parseUtcOffset(url.searchParams.get("utc_offset") || "Z");
+        if (!TREND_INTERVALS.includes(interval) || offset === null) {
+          return Response.json(
+            { error: `interval must be one of ${TREND_INTERVALS.join(", ")} and utc_offset like +02:00` },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        const periods = Number(url.searchParams.get("periods") || { day: 14, week: 8, month: 6 }[interval]);
+        const limit = Number(url.searchParams.get("limit") || 10);
+        if (!Number.isInteger(periods) || periods < 1 || !Number.isInteger(limit) || limit < 1) {
+          return Response.json(
+            { error: "periods and limit must be positive integers" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        const language = url.searchParams.get("language") || undefined;
+
+        const lag = comparisonLag(interval);
+        const buckets = bucketStarts(interval, Math.min(periods, 366) + lag, offset);
+        const rows = await db.getTrendRows(bucketModifiers(interval, offset), bucketInstant(buckets[0], offset), language);
+        return Response.json(
+          {
+            interval,
+            utc_offset: url.searchParams.get("utc_offset") || "Z",
+            compared_with: interval === "month" ? "previous_month" : "previous_week",
+            buckets: buckets.slice(lag),
+            language: language ?? null,
+            routes: buildSeries(expandRoutes(rows.routes), buckets, lag, "count").slice(0, limit),
+            sources: buildSeries(rows.sources, buckets, lag, "count").slice(0, limit),
+            signals: buildSeries(rows.signals, buckets, lag, "count").slice(0, limit),
+            scores: buildSeries(rows.scores, buckets, lag, "average"),
+          },
+          { headers: corsHeaders }
+        );
+      }
+
       // POST /api/summary - Generate AI-powered PM summary
       if (path === "/api/summary" && request.method === "POST") {
         const body = await request.json() as { days?: number };
@@ -215,20 +1080,78 @@ export default {
         ]);
 
         const feedbackItems = allFeedback.flat();
-        const summary = await classifier.generatePMSummary(
+        const { summary, prompt_version } = await classifier.generatePMSummary(
           feedbackItems,
           metrics,
           `Last ${days} days`
         );
 
-        await db.storeSummary(startDate, endDate, "weekly", summary, metrics);
+        await db.storeSummary(startDate, endDate, "weekly", summary, metrics, prompt_version);
 
         return Response.json(
-          { success: true, summary, metrics },
+          { success: true, summary, metrics, prompt_version },
           { headers: corsHeaders }
         );
       }
 
+      // ============ ALERTS ============
+
+      // GET /api/alerts - Spike alerts, newest first (?status=open|acknowledged, ?limit=)
+      if (path === "/api/alerts" && request.method === "GET") {
+        const status = url.searchParams.get("status") || undefined;
+        if (status && status !== "open" && status !== "acknowledged") {
+          return Response.json({ error: "status must be open or acknowledged" }, { status: 400, headers: corsHeaders });
+        }
+        const limit = parseInt(url.searchParams.get("limit") || "50");
+        const alerts = await db.getAlerts(status as AlertStatus | undefined, limit);
+        return Response.json({ alerts }, { headers: corsHeaders });
+      }
+
+      // GET /api/alerts/:id - One alert with its baseline, top contributing items and deliveries
+      const alertMatch = path.match(/^\/api\/alerts\/(\d+)$/);
+      if (alertMatch && request.method === "GET") {
+        const alert = await db.getAlert(parseInt(alertMatch[1]));
+        if (!alert) {
+          return Response.json({ error: "Alert not found" }, { status: 404, headers: corsHeaders });
+        }
+        return Response.json(alert, { headers: corsHeaders });
+      }
+
+      // POST /api/alerts/:id/acknowledge - Mark an open alert as handled
+      // Who: Cf-Access-Authenticated-User-Email (Cloudflare Access), else body acknowledged_by
+      const acknowledgeMatch = path.match(/^\/api\/alerts\/(\d+)\/acknowledge$/);
+      if (acknowledgeMatch && request.method === "POST") {
+        const id = parseInt(acknowledgeMatch[1]);
+        let body: { acknowledged_by?: unknown } = {};
+        try {
+          const text = await request.text();
+          if (text.trim()) body = JSON.parse(text);
+        } catch {
+          return Response.json(
+            { success: false, error: "Request body must be valid JSON" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        const acknowledgedBy =
+          request.headers.get("Cf-Access-Authenticated-User-Email") ||
+          (typeof body.acknowledged_by === "string" && body.acknowledged_by.trim() ? body.acknowledged_by.trim() : null);
+        if (!acknowledgedBy) {
+          return Response.json(
+            { success: false, errors: [{ field: "acknowledged_by", message: "is required without Cloudflare Access" }] },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+
+        const alert = await db.getAlert(id);
+        if (!alert) {
+          return Response.json({ error: "Alert not found" }, { status: 404, headers: corsHeaders });
+        }
+        if (!(await db.acknowledgeAlert(id, acknowledgedBy))) {
+          return Response.json({ error: "Alert is already acknowledged" }, { status: 409, headers: corsHeaders });
+        }
+        return Response.json({ success: true, alert: await db.getAlert(id) }, { headers: corsHeaders });
+      }
+
       // ============ CONFIGURATION ============
 
       // GET /api/config/rules - Get classification rules
@@ -238,18 +1161,357 @@ export default {
       }
 
       // PUT /api/config/rules - Update classification rules
+      // routing_rules: [{route, priority, when, stop?}] where when nests {all: [...]}, {any: [...]},
+      // {field, op, value} over scores/confidence and {signal_type, values?, min_confidence?}
+      // score_policies: [{name, field, min?, max?, when}] with the same conditions; keyword hits
+      // are signals of type urgency_keyword / impact_signal
       if (path === "/api/config/rules" && request.method === "PUT") {
-        const updates = await request.json();
+        const updates = await request.json() as Partial<ClassificationRules>;
+        const errors = [
+          ...(updates.routing_rules !== undefined ? validateRoutingRules(updates.routing_rules) : []),
+          ...(updates.default_route !== undefined ? validateDefaultRoute(updates.default_route) : []),
+          ...(updates.score_policies !== undefined ? validateScorePolicies(updates.score_policies) : []),
+          ...(updates.signal_taxonomy !== undefined ? validateTaxonomy(updates.signal_taxonomy) : []),
+        ];
+        const threshold = updates.review_confidence_threshold;
+        if (threshold !== undefined && (typeof threshold !== "number" || threshold < 0 || threshold > 1)) {
+          errors.push({ field: "review_confidence_threshold", message: "must be a number from 0 to 1" });
+        }
+        if (errors.length > 0) {
+          return Response.json({ success: false, errors }, { status: 400, headers: corsHeaders });
+        }
         await config.updateClassificationRules(updates);
         return Response.json({ success: true }, { headers: corsHeaders });
       }
 
+      // POST /api/config/rules/simulate - Replay candidate rules over stored classifications (no writes)
+      // Body: a full or partial ClassificationRules, merged over the current rules like PUT
+      // ?limit= caps the listed moved items (default 100); counts always cover everything
+      if (path === "/api/config/rules/simulate" && request.method === "POST") {
+        const candidate = await request.json() as Partial<ClassificationRules>;
+        const errors = [
+          ...(candidate.routing_rules !== undefined ? validateRoutingRules(candidate.routing_rules) : []),
+          ...(candidate.default_route !== undefined ? validateDefaultRoute(candidate.default_route) : []),
+        ];
+        if (errors.length > 0) {
+          return Response.json({ success: false, errors }, { status: 400, headers: corsHeaders });
+        }
+
+        const rules = { ...(await config.getClassificationRules()), ...candidate };
+        const limit = parseInt(url.searchParams.get("limit") || "100");
+        const simulation = simulateRouting(
+          await db.getRoutableClassifications(),
+          rules.routing_rules,
+          rules.default_route,
+          limit
+        );
+        return Response.json(simulation, { headers: corsHeaders });
+      }
+
+      // GET /api/taxonomy - Canonical signal values with hierarchy paths, plus unmatched candidates
+      if (path === "/api/taxonomy" && request.method === "GET") {
+        const { signal_taxonomy } = await config.getClassificationRules();
+        const limit = parseInt(url.searchParams.get("limit") || "100");
+        const paths = Object.fromEntries(
+          TAXONOMY_SIGNAL_TYPES.map((type) => [type, allowedValues(signal_taxonomy, type)])
+        );
+        return Response.json(
+          { taxonomy: signal_taxonomy, paths, candidates: await db.getTaxonomyCandidates(limit) },
+          { headers: corsHeaders }
+        );
+      }
+
+      // PUT /api/taxonomy - Replace the entries of some signal types ({feature_area: [{value, aliases?, parent?}]})
+      // Candidates the new entries cover are removed and their stored signals rewritten
+      if (path === "/api/taxonomy" && request.method === "PUT") {
+        const updates = await request.json() as Partial<SignalTaxonomy>;
+        const errors = validateTaxonomy(updates);
+        if (errors.length > 0) {
+          return Response.json({ success: false, errors }, { status: 400, headers: corsHeaders });
+        }
+
+        const taxonomy = { ...(await config.getClassificationRules()).signal_taxonomy, ...updates };
+        await config.updateClassificationRules({ signal_taxonomy: taxonomy });
+
+        let signalsUpdated = 0;
+        const resolved: string[] = [];
+        for (const candidate of await db.getTaxonomyCandidates(1000)) {
+          const type = candidate.signal_type as TaxonomySignalType;
+          if (!(type in updates)) continue;
+          const match = resolveValue(taxonomy, type, candidate.signal_value);
+          if (match.match === "candidate") continue;
+          signalsUpdated += await db.mergeSignalValues(type, [candidate.signal_value], match.value);
+          await db.deleteTaxonomyCandidates(type, [candidate.signal_value]);
+          resolved.push(`${type}:${candidate.signal_value}`);
+        }
+        return Response.json(
+          { success: true, taxonomy, resolved_candidates: resolved, signals_updated: signalsUpdated },
+          { headers: corsHeaders }
+        );
+      }
+
+      // POST /api/taxonomy/merge - Merge or rename values: {signal_type, from: [...], to}
+      // Old values become aliases of `to` and stored signals are rewritten to it
+      if (path === "/api/taxonomy/merge" && request.method === "POST") {
+        const body = await request.json() as { signal_type?: string; from?: string | string[]; to?: string };
+        const from = (Array.isArray(body.from) ? body.from : [body.from]).filter(
+          (v): v is string => typeof v === "string" && v.trim() !== ""
+        );
+        const errors: FieldError[] = [];
+        if (!TAXONOMY_SIGNAL_TYPES.includes(body.signal_type as TaxonomySignalType)) {
+          errors.push({ field: "signal_type", message: `must be one of ${TAXONOMY_SIGNAL_TYPES.join(", ")}` });
+        }
+        if (from.length === 0) {
+          errors.push({ field: "from", message: "must be a value or an array of values" });
+        }
+        if (typeof body.to !== "string" || body.to.trim() === "") {
+          errors.push({ field: "to", message: "must be a non-empty string" });
+        }
+        if (errors.length > 0) {
+          return Response.json({ success: false, errors }, { status: 400, headers: corsHeaders });
+        }
+
+        const type = body.signal_type as TaxonomySignalType;
+        const to = body.to!.trim();
+        const taxonomy = mergeTaxonomyValues((await config.getClassificationRules()).signal_taxonomy, type, from, to);
+        const invalid = validateTaxonomy(taxonomy);
+        if (invalid.length > 0) {
+          return Response.json({ success: false, errors: invalid }, { status: 400, headers: corsHeaders });
+        }
+        await config.updateClassificationRules({ signal_taxonomy: taxonomy });
+
+        const entry = taxonomy[type].find((e) => e.value.toLowerCase() === to.toLowerCase())!;
+        const signalsUpdated = await db.mergeSignalValues(type, from, entry.value);
+        await db.deleteTaxonomyCandidates(type, [...from, entry.value]);
+        return Response.json(
+          { success: true, signal_type: type, from, entry, signals_updated: signalsUpdated },
+          { headers: corsHeaders }
+        );
+      }
+
+      // GET /api/config/clusters - Get near-duplicate clustering settings
+      if (path === "/api/config/clusters" && request.method === "GET") {
+        const settings = await config.getClusterSettings();
+        return Response.json(settings, { headers: corsHeaders });
+      }
+
+      // PUT /api/config/clusters - Update clustering settings (e.g. similarity_threshold)
+      if (path === "/api/config/clusters" && request.method === "PUT") {
+        const updates = await request.json() as Partial<ClusterSettings>;
+        if (
+          updates.similarity_threshold !== undefined &&
+          (typeof updates.similarity_threshold !== "number" ||
+            updates.similarity_threshold <= 0 ||
+            updates.similarity_threshold > 1)
+        ) {
+          return Response.json(
+            { error: "similarity_threshold must be a number in (0, 1]" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        await config.updateClusterSettings(updates);
+        return Response.json({ success: true }, { headers: corsHeaders });
+      }
+
+      // GET /api/prompts/:task - Prompt versions, A/B assignment and (classification) outcomes per version
+      const promptsMatch = path.match(/^\/api\/prompts\/([^/]+)$/);
+      if (promptsMatch && PROMPT_TASKS.includes(promptsMatch[1] as PromptTask) && request.method === "GET") {
+        const task = promptsMatch[1] as PromptTask;
+        const [versions, assignment, stats] = await Promise.all([
+          config.listPromptTemplates(task),
+          config.getPromptAssignment(task),
+          task === "classification" ? db.getPromptVersionStats() : Promise.resolve([]),
+        ]);
+        return Response.json(
+          { task, assignment, versions: [BUILTIN_PROMPTS[task], ...versions], outcomes: stats },
+          { headers: corsHeaders }
+        );
+      }
+
+      // POST /api/prompts/:task - Store a new template version ({version, template, description?, few_shot_count?})
+      if (promptsMatch && PROMPT_TASKS.includes(promptsMatch[1] as PromptTask) && request.method === "POST") {
+        const task = promptsMatch[1] as PromptTask;
+        const body = await request.json() as Partial<PromptTemplate>;
+        if (!body.version || !/^[\w.-]+$/.test(body.version) || typeof body.template !== "string" || !body.template.trim()) {
+          return Response.json(
+            { error: "version (letters, digits, . _ -) and template are required" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        const unknown = unknownVariables(task, body.template);
+        if (unknown.length > 0) {
+          return Response.json(
+            { error: `Unknown template variables: ${unknown.join(", ")}`, available: PROMPT_VARIABLES[task] },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        if (await prompts.get(task, body.version)) {
+          return Response.json(
+            { error: `Version "${body.version}" already exists; templates are immutable, use a new version` },
+            { status: 409, headers: corsHeaders }
+          );
+        }
+
+        const template: PromptTemplate = {
+          task,
+          version: body.version,
+          template: body.template,
+          description: body.description,
+          few_shot_count: body.few_shot_count,
+          created_at: new Date().toISOString(),
+        };
+        await config.setPromptTemplate(template);
+        return Response.json({ success: true, template }, { status: 201, headers: corsHeaders });
+      }
+
+      // PUT /api/prompts/:task/assignment - Select the active version and an optional A/B candidate
+      const assignmentMatch = path.match(/^\/api\/prompts\/([^/]+)\/assignment$/);
+      if (assignmentMatch && PROMPT_TASKS.includes(assignmentMatch[1] as PromptTask) && request.method === "PUT") {
+        const task = assignmentMatch[1] as PromptTask;
+        const body = await request.json() as Partial<PromptAssignment>;
+        const share = body.candidate ? body.candidate_share ?? 0.5 : 0;
+        if (!body.active || typeof share !== "number" || share < 0 || share > 1) {
+          return Response.json(
+            { error: "active is required and candidate_share must be a number in [0, 1]" },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        for (const version of [body.active, body.candidate].filter((v): v is string => !!v)) {
+          if (!(await prompts.get(task, version))) {
+            return Response.json(
+              { error: `Unknown ${task} prompt version "${version}"` },
+              { status: 400, headers: corsHeaders }
+            );
+          }
+        }
+
+        const assignment: PromptAssignment = { active: body.active, candidate: body.candidate, candidate_share: share };
+        await config.setPromptAssignment(task, assignment);
+        return Response.json({ success: true, assignment }, { headers: corsHeaders });
+      }
+
+      // GET /api/config/models - Model chain and timeout per AI task
+      if (path === "/api/config/models" && request.method === "GET") {
+        const settings = await config.getModelSettings();
+        return Response.json(settings, { headers: corsHeaders });
+      }
+
+      // PUT /api/config/models - Set models (primary first, then fallbacks) and timeout_ms for some tasks
+      if (path === "/api/config/models" && request.method === "PUT") {
+        const updates = await request.json() as Partial<ModelSettings>;
+        for (const [task, value] of Object.entries(updates)) {
+          const valid =
+            AI_TASKS.includes(task as keyof ModelSettings) &&
+            Array.isArray(value?.models) &&
+            value.models.length > 0 &&
+            value.models.every((m) => typeof m === "string" && m.startsWith("@")) &&
+            typeof value.timeout_ms === "number" &&
+            value.timeout_ms > 0;
+          if (!valid) {
+            return Response.json(
+              { error: `Invalid model settings for "${task}": expected {models: ["@cf/..."], timeout_ms: <ms>} for one of ${AI_TASKS.join(", ")}` },
+              { status: 400, headers: corsHeaders }
+            );
+          }
+        }
+        await config.updateModelSettings(updates);
+        return Response.json({ success: true }, { headers: corsHeaders });
+      }
+
+      // GET /api/ai/usage - AI calls per task, model and day (?days= default 7, ?task= to filter)
+      if (path === "/api/ai/usage" && request.method === "GET") {
+        const days = Number(url.searchParams.get("days") || "7");
+        if (!Number.isInteger(days) || days < 1 || days > 365) {
+          return Response.json(
+            { success: false, errors: [{ field: "days", message: "must be an integer from 1 to 365" }] },
+            { status: 400, headers: corsHeaders }
+          );
+        }
+        const task = url.searchParams.get("task") || undefined;
+        const usage = await db.getAiUsage(days, task);
+        return Response.json({ days, usage }, { headers: corsHeaders });
+      }
+
+      // GET /api/config/alerts - Get spike detection and alert destination settings
+      if (path === "/api/config/alerts" && request.method === "GET") {
+        const settings = await config.getAlertSettings();
+        return Response.json(settings, { headers: corsHeaders });
+      }
+
+      // PUT /api/config/alerts - Update windows, thresholds, cool-down, watched signal types and
+      // destinations ([{name, type: "webhook" | "slack", url}])
+      if (path === "/api/config/alerts" && request.method === "PUT") {
+        const updates = await request.json() as Partial<AlertSettings>;
+        const errors = validateAlertSettings(updates);
+        if (errors.length > 0) {
+          return Response.json({ success: false, errors }, { status: 400, headers: corsHeaders });
+        }
+        await config.updateAlertSettings(updates);
+        return Response.json({ success: true }, { headers: corsHeaders });
+      }
+
+      // GET /api/config/filter - Get spam/off-topic pre-filter settings
+      if (path === "/api/config/filter" && request.method === "GET") {
+        const settings = await config.getFilterSettings();
+        return Response.json(settings, { headers: corsHeaders });
+      }
+
+      // PUT /api/config/filter - Update pre-filter thresholds, bot authors and relevance-checked sources
+      if (path === "/api/config/filter" && request.method === "PUT") {
+        const updates = await request.json() as Partial<FilterSettings>;
+        const errors = validateFilterSettings(updates);
+        if (errors.length > 0) {
+          return Response.json({ success: false, errors }, { status: 400, headers: corsHeaders });
+        }
+        await config.updateFilterSettings(updates);
+        return Response.json({ success: true }, { headers: corsHeaders });
+      }
+
+      // GET /api/config/redaction - Get PII redaction settings
+      if (path === "/api/config/redaction" && request.method === "GET") {
+        const settings = await config.getRedactionSettings();
+        return Response.json(settings, { headers: corsHeaders });
+      }
+
+      // PUT /api/config/redaction - Update redaction detectors, custom patterns and store_original
+      if (path === "/api/config/redaction" && request.method === "PUT") {
+        const updates = await request.json() as Partial<RedactionSettings>;
+        for (const custom of updates.custom_patterns ?? []) {
+          try {
+            if (!custom.name || !custom.pattern) throw new Error("name and pattern are required");
+            new RegExp(custom.pattern, custom.flags);
+          } catch (e) {
+            return Response.json(
+              { error: `Invalid custom pattern "${custom.name}": ${e instanceof Error ? e.message : String(e)}` },
+              { status: 400, headers: corsHeaders }
+            );
+          }
+        }
+        await config.updateRedactionSettings(updates);
+        return Response.json({ success: true }, { headers: corsHeaders });
+      }
+
       // GET /api/config/sources - Get source configurations
       if (path === "/api/config/sources" && request.method === "GET") {
         const sources = await config.getSourceConfigs();
         return Response.json(sources, { headers: corsHeaders });
       }
 
+      // GET /api/sources/status - Get polling status for each configured source
+      if (path === "/api/sources/status" && request.method === "GET") {
+        const sources = await config.getSourceConfigs();
+        const statuses = await Promise.all(
+          sources.map(async (source) => ({
+            name: source.name,
+            type: source.type,
+            enabled: source.enabled,
+            cursor: await config.getLastSyncTime(source.name),
+            status: await config.getSourceStatus(source.name),
+          }))
+        );
+        return Response.json({ sources: statuses }, { headers: corsHeaders });
+      }
+
       // ============ SEED DATA ============
 
       // POST /api/seed - Seed sample data for testing
@@ -258,8 +1520,9 @@ export default {
         for (const item of sampleData) {
           await db.ingestFeedback(item);
         }
+        const queued = await enqueueClassification(env.CLASSIFY_QUEUE, db, sampleData.map((item) => item.id));
         return Response.json(
-          { success: true, seeded: sampleData.length },
+          { success: true, seeded: sampleData.length, queued: queued.length },
           { headers: corsHeaders }
         );
       }
@@ -285,6 +1548,7 @@ export default {
 
       // /api returns JSON documentation (root "/" serves static HTML dashboard)
       if (path === "/api") {
+        const rules = await config.getClassificationRules();
         return Response.json(
           {
             name: "Feedback Intelligence Agent",
@@ -293,13 +1557,65 @@ export default {
               "Aggregates and analyzes user feedback using LLMs to produce actionable PM summaries",
             endpoints: {
               "POST /api/ingest": "Ingest feedback from any source",
-              "POST /api/classify": "Classify pending feedback using AI",
-              "GET /api/feedback": "Get all feedback with classifications",
-              "GET /api/dashboard": "Get PM dashboard data with metrics",
+              "POST /api/import": "Bulk import CSV, NDJSON or labeled JSON datasets",
+              "POST /api/webhooks/github": "Receive signed GitHub issues, issue_comment and label events",
+              "POST /api/classify": "Classify pending feedback using AI (?retry_failed=true requeues failed items, ?force=true starts a reclassification job for everything)",
+              "GET /api/classification/failures": "List items whose AI output failed schema validation after repair retries",
+              "GET /api/queue": "Classification pipeline item counts per status (pending, classifying, done, failed)",
+              "GET /api/queue/dead-letters": "List items that kept failing in the classification pipeline",
+              "POST /api/queue/dead-letters/replay": "Queue dead-lettered items again (body {ids} or all)",
+              "GET /api/feedback/:id/status": "Get the classification pipeline status of a feedback item",
+              "POST /api/jobs/reclassify": "Start a background reclassification job scoped by source, date range, route, model or prompt version",
+              "GET /api/jobs": "List reclassification jobs with progress",
+              "GET /api/jobs/:id": "Get a reclassification job's processed, failed and remaining counts",
+              "POST /api/jobs/:id/cancel": "Cancel a running reclassification job (remaining items keep their current results)",
+              "POST /api/jobs/:id/resume": "Resume a cancelled or stalled reclassification job from its checkpoint",
+              "POST /api/fix-routes": "Re-route classified feedback with the current routing rules (no AI calls)",
+              "GET /api/feedback": "Get all feedback with classifications (?language= to filter)",
+              "GET /api/feedback/:id/thread": "Get a feedback thread with replies and sentiment trajectory",
+              "GET /api/feedback/:id/redactions": "Get the PII redaction report for a feedback item",
+              "GET /api/feedback/:id/original": "Get unredacted original content (requires PII_ACCESS_TOKEN)",
+              "GET /api/filtered": "Review feedback excluded as spam or off-topic (?status= to filter)",
+              "POST /api/feedback/:id/restore": "Restore a spam/off-topic false positive and queue it for classification",
+              "PATCH /api/feedback/:id/classification": "Override scores or route with a reason (locks the fields against AI reclassification)",
+              "GET /api/feedback/:id/classification/history": "Get every classification version (current one marked), the override audit trail and locked fields",
+              "GET /api/overrides/export": "Export human corrections as an evaluation dataset (?format=dataset) or NDJSON audit log (?format=audit)",
+              "GET /api/review": "List classifications below the review confidence threshold (corrections via PATCH /api/feedback/:id/classification)",
+              "GET /api/review/stats": "Share of classifications needing review per source and per model/prompt version",
+              "POST /api/review/:id/accept": "Accept a low-confidence classification as-is and clear it from the review queue",
+              "GET /api/clusters": "Get near-duplicate clusters ranked by report count",
+              "POST /api/evaluate": "Evaluate the classifier against labeled feedback (accuracy, MAE, route precision/recall; runs over 10 examples are queued)",
+              "GET /api/evaluations": "List stored evaluation runs per model and prompt version",
+              "GET /api/evaluations/:id": "Get an evaluation run with per-example results",
+              "GET /api/drift": "Compare two classification versions (model, prompt version or rules hash): score deltas and route changes (?from=&to=)",
+              "GET /api/dashboard": "Get PM dashboard data with metrics, routed and needs_review queues and per-language counts (?language= to filter)",
+              "GET /api/trends": "Day/week/month buckets per route, source, signal value and average score with period-over-period delta and growth rate",
               "POST /api/summary": "Generate AI-powered PM summary",
+              "GET /api/alerts": "List spike alerts on signals and routes (?status=open|acknowledged)",
+              "GET /api/alerts/:id": "Get a spike alert with its baseline, top contributing items and deliveries",
+              "POST /api/alerts/:id/acknowledge": "Acknowledge an open spike alert",
               "GET /api/config/rules": "Get classification rules",
-              "PUT /api/config/rules": "Update classification rules",
-              "POST /api/seed": "Seed sample cloudflared data for testing",
+              "PUT /api/config/rules": "Update classification rules, declarative routing rules (AND/OR conditions, priorities), score floor/ceiling policies and the signal taxonomy",
+              "POST /api/config/rules/simulate": "Preview candidate rules: items that would move and queue sizes before/after (no writes)",
+              "GET /api/taxonomy": "Get the canonical signal taxonomy (values, aliases, hierarchy) and unmatched candidate values",
+              "PUT /api/taxonomy": "Replace taxonomy entries for some signal types; covered candidates are resolved",
+              "POST /api/taxonomy/merge": "Merge or rename taxonomy values and rewrite stored signals",
+              "GET /api/config/clusters": "Get near-duplicate clustering settings",
+              "PUT /api/config/clusters": "Update near-duplicate clustering settings",
+              "GET /api/prompts/:task": "List prompt versions, A/B assignment and outcomes per version (classification, summary)",
+              "POST /api/prompts/:task": "Store a new immutable prompt template version",
+              "PUT /api/prompts/:task/assignment": "Set the active prompt version and an optional A/B candidate split",
+              "GET /api/config/models": "Get the model chain (primary + fallbacks) and timeout per AI task",
+              "PUT /api/config/models": "Update models and timeouts for some AI tasks",
+              "GET /api/ai/usage": "AI calls, outcomes, latency and input/output size per task, model and day",
+              "GET /api/config/alerts": "Get spike detection settings and alert destinations",
+              "PUT /api/config/alerts": "Update spike thresholds, baseline windows, cool-down and alert destinations",
+              "GET /api/config/filter": "Get spam/off-topic pre-filter settings",
+              "PUT /api/config/filter": "Update spam/off-topic pre-filter settings",
+              "GET /api/config/redaction": "Get PII redaction settings",
+              "PUT /api/config/redaction": "Update PII redaction detectors and custom patterns",
+              "GET /api/sources/status": "Get polling cursor and last success/failure per source",
+              "POST /api/seed": "Seed sample cloudflared data for testing and queue it for classification",
               "GET /api/health": "Health check",
             },
             classification_framework: {
@@ -308,11 +1624,21 @@ export default {
               impact: "1 (Minimal) to 5 (Severe)",
               actionability: "1 (Unclear) to 5 (Immediately Actionable)",
             },
-            routing_rules: {
-              immediate_engineering: "Urgency >= 4 AND Impact >= 4",
-              quick_win_backlog: "Urgency <= 2 AND Actionability >= 4",
-              trust_risk: "Sentiment < 0 AND Impact >= 3",
-            },
+            // Live rules from KV: items get every matching route, primary (lowest priority) first
+            routing_rules: [...rules.routing_rules]
+              .sort((a, b) => a.priority - b.priority)
+              .map((rule) => ({
+                route: rule.route,
+                priority: rule.priority,
+                when: describeCondition(rule.when),
+                ...(rule.stop ? { stop: true } : {}),
+              })),
+            default_route: rules.default_route,
+            // Enforced on the model's scores after classification, in order
+            score_policies: rules.score_policies.map((policy) => ({
+              name: policy.name,
+              policy: describePolicy(policy),
+            })),
           },
           { headers: corsHeaders }
         );
@@ -337,36 +1663,346 @@ export default {
 
   // Scheduled handler for automated classification
   async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext) {
-    const db = new FeedbackDB(env.DB);
     const config = new ConfigStore(env.KV);
-    const classifier = new FeedbackClassifier(env.AI);
+    const redactor = new Redactor(config);
+    const db = new FeedbackDB(env.DB, redactor);
+    const prompts = new PromptLibrary(config, db);
+    const models = new ModelRunner(env.AI, config, db);
+    const classifier = new FeedbackClassifier(env.AI, redactor, prompts, models);
 
-    console.log("Running scheduled classification...");
+    // Each stage runs even if an earlier one failed
+    console.log("Polling feedback sources...");
+    try {
+      const polled = await pollSources(config, db, createConnectors(), sourceTokens(env));
+      for (const result of polled.filter((r) => r.status !== "skipped")) {
+        const outcome = result.error ?? `${result.ingested} ingested, ${result.rejected} rejected`;
+        console.log(`Polled ${result.source}: ${result.status}`, outcome);
+      }
+    } catch (e) {
+      console.error("Failed to poll feedback sources:", e);
+    }
 
-    const rules = await config.getClassificationRules();
-    const unclassified = await db.getUnclassifiedFeedback(25);
+    // Polled items (and any whose message was lost) go through the classification queue
+    try {
+      const queued = await enqueueUnqueued(env.CLASSIFY_QUEUE, db);
+      console.log(`Queued ${queued.length} feedback items for classification`);
+    } catch (e) {
+      console.error("Failed to queue unclassified feedback:", e);
+    }
 
-    let classified = 0;
-    for (const feedback of unclassified) {
-      try {
-        const { classification, signals } = await classifier.classifyFeedback(
-          feedback,
-          rules
-        );
-        await db.storeClassification(classification);
-        if (signals.length > 0) {
-          await db.storeSignals(signals);
-        }
-        classified++;
-      } catch (e) {
-        console.error(`Failed to classify ${feedback.id}:`, e);
+    try {
+      const alerts = await runSpikeDetection(db, config, createNotifiers());
+      for (const alert of alerts) {
+        console.log(`Spike in ${alert.dimension} ${alert.key}: ${alert.current_count} items (z = ${alert.z_score})`);
       }
+    } catch (e) {
+      console.error("Failed to run spike detection:", e);
     }
+  },
+
+  // Queue consumer: classifies batches of queued thread roots
+  async queue(batch: MessageBatch<ClassificationMessage>, env: Env, ctx: ExecutionContext) {
+    const config = new ConfigStore(env.KV);
+    const redactor = new Redactor(config);
+    const db = new FeedbackDB(env.DB, redactor);
+    const prompts = new PromptLibrary(config, db);
+    const models = new ModelRunner(env.AI, config, db);
+    const classifier = new FeedbackClassifier(env.AI, redactor, prompts, models);
 
-    console.log(`Classified ${classified} feedback items`);
+    await processClassificationBatch(batch, env, db, config, classifier);
   },
 };
 
+// Classify a batch of queued items, acknowledging each message on its own
+// Errors are retried with exponential backoff; after MAX_CLASSIFICATION_ATTEMPTS deliveries
+// (or when the model output stays invalid) the item moves to the dead-letter store
+async function processClassificationBatch(
+  batch: MessageBatch<ClassificationMessage>,
+  env: Env,
+  db: FeedbackDB,
+  config: ConfigStore,
+  classifier: FeedbackClassifier
+): Promise<void> {
+  const rules = await config.getClassificationRules();
+  const clusterer = await createClusterer(env, db, config, classifier);
+  const prefilter = await createPrefilter(config, classifier);
+
+  for (const message of batch.messages) {
+    const id = message.body.feedback_id;
+    if (message.body.job_id) {
+      await processJobMessage(message, message.body.job_id, rules, db, config, classifier);
+      continue;
+    }
+    if (message.body.evaluation) {
+      await processEvaluationMessage(message, message.body.evaluation, rules, db, classifier);
+      continue;
+    }
+    try {
+      const feedback = await db.getFeedbackById(id);
+      if (!feedback) {
+        message.ack();
+        continue;
+      }
+      // Filtered or already classified since it was queued (e.g. by POST /api/classify)
+      if (feedback.parent_id || feedback.filter_status || (await config.getCachedClassification(id))) {
+        await db.setClassificationStatus(id, "done", message.attempts);
+        message.ack();
+        continue;
+      }
+
+      await db.setClassificationStatus(id, "classifying", message.attempts);
+      const { failed } = await classifyAndStore(feedback, rules, db, config, classifier, clusterer, prefilter);
+      if (failed) {
+        await db.deadLetterClassification(id, failed.error, message.attempts);
+      } else {
+        await db.setClassificationStatus(id, "done", message.attempts);
+      }
+      message.ack();
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      console.error(`Failed to classify ${id} (attempt ${message.attempts}):`, e);
+      if (message.attempts >= MAX_CLASSIFICATION_ATTEMPTS) {
+        await db.deadLetterClassification(id, error, message.attempts);
+        message.ack();
+      } else {
+        await db.setClassificationStatus(id, "pending", message.attempts, error);
+        message.retry({ delaySeconds: retryDelaySeconds(message.attempts) });
+      }
+    }
+  }
+}
+
+// Reclassify one item of a job. The current classification is only replaced by a new result;
+// failures leave it in place. Messages of cancelled jobs are dropped (the item stays pending).
+async function processJobMessage(
+  message: Message<ClassificationMessage>,
+  jobId: string,
+  rules: ClassificationRules,
+  db: FeedbackDB,
+  config: ConfigStore,
+  classifier: FeedbackClassifier
+): Promise<void> {
+  const id = message.body.feedback_id;
+  let claimed = false;
+  try {
+    const job = await db.getReclassificationJob(jobId);
+    if (job?.status !== "running") {
+      message.ack();
+      return;
+    }
+    // Claimed atomically: a second delivery of the item (e.g. after a resume) skips it
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+    claimed = await db.claimJobItem(jobId, id, staleBefore);
+    if (!claimed) {
+      message.ack();
+      return;
+    }
+
+    const feedback = await db.getFeedbackById(id);
+    if (!feedback || feedback.filter_status) {
+      await db.setJobItemStatus(jobId, id, "done");
+      message.ack();
+      return;
+    }
+
+    // Already-accepted items skip the pre-filter; reclassifying keeps their cluster
+    const { failed } = await classifyAndStore(feedback, rules, db, config, classifier, null, null);
+    await db.setJobItemStatus(jobId, id, failed ? "failed" : "done", failed?.error ?? null);
+    message.ack();
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    console.error(`Failed to reclassify ${id} for job ${jobId} (attempt ${message.attempts}):`, e);
+    if (message.attempts >= MAX_CLASSIFICATION_ATTEMPTS) {
+      if (claimed) await db.setJobItemStatus(jobId, id, "failed", error);
+      message.ack();
+    } else {
+      // Released so the retried delivery can claim it again
+      if (claimed) await db.setJobItemStatus(jobId, id, "pending", error);
+      message.retry({ delaySeconds: retryDelaySeconds(message.attempts) });
+    }
+  }
+}
+
+// Classify one example of a queued evaluation run; the last example to finish stores the run's metrics.
+// Messages of runs that are no longer running are dropped.
+async function processEvaluationMessage(
+  message: Message<ClassificationMessage>,
+  { run_id: runId, position }: { run_id: number; position: number },
+  rules: ClassificationRules,
+  db: FeedbackDB,
+  classifier: FeedbackClassifier
+): Promise<void> {
+  let example: LabeledExample | null = null;
+  try {
+    const run = await db.getEvaluationRun(runId);
+    if (run?.status !== "running") {
+      message.ack();
+      return;
+    }
+    // Claimed atomically: a duplicate delivery of the example skips it
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+    example = await db.claimEvaluationExample(runId, position, staleBefore);
+    if (!example) {
+      message.ack();
+      return;
+    }
+
+    await db.setEvaluationExampleResult(runId, position, await evaluateExample(example, classifier, rules, run.prompt_version));
+    await completeEvaluationRun(db, runId, rules);
+    message.ack();
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    console.error(`Failed to evaluate example ${position} of run ${runId} (attempt ${message.attempts}):`, e);
+    if (message.attempts >= MAX_CLASSIFICATION_ATTEMPTS) {
+      if (example) {
+        await db.setEvaluationExampleResult(runId, position, { id: example.feedback.id, expected: example.expected, error });
+        await completeEvaluationRun(db, runId, rules);
+      }
+      message.ack();
+    } else {
+      // Released so the retried delivery can claim it again
+      if (example) await db.setEvaluationExampleResult(runId, position, null);
+      message.retry({ delaySeconds: retryDelaySeconds(message.attempts) });
+    }
+  }
+}
+
+// Store the metrics of a queued evaluation run once every example has a result
+async function completeEvaluationRun(db: FeedbackDB, runId: number, rules: ClassificationRules): Promise<void> {
+  const results = await db.getEvaluationExampleResults(runId);
+  if (!results) return;
+  await db.completeEvaluationRun(runId, {
+    model: answeringModels(results),
+    metrics: computeMetrics(results, availableRoutes(rules.routing_rules, rules.default_route)),
+    results,
+  });
+}
+
+// Create a reclassification job for the items the filter selects and queue them
+async function startReclassificationJob(
+  env: Env,
+  db: FeedbackDB,
+  filter: ReclassificationFilter,
+  createdBy: string | null
+): Promise<ReclassificationJob> {
+  const job = await db.createReclassificationJob(crypto.randomUUID(), filter, createdBy);
+  await enqueueJob(env.CLASSIFY_QUEUE, db, job.id);
+  return job;
+}
+
+// Classify a thread root together with its replies, then store classification, signals,
+// sentiment trajectory point, cache entry and cluster assignment
+// Items the pre-filter marks as spam/off-topic are stored as such and skip the classifier
+// Items whose model output stays invalid are recorded as classification_failed
+async function classifyAndStore(
+  feedback: Feedback,
+  rules: ClassificationRules,
+  db: FeedbackDB,
+  config: ConfigStore,
+  classifier: FeedbackClassifier,
+  clusterer: FeedbackClusterer | null,
+  prefilter: FeedbackPrefilter | null
+): Promise<{
+  classification: Classification | null;
+  cluster: ClusterAssignment | null;
+  filtered: FilterVerdict | null;
+  failed?: { error: string; attempts: number };
+}> {
+  const filtered = prefilter && !feedback.filter_restored ? await prefilter.check(feedback) : null;
+  if (filtered) {
+    await db.setFilterStatus(feedback.id, filtered);
+    return { classification: null, cluster: null, filtered };
+  }
+
+  // Keyword lists and the prompt are English: classify translations, originals stay stored
+  const replies = await db.getThreadReplies(feedback.id);
+  const [english, englishReplies] = await Promise.all([
+    toEnglish(feedback, classifier, db),
+    Promise.all(replies.map((reply) => toEnglish(reply, classifier, db))),
+  ]);
+  let result: { classification: Classification; signals: Signal[]; taxonomy_candidates: Signal[] };
+  try {
+    result = await classifier.classifyFeedback(english, rules, englishReplies);
+  } catch (e) {
+    // Invalid output after repair retries: record the failure instead of storing made-up scores
+    if (!(e instanceof StructuredOutputError)) throw e;
+    await db.recordClassificationFailure(feedback.id, e.errors.join("; "), e.raw, e.attempts);
+    return { classification: null, cluster: null, filtered: null, failed: { error: e.message, attempts: e.attempts } };
+  }
+  const { signals } = result;
+
+  // Human overrides win over the model; an unlocked route follows the overridden scores
+  const locks = await db.getClassificationLocks(feedback.id);
+  const classification = applyLocks(result.classification, locks, (scores) =>
+    routeFor(rules.routing_rules, { ...scores, signals }, rules.default_route)
+  );
+
+  await db.storeClassification(classification);
+  if (signals.length > 0) {
+    await db.storeSignals(signals);
+  }
+  await db.recordTaxonomyCandidates(result.taxonomy_candidates);
+  await db.recordThreadSentiment(classification, replies.length);
+  await config.cacheClassification(feedback.id, classification);
+
+  const cluster = await clusterFeedback(clusterer, english);
+  return { classification, cluster, filtered: null };
+}
+
+// Source API tokens by secret name, for the sources' auth_secret; other secrets (webhook,
+// PII access) are never handed to a configurable endpoint
+function sourceTokens(env: Env): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(env).filter(
+      (entry): entry is [string, string] => entry[0].startsWith(SOURCE_TOKEN_PREFIX) && typeof entry[1] === "string"
+    )
+  );
+}
+
+// Build the spam/off-topic pre-filter (null when filtering is disabled)
+async function createPrefilter(
+  config: ConfigStore,
+  classifier: FeedbackClassifier
+): Promise<FeedbackPrefilter | null> {
+  const settings = await config.getFilterSettings();
+  return settings.enabled ? new FeedbackPrefilter(settings, classifier) : null;
+}
+
+// Build the near-duplicate clusterer (null when clustering is disabled)
+async function createClusterer(
+  env: Env,
+  db: FeedbackDB,
+  config: ConfigStore,
+  classifier: FeedbackClassifier
+): Promise<FeedbackClusterer | null> {
+  const settings = await config.getClusterSettings();
+  if (!settings.enabled) return null;
+
+  // Vectors are compared per model, keyed by the primary embedding model
+  const { embedding } = await config.getModelSettings();
+  return new FeedbackClusterer(
+    classifier,
+    new D1VectorIndex(env.DB, embedding.models[0]),
+    db,
+    settings
+  );
+}
+
+// Assign feedback to a near-duplicate cluster; embedding failures never block classification
+async function clusterFeedback(
+  clusterer: FeedbackClusterer | null,
+  feedback: Feedback
+): Promise<ClusterAssignment | null> {
+  if (!clusterer) return null;
+
+  try {
+    return await clusterer.assign(feedback);
+  } catch (e) {
+    console.error(`Failed to cluster ${feedback.id}:`, e);
+    return null;
+  }
+}
+
 // Sample data from the cloudflare/cloudflared repository
 function getSampleCloudflaredData(): Feedback[] {
   return [
@@ -0,0 +1,67 @@
+// Bulk reclassification jobs: scope filters and job/item state
+
+import { FieldError, normalizeTimestamp } from "./validation";
+
+// Items a job covers: thread roots not excluded by the pre-filter, narrowed by every given field
+export interface ReclassificationFilter {
+  source?: string;
+  since?: string; // created_at lower bound (inclusive, UTC ISO 8601 once normalized)
+  until?: string; // created_at upper bound (inclusive, UTC ISO 8601 once normalized; a date covers the whole day)
+  route?: string; // Current route contains this route
+  model?: string; // Current classification's model
+  prompt_version?: string; // Current classification's prompt version
+}
+
+export type ReclassificationJobStatus = "running" | "completed" | "cancelled";
+
+// Pending items are the checkpoint: resuming queues only those again
+// A delivery claims an item (processing) before classifying it so a duplicate delivery skips it
+export type ReclassificationItemStatus = "pending" | "processing" | "done" | "failed";
+
+export interface ReclassificationJob {
+  id: string;
+  status: ReclassificationJobStatus;
+  filter: ReclassificationFilter;
+  total: number;
+  processed: number; // done + failed
+  failed: number;
+  remaining: number; // Still pending or processing
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+const FILTER_FIELDS = ["source", "since", "until", "route", "model", "prompt_version"] as const;
+
+// Field errors for a job filter, e.g. "filter.since"
+export function validateJobFilter(input: unknown, path: string = "filter"): FieldError[] {
+  if (input === undefined) return [];
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return [{ field: path, message: "must be an object" }];
+  }
+
+  const errors: FieldError[] = [];
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!(FILTER_FIELDS as readonly string[]).includes(key)) {
+      errors.push({ field: `${path}.${key}`, message: `must be one of ${FILTER_FIELDS.join(", ")}` });
+    } else if (typeof value !== "string" || value.trim() === "") {
+      errors.push({ field: `${path}.${key}`, message: "must be a non-empty string" });
+    } else if ((key === "since" || key === "until") && normalizeTimestamp(value) === null) {
+      errors.push({ field: `${path}.${key}`, message: "must be an ISO 8601 date" });
+    }
+  }
+  return errors;
+}
+
+// Bounds as UTC ISO 8601 instants, the format feedback.created_at is stored in, so they compare as
+// strings; a date-only `until` becomes the last instant of that day
+export function normalizeJobFilter(filter: ReclassificationFilter): ReclassificationFilter {
+  const normalized = { ...filter };
+  if (filter.since) normalized.since = normalizeTimestamp(filter.since)!;
+  if (filter.until) {
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(filter.until.trim());
+    normalized.until = normalizeTimestamp(dateOnly ? `${filter.until.trim()}T23:59:59.999Z` : filter.until)!;
+  }
+  return normalized;
+}
@@ -1,11 +1,14 @@
 // KV storage for configuration, caching, and rules
 
+import { PromptAssignment, PromptTask, PromptTemplate } from "./prompts";
+import { DEFAULT_ROUTE, DEFAULT_ROUTING_RULES, fromLegacyRules, LegacyRoutingRules, RouteRule } from "./routing";
+import { DEFAULT_SCORE_POLICIES, ScorePolicy } from "./scoring";
+import { DEFAULT_SIGNAL_TAXONOMY, SignalTaxonomy } from "./taxonomy";
+import { RejectedFeedback } from "./validation";
+
 export interface ClassificationRules {
-  routing_rules: {
-    immediate_engineering: { urgency_min: number; impact_min: number };
-    quick_win_backlog: { urgency_max: number; actionability_min: number };
-    trust_risk: { sentiment_max: number; impact_min: number };
-  };
+  routing_rules: RouteRule[]; // Evaluated in priority order; every matching route is assigned
+  default_route: string; // Route for items no rule matches
   urgency_keywords: {
     critical: string[];
     high: string[];
@@ -16,6 +19,9 @@ export interface ClassificationRules {
     production: string[];
     single_user: string[];
   };
+  score_policies: ScorePolicy[]; // Floors/ceilings enforced on the model's scores, in order
+  review_confidence_threshold: number; // Classifications below this confidence need human review (0 disables)
+  signal_taxonomy: SignalTaxonomy; // Allowed feature_area/user_segment/issue_category values
 }
 
 export interface SourceConfig {
@@ -24,23 +30,113 @@ export interface SourceConfig {
   enabled: boolean;
   api_endpoint?: string;
   polling_interval_minutes?: number;
+  auth_secret?: string; // Name of the Worker secret holding the source API token (SOURCE_TOKEN_*)
+}
+
+export interface SourceStatus {
+  last_polled_at: string;
+  last_success_at?: string;
+  last_error?: string;
+  items_ingested: number;
+  items_rejected: number; // Fetched items that failed validation and were skipped
+  rejected?: RejectedFeedback[];
+  consecutive_failures: number;
+}
+
+export interface ClusterSettings {
+  enabled: boolean;
+  similarity_threshold: number; // Cosine similarity needed to count as the same report
+}
+
+export interface FilterSettings {
+  enabled: boolean;
+  max_links: number; // More links than this is treated as spam
+  max_link_density: number; // Links per word above this is treated as spam
+  min_unique_word_ratio: number; // Below this the text is mostly repetition
+  bot_authors: string[]; // Author names or globs ("*[bot]") that are always spam
+  relevance_check_sources: string[]; // Sources that get the small-model relevance check
 }
 
+export interface RedactionPattern {
+  name: string; // Placeholder type, e.g. "account_id" -> [ACCOUNT_ID_1]
+  pattern: string; // JavaScript regular expression source
+  flags?: string;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  detectors: Record<string, boolean>; // Built-in detectors: email, ipv4, ipv6, cloudflare_token, uuid, hostname
+  custom_patterns: RedactionPattern[];
+  store_original: boolean; // Keep unredacted text in the access-restricted feedback_originals table
+}
+
+export interface AlertDestination {
+  name: string;
+  type: "webhook" | "slack"; // JSON POST of the alert, or a Slack incoming-webhook message
+  url: string;
+}
+
+export interface AlertSettings {
+  enabled: boolean;
+  window_hours: number; // Recent window checked for spikes
+  baseline_windows: number; // Earlier windows of the same length the baseline is computed over
+  z_threshold: number; // Standard deviations above the baseline mean that count as a spike
+  min_count: number; // Items needed in the window (keeps tiny counts from alerting)
+  cooldown_hours: number; // No new alert for the same signal/route within this time
+  signal_types: string[]; // Signal types watched (routes are always watched)
+  top_items: number; // Contributing items stored with each alert
+  destinations: AlertDestination[];
+}
+
+export type AiTask = "classification" | "summary" | "themes" | "relevance" | "translation" | "embedding";
+
+export interface TaskModelConfig {
+  models: string[]; // Tried in order: the first is primary, the rest are fallbacks on error or timeout
+  timeout_ms: number; // Per attempt
+}
+
+export type ModelSettings = Record<AiTask, TaskModelConfig>;
+
+export const AI_TASKS: AiTask[] = ["classification", "summary", "themes", "relevance", "translation", "embedding"];
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  classification: { models: ["@cf/meta/llama-3.1-70b-instruct", "@cf/meta/llama-3.1-8b-instruct"], timeout_ms: 30000 },
+  summary: { models: ["@cf/meta/llama-3.1-70b-instruct", "@cf/meta/llama-3.1-8b-instruct"], timeout_ms: 60000 },
+  themes: { models: ["@cf/meta/llama-3.1-8b-instruct"], timeout_ms: 20000 },
+  relevance: { models: ["@cf/meta/llama-3.2-3b-instruct"], timeout_ms: 10000 },
+  translation: { models: ["@cf/meta/m2m100-1.2b"], timeout_ms: 20000 },
+  embedding: { models: ["@cf/baai/bge-base-en-v1.5"], timeout_ms: 10000 },
+};
+
+export const DEFAULT_REVIEW_CONFIDENCE_THRESHOLD = 0.5;
+
 export class ConfigStore {
   constructor(private kv: KVNamespace) {}
 
   // Get classification rules
   async getClassificationRules(): Promise<ClassificationRules> {
-    const cached = await this.kv.get("classification_rules", "json");
-    if (cached) return cached as ClassificationRules;
+    const cached = await this.kv.get<any>("classification_rules", "json");
+    if (cached) {
+      // Rules saved before routing became declarative hold per-route thresholds
+      return {
+        ...cached,
+        routing_rules: Array.isArray(cached.routing_rules)
+          ? cached.routing_rules
+          : fromLegacyRules((cached.routing_rules || {}) as LegacyRoutingRules),
+        default_route: cached.default_route || DEFAULT_ROUTE,
+        score_policies: cached.score_policies ?? DEFAULT_SCORE_POLICIES,
+        review_confidence_threshold: cached.review_confidence_threshold ?? DEFAULT_REVIEW_CONFIDENCE_THRESHOLD,
+        signal_taxonomy: { ...DEFAULT_SIGNAL_TAXONOMY, ...cached.signal_taxonomy },
+      };
+    }
 
     // Default rules based on our PM framework
     const defaultRules: ClassificationRules = {
-      routing_rules: {
-        immediate_engineering: { urgency_min: 4, impact_min: 4 },
-        quick_win_backlog: { urgency_max: 2, actionability_min: 4 },
-        trust_risk: { sentiment_max: -1, impact_min: 3 },
-      },
+      routing_rules: DEFAULT_ROUTING_RULES,
+      default_route: DEFAULT_ROUTE,
+      score_policies: DEFAULT_SCORE_POLICIES,
+      review_confidence_threshold: DEFAULT_REVIEW_CONFIDENCE_THRESHOLD,
+      signal_taxonomy: DEFAULT_SIGNAL_TAXONOMY,
       urgency_keywords: {
         critical: [
           "security",
@@ -143,6 +239,11 @@ export class ConfigStore {
         type: "zendesk",
         enabled: false,
       },
+      {
+        name: "x",
+        type: "custom",
+        enabled: false,
+      },
     ];
 
     await this.kv.put("source_configs", JSON.stringify(defaultConfigs));
@@ -154,6 +255,99 @@ export class ConfigStore {
     await this.kv.put("source_configs", JSON.stringify(configs));
   }
 
+  // Get near-duplicate clustering settings
+  async getClusterSettings(): Promise<ClusterSettings> {
+    const settings = await this.kv.get("cluster_settings", "json");
+    return {
+      enabled: true,
+      similarity_threshold: 0.88,
+      ...(settings as Partial<ClusterSettings> | null),
+    };
+  }
+
+  // Update near-duplicate clustering settings
+  async updateClusterSettings(settings: Partial<ClusterSettings>): Promise<void> {
+    const current = await this.getClusterSettings();
+    await this.kv.put("cluster_settings", JSON.stringify({ ...current, ...settings }));
+  }
+
+  // Get spam/off-topic pre-filter settings
+  async getFilterSettings(): Promise<FilterSettings> {
+    const settings = await this.kv.get("filter_settings", "json");
+    return {
+      enabled: true,
+      max_links: 5,
+      max_link_density: 0.2,
+      min_unique_word_ratio: 0.3,
+      bot_authors: ["*[bot]", "dependabot", "github-actions"],
+      relevance_check_sources: ["x", "discord"],
+      ...(settings as Partial<FilterSettings> | null),
+    };
+  }
+
+  // Update spam/off-topic pre-filter settings
+  async updateFilterSettings(settings: Partial<FilterSettings>): Promise<void> {
+    const current = await this.getFilterSettings();
+    await this.kv.put("filter_settings", JSON.stringify({ ...current, ...settings }));
+  }
+
+  // Get PII redaction settings
+  async getRedactionSettings(): Promise<RedactionSettings> {
+    const settings = await this.kv.get("redaction_settings", "json");
+    return {
+      enabled: true,
+      detectors: { email: true, ipv4: true, ipv6: true, cloudflare_token: true, uuid: true, hostname: false },
+      custom_patterns: [],
+      store_original: false,
+      ...(settings as Partial<RedactionSettings> | null),
+    };
+  }
+
+  // Update PII redaction settings
+  async updateRedactionSettings(settings: Partial<RedactionSettings>): Promise<void> {
+    const current = await this.getRedactionSettings();
+    await this.kv.put("redaction_settings", JSON.stringify({ ...current, ...settings }));
+  }
+
+  // Get spike detection and alert delivery settings
+  async getAlertSettings(): Promise<AlertSettings> {
+    const settings = await this.kv.get("alert_settings", "json");
+    return {
+      enabled: true,
+      window_hours: 24,
+      baseline_windows: 14,
+      z_threshold: 3,
+      min_count: 5,
+      cooldown_hours: 24,
+      signal_types: ["feature_area", "issue_category", "urgency_keyword"],
+      top_items: 5,
+      destinations: [],
+      ...(settings as Partial<AlertSettings> | null),
+    };
+  }
+
+  // Update spike detection and alert delivery settings
+  async updateAlertSettings(settings: Partial<AlertSettings>): Promise<void> {
+    const current = await this.getAlertSettings();
+    await this.kv.put("alert_settings", JSON.stringify({ ...current, ...settings }));
+  }
+
+  // Get per-task model selection (stored tasks are merged over the defaults)
+  // Embedding fallbacks must produce vectors of the same dimensions as the primary
+  async getModelSettings(): Promise<ModelSettings> {
+    const settings = await this.kv.get("model_settings", "json");
+    return {
+      ...DEFAULT_MODEL_SETTINGS,
+      ...(settings as Partial<ModelSettings> | null),
+    };
+  }
+
+  // Update model selection for some tasks
+  async updateModelSettings(settings: Partial<ModelSettings>): Promise<void> {
+    const current = await this.getModelSettings();
+    await this.kv.put("model_settings", JSON.stringify({ ...current, ...settings }));
+  }
+
   // Cache classification result for deduplication (short TTL for demo)
   async cacheClassification(
     feedbackId: string,
@@ -170,18 +364,40 @@ export class ConfigStore {
     await this.kv.delete(`classification:${feedbackId}`);
   }
 
+  // Clear cached classifications for feedback whose content changed
+  async clearClassificationCaches(feedbackIds: string[]): Promise<void> {
+    await Promise.all(feedbackIds.map((id) => this.clearClassificationCache(id)));
+  }
+
   // Get cached classification
   async getCachedClassification(feedbackId: string): Promise<any | null> {
     return await this.kv.get(`classification:${feedbackId}`, "json");
   }
 
-  // Store prompt templates
-  async getPromptTemplate(templateName: string): Promise<string | null> {
-    return await this.kv.get(`prompt:${templateName}`);
+  // Versioned prompt templates (immutable once stored, so outcomes per version stay comparable)
+  async getPromptTemplate(task: PromptTask, version: string): Promise<PromptTemplate | null> {
+    return await this.kv.get(`prompt:${task}:${version}`, "json");
+  }
+
+  async setPromptTemplate(template: PromptTemplate): Promise<void> {
+    await this.kv.put(`prompt:${template.task}:${template.version}`, JSON.stringify(template));
+  }
+
+  async listPromptTemplates(task: PromptTask): Promise<PromptTemplate[]> {
+    const keys = await this.kv.list({ prefix: `prompt:${task}:` });
+    const templates = await Promise.all(
+      keys.keys.map((key) => this.kv.get<PromptTemplate>(key.name, "json"))
+    );
+    return templates.filter((t): t is PromptTemplate => t !== null);
+  }
+
+  // Which prompt version(s) a task uses, with the A/B split
+  async getPromptAssignment(task: PromptTask): Promise<PromptAssignment | null> {
+    return await this.kv.get(`prompt_assignment:${task}`, "json");
   }
 
-  async setPromptTemplate(templateName: string, template: string): Promise<void> {
-    await this.kv.put(`prompt:${templateName}`, template);
+  async setPromptAssignment(task: PromptTask, assignment: PromptAssignment): Promise<void> {
+    await this.kv.put(`prompt_assignment:${task}`, JSON.stringify(assignment));
   }
 
   // Rate limiting for API calls
@@ -225,4 +441,25 @@ export class ConfigStore {
   async setLastSyncTime(source: string, timestamp: string): Promise<void> {
     await this.kv.put(`sync:${source}`, timestamp);
   }
+
+  // Polling status per source (last attempt, last success, failures)
+  async getSourceStatus(source: string): Promise<SourceStatus | null> {
+    return await this.kv.get(`source_status:${source}`, "json");
+  }
+
+  async setSourceStatus(source: string, status: SourceStatus): Promise<void> {
+    await this.kv.put(`source_status:${source}`, JSON.stringify(status));
+  }
+}
+
+// Short SHA-256 of the rules (key order independent), recorded with each classification
+export async function rulesHash(rules: ClassificationRules): Promise<string> {
+  const canonical = (value: unknown): unknown =>
+    Array.isArray(value)
+      ? value.map(canonical)
+      : value && typeof value === "object"
+        ? Object.fromEntries(Object.keys(value).sort().map((k) => [k, canonical((value as Record<string, unknown>)[k])]))
+        : value;
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(canonical(rules))));
+  return [...new Uint8Array(digest)].slice(0, 6).map((b) => b.toString(16).padStart(2, "0")).join("");
 }
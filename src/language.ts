@@ -0,0 +1,86 @@
+// Language identification and translation of non-English feedback before classification
+
+import { Feedback, FeedbackDB } from "./db";
+
+export interface Translator {
+  translate(text: string, sourceLang: string, targetLang?: string): Promise<string>;
+}
+
+// Languages whose text classification can use as-is ("und" = too short or mixed to tell)
+const UNTRANSLATED = new Set(["en", "und"]);
+
+// Scripts that identify a language on their own, with the share of letters needed
+// (kana is checked first and at a low share, since Japanese text also uses Han characters)
+const SCRIPTS: [RegExp, string, number?][] = [
+  [/[\u3040-\u30ff]/g, "ja", 0.05],
+  [/[\uac00-\ud7af]/g, "ko"],
+  [/[\u4e00-\u9fff]/g, "zh"],
+  [/[\u0400-\u04ff]/g, "ru"],
+  [/[\u0600-\u06ff]/g, "ar"],
+  [/[\u0590-\u05ff]/g, "he"],
+  [/[\u0370-\u03ff]/g, "el"],
+  [/[\u0e00-\u0e7f]/g, "th"],
+  [/[\u0900-\u097f]/g, "hi"],
+];
+
+// Common function words for Latin-script languages
+const STOPWORDS: Record<string, Set<string>> = {
+  en: new Set(["the", "and", "is", "it", "to", "of", "not", "with", "this", "that", "when", "for", "on", "my", "are", "was", "but", "have", "after", "does"]),
+  es: new Set(["el", "los", "las", "que", "y", "no", "en", "con", "por", "para", "es", "una", "pero", "cuando", "funciona", "está", "del", "mi", "desde"]),
+  fr: new Set(["le", "les", "des", "et", "est", "pas", "ne", "une", "pour", "avec", "dans", "je", "ça", "quand", "fonctionne", "mon", "sur", "du", "plus"]),
+  de: new Set(["der", "die", "das", "und", "ist", "nicht", "ein", "eine", "mit", "ich", "zu", "auf", "wenn", "funktioniert", "bei", "den", "seit", "mein", "nach"]),
+  pt: new Set(["os", "as", "que", "e", "não", "em", "com", "para", "uma", "um", "é", "quando", "funciona", "mas", "do", "da", "meu", "depois", "está"]),
+  it: new Set(["il", "di", "che", "e", "non", "un", "una", "con", "per", "è", "quando", "funziona", "sono", "ma", "del", "della", "mio", "dopo", "nel"]),
+  nl: new Set(["de", "het", "een", "en", "is", "niet", "van", "met", "ik", "op", "voor", "wanneer", "werkt", "maar", "dat", "mijn", "na", "bij"]),
+};
+
+// Best-guess ISO 639-1 code for a piece of text, "und" when undetermined
+export function detectLanguage(text: string): string {
+  // Code, URLs and log lines are mostly English tokens regardless of the writer's language
+  const prose = text
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`[^`]*`/g, " ")
+    .replace(/https?:\/\/\S+/g, " ");
+
+  const letters = prose.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return "und";
+
+  for (const [pattern, language, share = 0.2] of SCRIPTS) {
+    const count = prose.match(pattern)?.length ?? 0;
+    if (count / letters >= share) return language;
+  }
+
+  const words = prose.toLowerCase().match(/\p{L}+/gu) ?? [];
+  let best = "und";
+  let bestHits = 1; // Need at least two function-word hits to call it
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    const hits = words.filter((w) => stopwords.has(w)).length;
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  }
+
+  return best;
+}
+
+export function needsTranslation(feedback: Feedback): boolean {
+  return !!feedback.language && !UNTRANSLATED.has(feedback.language);
+}
+
+// English view of a feedback item for classification; translations are stored so they're made once per revision
+export async function toEnglish(feedback: Feedback, translator: Translator, db: FeedbackDB): Promise<Feedback> {
+  if (!needsTranslation(feedback)) return feedback;
+
+  let title = feedback.translated_title;
+  let content = feedback.translated_content;
+  if (!title || !content) {
+    [title, content] = await Promise.all([
+      translator.translate(feedback.title, feedback.language!),
+      translator.translate(feedback.content, feedback.language!),
+    ]);
+    await db.storeTranslation(feedback.id, title, content);
+  }
+
+  return { ...feedback, title, content, translated_title: title, translated_content: content };
+}
@@ -0,0 +1,120 @@
+// Per-task model selection with ordered fallbacks, timeouts and usage accounting
+
+import { AiTask, ConfigStore, DEFAULT_MODEL_SETTINGS, ModelSettings } from "./kv";
+
+export type CallOutcome = "ok" | "error" | "timeout";
+
+// One model attempt, as logged to ai_usage
+export interface AiCallRecord {
+  task: AiTask;
+  model: string;
+  outcome: CallOutcome;
+  latency_ms: number;
+  input_chars: number;
+  output_chars: number;
+  input_tokens?: number; // Reported by text-generation models that return usage
+  output_tokens?: number;
+  error?: string;
+}
+
+export interface AiUsageLog {
+  logAiCall(record: AiCallRecord): Promise<void>;
+}
+
+// What each task sends to the models in its chain (Workers AI input types)
+export interface AiTaskInputs {
+  classification: AiTextGenerationInput;
+  summary: AiTextGenerationInput;
+  themes: AiTextGenerationInput;
+  relevance: AiTextGenerationInput;
+  translation: AiTranslationInput;
+  embedding: AiTextEmbeddingsInput;
+}
+
+export class ModelTimeoutError extends Error {
+  constructor(public model: string, public timeoutMs: number) {
+    super(`${model} timed out after ${timeoutMs}ms`);
+    this.name = "ModelTimeoutError";
+  }
+}
+
+export class ModelRunner {
+  private settings?: Promise<ModelSettings>;
+
+  // Without a config store the default model settings are used; without a log nothing is recorded
+  constructor(private ai: Ai, private config?: ConfigStore, private usage?: AiUsageLog) {}
+
+  // Run a task on its model chain in order. Throws the last error once every model has failed.
+  async run<T extends AiTask>(task: T, input: AiTaskInputs[T]): Promise<{ response: any; model: string }> {
+    const { models, timeout_ms } = (await this.getSettings())[task];
+    if (models.length === 0) throw new Error(`No models configured for ${task}`);
+
+    let lastError: unknown;
+    for (const model of models) {
+      const started = Date.now();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      try {
+        const response = await Promise.race([
+          this.ai.run(model as keyof AiModels, input),
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new ModelTimeoutError(model, timeout_ms)), timeout_ms);
+          }),
+        ]);
+        await this.log({ task, model, outcome: "ok", latency_ms: Date.now() - started, ...sizes(input, response) });
+        return { response, model };
+      } catch (e) {
+        lastError = e;
+        await this.log({
+          task,
+          model,
+          outcome: e instanceof ModelTimeoutError ? "timeout" : "error",
+          latency_ms: Date.now() - started,
+          ...sizes(input, null),
+          error: e instanceof Error ? e.message : String(e),
+        });
+        console.warn(`${task} call to ${model} failed:`, e);
+      } finally {
+        if (timer !== undefined) clearTimeout(timer);
+      }
+    }
+    throw lastError;
+  }
+
+  // Primary model for a task (recorded on evaluation runs)
+  async primaryModel(task: AiTask): Promise<string> {
+    return (await this.getSettings())[task].models[0];
+  }
+
+  private getSettings(): Promise<ModelSettings> {
+    this.settings ??= this.config ? this.config.getModelSettings() : Promise.resolve(DEFAULT_MODEL_SETTINGS);
+    return this.settings;
+  }
+
+  // Usage logging never fails the AI call
+  private async log(record: AiCallRecord): Promise<void> {
+    if (!this.usage) return;
+    try {
+      await this.usage.logAiCall(record);
+    } catch (e) {
+      console.error("Failed to log AI usage:", e);
+    }
+  }
+}
+
+// Character counts of the prompt/text sent and the output received, plus token usage when reported
+function sizes(input: AiTaskInputs[AiTask], response: any): Pick<AiCallRecord, "input_chars" | "output_chars" | "input_tokens" | "output_tokens"> {
+  const chars = (value: unknown): number => {
+    if (typeof value === "string") return value.length;
+    if (Array.isArray(value)) return value.reduce((sum: number, v) => sum + chars(v), 0);
+    if (value && typeof value === "object" && "content" in value) return chars((value as { content: unknown }).content);
+    return 0;
+  };
+  const output = response?.response ?? response?.translated_text ?? response?.data;
+
+  return {
+    input_chars: chars("text" in input ? input.text : input.messages ?? input.prompt),
+    output_chars: typeof output === "string" ? output.length : output ? JSON.stringify(output).length : 0,
+    input_tokens: response?.usage?.prompt_tokens,
+    output_tokens: response?.usage?.completion_tokens,
+  };
+}
@@ -0,0 +1,130 @@
+// Human overrides of AI classifications: validation and locking against reclassification
+
+import { Classification, Feedback } from "./db";
+import { LabeledExample } from "./evaluation";
+import { DEFAULT_ROUTE } from "./routing";
+import { FieldError } from "./validation";
+
+export const OVERRIDE_FIELDS = ["urgency", "sentiment", "impact", "actionability", "route"] as const;
+
+export type OverrideField = (typeof OVERRIDE_FIELDS)[number];
+export type ClassificationLocks = Partial<Pick<Classification, OverrideField>>;
+
+export interface OverrideRequest {
+  changes: ClassificationLocks;
+  reason: string;
+  changed_by?: string;
+}
+
+// Allowed score ranges, matching the CHECK constraints in schema.sql
+export const SCORE_RANGES: Record<Exclude<OverrideField, "route">, [number, number]> = {
+  urgency: [1, 5],
+  sentiment: [-2, 2],
+  impact: [1, 5],
+  actionability: [1, 5],
+};
+
+// routes: the routes the current rules can assign (see availableRoutes)
+export function validateOverride(
+  input: unknown,
+  routes: string[]
+): { ok: true; value: OverrideRequest } | { ok: false; errors: FieldError[] } {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, errors: [{ field: "", message: "Expected an override object" }] };
+  }
+
+  const record = input as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const changes: ClassificationLocks = {};
+
+  for (const [field, [min, max]] of Object.entries(SCORE_RANGES) as [keyof typeof SCORE_RANGES, [number, number]][]) {
+    const value = record[field];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      errors.push({ field, message: `must be an integer from ${min} to ${max}` });
+    } else {
+      changes[field] = value;
+    }
+  }
+
+  if (record.route !== undefined) {
+    const requested = typeof record.route === "string" ? record.route.split(",").map((r) => r.trim()) : [];
+    if (requested.length === 0 || requested.some((r) => !routes.includes(r))) {
+      errors.push({ field: "route", message: `must be one or more of ${routes.join(", ")} (comma-separated)` });
+    } else {
+      changes.route = requested.join(",");
+    }
+  }
+
+  if (typeof record.reason !== "string" || record.reason.trim() === "") {
+    errors.push({ field: "reason", message: "is required" });
+  }
+
+  if (errors.length === 0 && Object.keys(changes).length === 0) {
+    errors.push({ field: "", message: `Provide at least one of ${OVERRIDE_FIELDS.join(", ")}` });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      changes,
+      reason: (record.reason as string).trim(),
+      changed_by: typeof record.changed_by === "string" && record.changed_by.trim() ? record.changed_by.trim() : undefined,
+    },
+  };
+}
+
+// Apply locked fields over a (re)classification; an unlocked route follows the resulting scores
+export function applyLocks(
+  classification: Classification,
+  locks: ClassificationLocks,
+  route: (scores: Classification) => string
+): Classification {
+  if (Object.keys(locks).length === 0) return classification;
+
+  const { route: lockedRoute, ...lockedScores } = locks;
+  const merged = { ...classification, ...lockedScores };
+  return {
+    ...merged,
+    route: lockedRoute ?? (Object.keys(lockedScores).length > 0 ? route(merged) : classification.route),
+  };
+}
+
+// Corrected classification as a labeled example (few-shot prompts, evaluation)
+export function labeledExampleFromOverride(feedback: Feedback, classification: Classification): LabeledExample {
+  return {
+    feedback,
+    expected: {
+      classification: {
+        urgency: classification.urgency,
+        sentiment: classification.sentiment,
+        impact: classification.impact,
+        actionability: classification.actionability,
+      },
+      routes: (classification.route || DEFAULT_ROUTE).split(",").map((r) => r.trim()),
+    },
+  };
+}
+
+// Corrected classifications in the generated-questions dataset format accepted by POST /api/evaluate
+// (routing flags cover the given routes plus any the corrections carry)
+export function overridesDataset(corrected: { feedback: Feedback; classification: Classification }[], routes: string[]) {
+  return {
+    hypothetical_issues: corrected.map(({ feedback, classification }) => {
+      const { expected } = labeledExampleFromOverride(feedback, classification);
+      return {
+        id: feedback.id,
+        title: feedback.translated_title || feedback.title,
+        label: feedback.label,
+        comment: feedback.translated_content || feedback.content,
+        classification: expected.classification,
+        routing: Object.fromEntries(
+          [...new Set([...routes, ...expected.routes])].map((route) => [route, expected.routes.includes(route)])
+        ),
+        archetype: "human_override",
+      };
+    }),
+  };
+}
@@ -0,0 +1,92 @@
+// Queue-based classification pipeline: message format, retry backoff and enqueueing
+// (new items and reclassification jobs)
+
+import { FeedbackDB } from "./db";
+
+export interface ClassificationMessage {
+  feedback_id: string;
+  job_id?: string; // Set for reclassification jobs: classify again even if already classified
+  evaluation?: { run_id: number; position: number }; // Set for queued evaluation examples (feedback_id is the example's id)
+}
+
+export type ClassificationQueueStatus = "pending" | "classifying" | "done" | "failed";
+
+export const MAX_CLASSIFICATION_ATTEMPTS = 5; // Deliveries before an item is dead-lettered
+const BASE_RETRY_DELAY_SECONDS = 30;
+const MAX_RETRY_DELAY_SECONDS = 3600;
+const SEND_BATCH_SIZE = 100; // Queue sendBatch accepts at most 100 messages
+export const STALE_AFTER_MS = 60 * 60 * 1000; // Pending/classifying (processing) rows untouched this long are queued again
+
+// Exponential backoff before the next delivery: 30s, 60s, 120s, ... capped at an hour
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_SECONDS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_SECONDS);
+}
+
+// Queue the threads of the given feedback ids (replies resolve to their root; filtered items
+// are skipped) and mark them pending. Returns the queued root ids. If a send fails, the
+// roots not sent yet are unmarked before the error is rethrown.
+export async function enqueueClassification(
+  queue: Queue<ClassificationMessage>,
+  db: FeedbackDB,
+  feedbackIds: string[]
+): Promise<string[]> {
+  const roots = await db.getClassifiableRoots([...new Set(feedbackIds)]);
+  if (roots.length === 0) return [];
+
+  // Marked before sending so a fast consumer's status update is not overwritten
+  await db.markClassificationQueued(roots);
+  for (let i = 0; i < roots.length; i += SEND_BATCH_SIZE) {
+    const chunk = roots.slice(i, i + SEND_BATCH_SIZE);
+    try {
+      await queue.sendBatch(chunk.map((id) => ({ body: { feedback_id: id } })));
+    } catch (e) {
+      await db.unmarkClassificationQueued(roots.slice(i));
+      throw e;
+    }
+  }
+  return roots;
+}
+
+// Queue unclassified items that are not in the pipeline yet (polled or bulk-imported
+// feedback, and messages lost before they were delivered)
+export async function enqueueUnqueued(
+  queue: Queue<ClassificationMessage>,
+  db: FeedbackDB,
+  limit: number = 500
+): Promise<string[]> {
+  const staleBefore = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+  return enqueueClassification(queue, db, await db.getUnqueuedFeedbackIds(limit, staleBefore));
+}
+
+// Queue the pending items of a reclassification job (all of them when it starts, the rest
+// when it is resumed, including claims abandoned mid-classification). Returns the number of queued items.
+export async function enqueueJob(
+  queue: Queue<ClassificationMessage>,
+  db: FeedbackDB,
+  jobId: string
+): Promise<number> {
+  const staleBefore = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+  const ids = await db.getPendingJobItemIds(jobId, staleBefore);
+  for (let i = 0; i < ids.length; i += SEND_BATCH_SIZE) {
+    const chunk = ids.slice(i, i + SEND_BATCH_SIZE);
+    await queue.sendBatch(chunk.map((id) => ({ body: { feedback_id: id, job_id: jobId } })));
+  }
+  return ids.length;
+}
+
+// Queue the examples of an evaluation run that have no result yet. Returns the number of queued examples.
+export async function enqueueEvaluation(
+  queue: Queue<ClassificationMessage>,
+  db: FeedbackDB,
+  runId: number
+): Promise<number> {
+  const staleBefore = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+  const examples = await db.getPendingEvaluationExamples(runId, staleBefore);
+  for (let i = 0; i < examples.length; i += SEND_BATCH_SIZE) {
+    const chunk = examples.slice(i, i + SEND_BATCH_SIZE);
+    await queue.sendBatch(
+      chunk.map(({ position, id }) => ({ body: { feedback_id: id, evaluation: { run_id: runId, position } } }))
+    );
+  }
+  return examples.length;
+}
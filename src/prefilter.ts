@@ -0,0 +1,96 @@
+// Cheap spam / off-topic filter run ahead of the full classifier
+
+import { Feedback } from "./db";
+import { FilterSettings } from "./kv";
+import { FieldError } from "./validation";
+
+export type FilterStatus = "spam" | "off_topic";
+
+export interface FilterVerdict {
+  status: FilterStatus;
+  reason: string;
+}
+
+export interface RelevanceChecker {
+  checkRelevance(feedback: Feedback): Promise<{ relevant: boolean; reason: string }>;
+}
+
+// Heuristic checks only (no model call); null when nothing looks like spam
+export function heuristicVerdict(feedback: Feedback, settings: FilterSettings): FilterVerdict | null {
+  if (feedback.author && isBotAuthor(feedback.author, settings.bot_authors)) {
+    return { status: "spam", reason: `Known bot author "${feedback.author}"` };
+  }
+
+  const text = `${feedback.title}\n${feedback.content}`;
+  const links = text.match(/https?:\/\/\S+/g)?.length ?? 0;
+  const words = text.replace(/https?:\/\/\S+/g, " ").toLowerCase().match(/\p{L}[\p{L}\p{N}'-]*/gu) ?? [];
+
+  if (links > settings.max_links) {
+    return { status: "spam", reason: `${links} links (max ${settings.max_links})` };
+  }
+  if (links > 0 && links / Math.max(words.length, 1) > settings.max_link_density) {
+    return { status: "spam", reason: `Link density ${(links / Math.max(words.length, 1)).toFixed(2)} per word` };
+  }
+
+  // Short texts naturally repeat little, so only judge repetition on longer ones
+  if (words.length >= 20) {
+    const ratio = new Set(words).size / words.length;
+    if (ratio < settings.min_unique_word_ratio) {
+      return { status: "spam", reason: `Repeated text (${Math.round(ratio * 100)}% unique words)` };
+    }
+  }
+
+  return null;
+}
+
+export class FeedbackPrefilter {
+  constructor(private settings: FilterSettings, private relevance: RelevanceChecker) {}
+
+  // Heuristics first; the small-model relevance check only runs for configured sources
+  async check(feedback: Feedback): Promise<FilterVerdict | null> {
+    if (!this.settings.enabled) return null;
+
+    const verdict = heuristicVerdict(feedback, this.settings);
+    if (verdict) return verdict;
+
+    if (!this.settings.relevance_check_sources.includes(feedback.source)) return null;
+
+    try {
+      const { relevant, reason } = await this.relevance.checkRelevance(feedback);
+      return relevant ? null : { status: "off_topic", reason: reason || "Not about cloudflared" };
+    } catch (e) {
+      // A failed relevance check never keeps feedback from being classified
+      console.error(`Relevance check failed for ${feedback.id}:`, e);
+      return null;
+    }
+  }
+}
+
+// Field errors for pre-filter settings updates, e.g. "bot_authors"
+export function validateFilterSettings(input: Partial<FilterSettings>): FieldError[] {
+  const errors: FieldError[] = [];
+  if (input.enabled !== undefined && typeof input.enabled !== "boolean") {
+    errors.push({ field: "enabled", message: "must be a boolean" });
+  }
+  for (const field of ["max_links", "max_link_density", "min_unique_word_ratio"] as const) {
+    const value = input[field];
+    if (value !== undefined && (typeof value !== "number" || !Number.isFinite(value) || value < 0)) {
+      errors.push({ field, message: "must be a non-negative number" });
+    }
+  }
+  for (const field of ["bot_authors", "relevance_check_sources"] as const) {
+    const value = input[field];
+    if (value !== undefined && (!Array.isArray(value) || value.some((v) => typeof v !== "string"))) {
+      errors.push({ field, message: "must be an array of strings" });
+    }
+  }
+  return errors;
+}
+
+function isBotAuthor(author: string, patterns: string[]): boolean {
+  const name = author.toLowerCase();
+  return patterns.some((pattern) => {
+    const escaped = pattern.toLowerCase().replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*");
+    return new RegExp(`^${escaped}$`).test(name);
+  });
+}
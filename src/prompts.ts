@@ -0,0 +1,249 @@
+// Versioned prompt templates with {{variable}} interpolation and A/B version assignment
+
+import { FeedbackDB } from "./db";
+import { labeledExampleFromFeedback } from "./evaluation";
+import { ConfigStore } from "./kv";
+import { labeledExampleFromOverride } from "./overrides";
+
+export type PromptTask = "classification" | "summary";
+
+export interface PromptTemplate {
+  task: PromptTask;
+  version: string;
+  template: string;
+  description?: string;
+  few_shot_count?: number; // Examples rendered into {{few_shot_examples}} (classification only)
+  created_at: string;
+}
+
+// Traffic split between the active version and an optional candidate
+export interface PromptAssignment {
+  active: string;
+  candidate?: string;
+  candidate_share: number; // 0-1 share of items that get the candidate
+}
+
+export const PROMPT_TASKS: PromptTask[] = ["classification", "summary"];
+
+// Variables each task provides to its templates
+export const PROMPT_VARIABLES: Record<PromptTask, string[]> = {
+  classification: [
+    "feedback.id",
+    "feedback.source",
+    "feedback.title",
+    "feedback.label",
+    "feedback.content",
+    "feedback.author",
+    "language_note",
+    "thread_section",
+    "few_shot_examples",
+    "rules.urgency_keywords.critical",
+    "rules.urgency_keywords.high",
+    "rules.urgency_keywords.low",
+    "rules.impact_signals.enterprise",
+    "rules.impact_signals.production",
+    "rules.impact_signals.single_user",
+  ],
+  summary: [
+    "period",
+    "metrics.total",
+    "metrics.by_route",
+    "metrics.by_source",
+    "averages.urgency",
+    "averages.sentiment",
+    "averages.impact",
+    "immediate_items",
+    "trust_risk_items",
+    "quick_win_items",
+  ],
+};
+
+export const BUILTIN_VERSION = "builtin-1";
+
+const BUILTIN_CLASSIFICATION = `
+Analyze this feedback and classify it according to our framework.
+
+## Feedback
+- **Source**: {{feedback.source}}
+- **Title**: {{feedback.title}}
+- **Label**: {{feedback.label}}
+{{language_note}}- **Content**: {{feedback.content}}
+{{thread_section}}
+## Classification Framework
+
+### Urgency (1-5)
+- 1: Low - General questions, nice-to-haves
+- 2: Moderate - Minor friction, workarounds exist
+- 3: High - Functionality degraded, needs attention
+- 4: Severe - Production affected, no workaround (even if reported calmly)
+- 5: Critical - Security risk, installation blocked, complete outage
+
+**Critical keywords**: {{rules.urgency_keywords.critical}}
+**High keywords**: {{rules.urgency_keywords.high}}
+**Low keywords**: {{rules.urgency_keywords.low}}
+
+IMPORTANT: Security concerns should be minimum Urgency 3. Installation failures should be minimum Urgency 4. Calm tone does NOT reduce urgency - score based on technical severity.
+
+### Sentiment (-2 to +2)
+- -2: Frustrated (explicit frustration, strong negative language, ALL CAPS, "ridiculous", "unacceptable")
+- -1: Dissatisfied (pain points, mild complaints, "a pain", "frustrating")
+- 0: Neutral (factual reporting, no emotional indicators)
+- +1: Appreciative (thanks, acknowledges good work, "great product")
+- +2: Enthusiastic (strong praise, advocacy)
+
+### Impact (1-5)
+- 1: Minimal - Single user curiosity
+- 2: Low - Individual inconvenience, easy workaround
+- 3: Moderate - Team/environment affected, painful workaround
+- 4: High - Production degraded, enterprise environment, blocks adoption
+- 5: Severe - Complete breakage, affects all users, security/data risk
+
+**Enterprise signals**: {{rules.impact_signals.enterprise}}
+**Production signals**: {{rules.impact_signals.production}}
+**Single user signals**: {{rules.impact_signals.single_user}}
+
+### Actionability (1-5)
+- 1: Unclear - Vague, missing context
+- 2: Needs Info - Some detail but requires follow-up
+- 3: Partially Actionable - Clear problem, uncertain solution
+- 4: Actionable - Clear problem + environment + steps
+- 5: Immediately Actionable - Clear bug with repro steps, obvious fix path
+
+## Response Format
+Return ONLY valid JSON (no markdown, no explanation):
+{
+  "classification": {
+    "urgency": <1-5>,
+    "sentiment": <-2 to 2>,
+    "impact": <1-5>,
+    "actionability": <1-5>
+  },
+  "signals": [
+    {"signal_type": "feature_area", "signal_value": "<area like tunnels, installation, authentication>", "confidence": <0-1>},
+    {"signal_type": "user_segment", "signal_value": "<segment like enterprise, hobbyist, developer>", "confidence": <0-1>},
+    {"signal_type": "issue_category", "signal_value": "<category like bug, feature_request, question, documentation>", "confidence": <0-1>}
+  ],
+  "confidence": <0-1>,
+  "reasoning": "<1-2 sentence explanation of scores>"
+}
+`;
+
+const BUILTIN_SUMMARY = `
+You are a senior product analyst. Generate a concise, actionable PM summary.
+
+## Period: {{period}}
+
+## Metrics
+- Total feedback items: {{metrics.total}}
+- By route: {{metrics.by_route}}
+- By source: {{metrics.by_source}}
+- Averages: Urgency {{averages.urgency}}, Sentiment {{averages.sentiment}}, Impact {{averages.impact}}
+
+## High Priority Items (Immediate Engineering)
+{{immediate_items}}
+
+## Trust Risks (Frustrated users with significant impact)
+{{trust_risk_items}}
+
+## Quick Wins (Low urgency, high actionability)
+{{quick_win_items}}
+
+Generate a summary with these sections:
+1. **Executive Summary** (2-3 sentences)
+2. **Key Themes** (2-3 bullet points)
+3. **Recommended Actions** (prioritized numbered list)
+4. **Risk Assessment** (any trust or reliability concerns)
+
+Keep it concise and actionable. Focus on insights, not just data repetition.
+`;
+
+export const BUILTIN_PROMPTS: Record<PromptTask, PromptTemplate> = {
+  classification: {
+    task: "classification",
+    version: BUILTIN_VERSION,
+    template: BUILTIN_CLASSIFICATION,
+    description: "Built-in classification prompt",
+    created_at: "1970-01-01T00:00:00.000Z",
+  },
+  summary: {
+    task: "summary",
+    version: BUILTIN_VERSION,
+    template: BUILTIN_SUMMARY,
+    description: "Built-in PM summary prompt",
+    created_at: "1970-01-01T00:00:00.000Z",
+  },
+};
+
+// Replace {{path.to.value}} with the matching variable; arrays are comma-joined, missing values render empty
+export function renderTemplate(template: string, variables: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    const value = path.split(".").reduce<any>((node, key) => (node == null ? undefined : node[key]), variables);
+    if (value === undefined || value === null) return "";
+    if (Array.isArray(value)) return value.join(", ");
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+  });
+}
+
+// Variables a template references that its task doesn't provide
+export function unknownVariables(task: PromptTask, template: string): string[] {
+  const used = [...template.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g)].map((m) => m[1]);
+  return [...new Set(used.filter((v) => !PROMPT_VARIABLES[task].includes(v)))];
+}
+
+// Stable arm for a key: the same feedback always gets the same version while the split is unchanged
+export function assignVersion(assignment: PromptAssignment, key: string): string {
+  if (!assignment.candidate || assignment.candidate_share <= 0) return assignment.active;
+
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000 < assignment.candidate_share ? assignment.candidate : assignment.active;
+}
+
+export class PromptLibrary {
+  constructor(private config: ConfigStore, private db?: FeedbackDB) {}
+
+  // Template for a task: an explicit version, else the A/B arm for the key, else the built-in
+  async resolve(task: PromptTask, key: string, version?: string): Promise<PromptTemplate> {
+    const assignment = await this.config.getPromptAssignment(task);
+    const selected = version ?? (assignment ? assignVersion(assignment, key) : BUILTIN_VERSION);
+    return (await this.get(task, selected)) ?? BUILTIN_PROMPTS[task];
+  }
+
+  // Version classifications currently default to (ignores the candidate split)
+  async activeVersion(task: PromptTask): Promise<string> {
+    return (await this.config.getPromptAssignment(task))?.active ?? BUILTIN_VERSION;
+  }
+
+  async get(task: PromptTask, version: string): Promise<PromptTemplate | null> {
+    if (version === BUILTIN_VERSION) return BUILTIN_PROMPTS[task];
+    return this.config.getPromptTemplate(task, version);
+  }
+
+  // Few-shot block from human corrections first, then labeled feedback, excluding the item being classified
+  async fewShotExamples(count: number, excludeId: string): Promise<string> {
+    if (!this.db || count <= 0) return "";
+
+    const corrected = (await this.db.getCorrectedExamples(count + 1)).map((c) =>
+      labeledExampleFromOverride(c.feedback, c.classification)
+    );
+    const labeled = (await this.db.getLabeledFeedback(count + 1)).map(labeledExampleFromFeedback);
+    const seen = new Set<string>([excludeId]);
+    const examples = [...corrected, ...labeled]
+      .filter((e) => e !== null && !seen.has(e.feedback.id) && seen.add(e.feedback.id))
+      .slice(0, count);
+    if (examples.length === 0) return "";
+
+    return examples
+      .map(
+        (e, i) =>
+          `### Example ${i + 1}\nTitle: ${e!.feedback.title}\nContent: ${e!.feedback.content.slice(0, 500)}\n` +
+          `Expected classification: ${JSON.stringify(e!.expected.classification)}`
+      )
+      .join("\n\n");
+  }
+}
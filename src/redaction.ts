@@ -0,0 +1,175 @@
+// PII redaction applied to feedback before it is stored or sent to a model
+
+import { Feedback } from "./db";
+import { ConfigStore, RedactionSettings } from "./kv";
+
+export interface RedactionEntry {
+  type: string;
+  placeholder: string;
+  field: "title" | "content" | "author" | "raw_metadata";
+}
+
+export interface RedactionOutcome {
+  feedback: Feedback; // Copy with detected values replaced by placeholders
+  report: RedactionEntry[];
+  original?: { title: string; content: string; author?: string; raw_metadata?: string };
+}
+
+export interface Detector {
+  type: string;
+  pattern: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+// Built-in detectors, applied in this order (tokens first so their contents aren't partially matched)
+const BUILT_IN_DETECTORS: Record<string, Detector> = {
+  cloudflare_token: {
+    type: "CF_TOKEN",
+    // Tunnel tokens (base64 JSON), 40-char API tokens, 37-char hex Global API keys
+    pattern: /\beyJ[A-Za-z0-9_-]{20,}={0,2}|(?<![A-Za-z0-9_-])[A-Za-z0-9_-]{40}(?![A-Za-z0-9_-])|\b[a-f0-9]{37}\b/g,
+    // Skip plain words/identifiers: a real token mixes digits and letters
+    // Skip 40-char hex strings too: those are git commit SHAs (API tokens use the full alphabet)
+    accept: (m) => m.startsWith("eyJ") || (/\d/.test(m) && /[A-Za-z]/.test(m) && !/^[a-fA-F0-9]{40}$/.test(m)),
+  },
+  email: {
+    type: "EMAIL",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  uuid: {
+    type: "UUID",
+    pattern: /\b[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}\b/g,
+  },
+  ipv6: {
+    type: "IPV6",
+    pattern: /(?<![\w:])(?:[0-9a-fA-F]{0,4}:){2,7}[0-9a-fA-F]{0,4}(?![\w:])/g,
+    // Reject times like 12:30:45: require "::" compression or the full eight groups
+    // and at least one hex digit (a bare "::" is punctuation, e.g. in type signatures)
+    accept: (m) =>
+      /[0-9a-fA-F]/.test(m) && ((m.includes("::") && m.split("::").length === 2) || m.split(":").length === 8),
+  },
+  ipv4: {
+    type: "IPV4",
+    pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g,
+  },
+  hostname: {
+    type: "HOSTNAME",
+    pattern: /\b(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.){2,}[a-z]{2,24}\b/gi,
+  },
+};
+
+// Replaces detected values with typed placeholders ([EMAIL_1], [IPV4_2], ...)
+export class Redactor {
+  private detectors: Detector[] | null = null;
+  private settings: RedactionSettings | null = null;
+
+  constructor(private config: ConfigStore) {}
+
+  async redact(feedback: Feedback): Promise<RedactionOutcome> {
+    const { settings, detectors } = await this.load();
+    if (!settings.enabled) return { feedback, report: [] };
+
+    // The same value gets the same placeholder across all fields of an item
+    const placeholders = new Map<string, string>();
+    const counters = new Map<string, number>();
+    const report: RedactionEntry[] = [];
+
+    const apply = (text: string | undefined, field: RedactionEntry["field"]): string | undefined => {
+      if (!text) return text;
+
+      let result = text;
+      for (const detector of detectors) {
+        result = result.replace(detector.pattern, (match) => {
+          if (detector.accept && !detector.accept(match)) return match;
+
+          const key = `${detector.type}:${match}`;
+          let placeholder = placeholders.get(key);
+          if (!placeholder) {
+            const n = (counters.get(detector.type) ?? 0) + 1;
+            counters.set(detector.type, n);
+            placeholder = `[${detector.type}_${n}]`;
+            placeholders.set(key, placeholder);
+          }
+          if (!report.some((r) => r.placeholder === placeholder && r.field === field)) {
+            report.push({ type: detector.type, placeholder, field });
+          }
+          return placeholder;
+        });
+      }
+      return result;
+    };
+
+    const redacted: Feedback = {
+      ...feedback,
+      title: apply(feedback.title, "title")!,
+      content: apply(feedback.content, "content")!,
+      author: apply(feedback.author, "author"),
+      raw_metadata: redactJson(feedback.raw_metadata, (text) => apply(text, "raw_metadata")!),
+    };
+
+    if (report.length === 0) return { feedback, report };
+
+    return {
+      feedback: redacted,
+      report,
+      original: settings.store_original
+        ? {
+            title: feedback.title,
+            content: feedback.content,
+            author: feedback.author,
+            raw_metadata: feedback.raw_metadata,
+          }
+        : undefined,
+    };
+  }
+
+  private async load(): Promise<{ settings: RedactionSettings; detectors: Detector[] }> {
+    if (!this.settings || !this.detectors) {
+      this.settings = await this.config.getRedactionSettings();
+      this.detectors = buildDetectors(this.settings);
+    }
+    return { settings: this.settings, detectors: this.detectors };
+  }
+}
+
+// Redact string values inside a JSON document (keeps escapes and structure intact)
+function redactJson(json: string | undefined, redact: (text: string) => string): string | undefined {
+  if (!json) return json;
+
+  const walk = (value: unknown): unknown => {
+    if (typeof value === "string") return redact(value);
+    if (Array.isArray(value)) return value.map(walk);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, walk(v)]));
+    }
+    return value;
+  };
+
+  try {
+    const before = JSON.parse(json);
+    const after = walk(before);
+    const result = JSON.stringify(after);
+    return result === JSON.stringify(before) ? json : result;
+  } catch {
+    return redact(json);
+  }
+}
+
+export function buildDetectors(settings: RedactionSettings): Detector[] {
+  const detectors = Object.entries(BUILT_IN_DETECTORS)
+    .filter(([name]) => settings.detectors[name] !== false)
+    .map(([, detector]) => detector);
+
+  for (const custom of settings.custom_patterns) {
+    try {
+      const flags = custom.flags?.includes("g") ? custom.flags : `${custom.flags ?? ""}g`;
+      detectors.push({
+        type: custom.name.toUpperCase().replace(/[^A-Z0-9]+/g, "_"),
+        pattern: new RegExp(custom.pattern, flags),
+      });
+    } catch (e) {
+      console.error(`Invalid custom redaction pattern "${custom.name}":`, e);
+    }
+  }
+
+  return detectors;
+}
@@ -0,0 +1,305 @@
+// Declarative routing: prioritized rules with AND/OR conditions over scores and signals
+
+import { Signal } from "./db";
+import { FieldError } from "./validation";
+
+export const SCORE_FIELDS = ["urgency", "sentiment", "impact", "actionability", "confidence"] as const;
+export const COMPARISONS = [">=", "<=", ">", "<", "==", "!="] as const;
+export const DEFAULT_ROUTE = "standard_backlog";
+const ROUTE_NAME = /^[a-z0-9_]+$/;
+
+export type ScoreField = (typeof SCORE_FIELDS)[number];
+export type Comparison = (typeof COMPARISONS)[number];
+
+export type RouteCondition =
+  | { all: RouteCondition[] }
+  | { any: RouteCondition[] }
+  | { field: ScoreField; op: Comparison; value: number }
+  // Matches a signal of the type, optionally with one of the values (case-insensitive)
+  | { signal_type: string; values?: string[]; min_confidence?: number };
+
+export interface RouteRule {
+  route: string;
+  priority: number; // Lower runs first; the first matching route is the item's primary route
+  when: RouteCondition;
+  stop?: boolean; // Skip lower-priority rules once this one matches
+  description?: string;
+}
+
+export interface RoutingInput {
+  urgency: number;
+  sentiment: number;
+  impact: number;
+  actionability: number;
+  confidence?: number;
+  signals?: Pick<Signal, "signal_type" | "signal_value" | "confidence">[];
+}
+
+// A stored classification as re-routing sees it
+export interface RoutableItem extends RoutingInput {
+  feedback_id: string;
+  title: string;
+  source: string;
+  route: string | null;
+  route_locked: boolean; // Human-overridden routes never move
+}
+
+export interface RoutingSimulation {
+  total: number;
+  moved: number;
+  transitions: { from: string; to: string; count: number }[];
+  queues: Record<string, { current: number; simulated: number; delta: number }>;
+  moved_items: { feedback_id: string; title: string; source: string; from: string; to: string }[];
+}
+
+// Threshold shape stored before rules became declarative ({route: {urgency_min, ...}})
+export type LegacyRoutingRules = Record<string, Record<string, number>>;
+
+export const DEFAULT_ROUTING_RULES: RouteRule[] = [
+  {
+    route: "immediate_engineering",
+    priority: 10,
+    when: {
+      all: [
+        { field: "urgency", op: ">=", value: 4 },
+        { field: "impact", op: ">=", value: 4 },
+      ],
+    },
+    description: "Severe and widely felt",
+  },
+  {
+    route: "trust_risk",
+    priority: 20,
+    when: {
+      all: [
+        { field: "sentiment", op: "<=", value: -1 },
+        { field: "impact", op: ">=", value: 3 },
+      ],
+    },
+    description: "Frustrated users with significant impact",
+  },
+  {
+    route: "quick_win_backlog",
+    priority: 30,
+    when: {
+      all: [
+        { field: "urgency", op: "<=", value: 2 },
+        { field: "actionability", op: ">=", value: 4 },
+      ],
+    },
+    description: "Low urgency, clear fix",
+  },
+];
+
+// All matching routes in priority order (the default route when none match)
+export function matchRoutes(rules: RouteRule[], input: RoutingInput, defaultRoute: string = DEFAULT_ROUTE): string[] {
+  const routes: string[] = [];
+  for (const rule of [...rules].sort((a, b) => a.priority - b.priority)) {
+    if (!evaluateCondition(rule.when, input)) continue;
+    if (!routes.includes(rule.route)) routes.push(rule.route);
+    if (rule.stop) break;
+  }
+  return routes.length > 0 ? routes : [defaultRoute];
+}
+
+// Every route the rules can assign, in priority order, followed by the default route
+export function availableRoutes(rules: RouteRule[], defaultRoute: string = DEFAULT_ROUTE): string[] {
+  const routes = [...rules].sort((a, b) => a.priority - b.priority).map((rule) => rule.route);
+  return [...new Set([...routes, defaultRoute])];
+}
+
+// Comma-separated route as stored on classifications
+export function routeFor(rules: RouteRule[], input: RoutingInput, defaultRoute?: string): string {
+  return matchRoutes(rules, input, defaultRoute).join(",");
+}
+
+// Route each stored item with the given rules; locked routes are kept
+export function rerouteItems(
+  items: RoutableItem[],
+  rules: RouteRule[],
+  defaultRoute?: string
+): { item: RoutableItem; from: string; to: string }[] {
+  return items.map((item) => {
+    const from = item.route || defaultRoute || DEFAULT_ROUTE;
+    return { item, from, to: item.route_locked ? from : routeFor(rules, item, defaultRoute) };
+  });
+}
+
+// What-if: which items would change route and how queue sizes would shift (nothing is written)
+export function simulateRouting(
+  items: RoutableItem[],
+  rules: RouteRule[],
+  defaultRoute?: string,
+  itemLimit: number = 100
+): RoutingSimulation {
+  const rerouted = rerouteItems(items, rules, defaultRoute);
+  const moved = rerouted.filter((r) => r.from !== r.to);
+
+  const transitions = new Map<string, { from: string; to: string; count: number }>();
+  for (const { from, to } of moved) {
+    const key = `${from} -> ${to}`;
+    const entry = transitions.get(key) ?? { from, to, count: 0 };
+    entry.count++;
+    transitions.set(key, entry);
+  }
+
+  // Items with several routes count in each of their queues
+  const queues: RoutingSimulation["queues"] = {};
+  const count = (route: string, side: "current" | "simulated") => {
+    for (const r of route.split(",")) {
+      queues[r] ??= { current: 0, simulated: 0, delta: 0 };
+      queues[r][side]++;
+    }
+  };
+  for (const { from, to } of rerouted) {
+    count(from, "current");
+    count(to, "simulated");
+  }
+  for (const queue of Object.values(queues)) queue.delta = queue.simulated - queue.current;
+
+  return {
+    total: items.length,
+    moved: moved.length,
+    transitions: [...transitions.values()].sort((a, b) => b.count - a.count),
+    queues,
+    moved_items: moved.slice(0, itemLimit).map(({ item, from, to }) => ({
+      feedback_id: item.feedback_id,
+      title: item.title,
+      source: item.source,
+      from,
+      to,
+    })),
+  };
+}
+
+export function evaluateCondition(condition: RouteCondition, input: RoutingInput): boolean {
+  if ("all" in condition) return condition.all.every((c) => evaluateCondition(c, input));
+  if ("any" in condition) return condition.any.some((c) => evaluateCondition(c, input));
+
+  if ("field" in condition) {
+    const actual = input[condition.field];
+    if (actual === undefined || actual === null) return false;
+    switch (condition.op) {
+      case ">=": return actual >= condition.value;
+      case "<=": return actual <= condition.value;
+      case ">": return actual > condition.value;
+      case "<": return actual < condition.value;
+      case "==": return actual === condition.value;
+      case "!=": return actual !== condition.value;
+    }
+  }
+
+  const values = condition.values?.map((v) => v.toLowerCase());
+  return (input.signals || []).some(
+    (s) =>
+      s.signal_type === condition.signal_type &&
+      (!values || values.includes(s.signal_value.toLowerCase())) &&
+      (condition.min_confidence === undefined || (s.confidence ?? 0) >= condition.min_confidence)
+  );
+}
+
+// Human-readable condition, e.g. "urgency >= 4 AND (impact >= 4 OR feature_area in [security])"
+export function describeCondition(condition: RouteCondition, nested: boolean = false): string {
+  if ("all" in condition || "any" in condition) {
+    const parts = "all" in condition ? condition.all : condition.any;
+    const text = parts.map((c) => describeCondition(c, true)).join("all" in condition ? " AND " : " OR ");
+    return nested && parts.length > 1 ? `(${text})` : text;
+  }
+  if ("field" in condition) return `${condition.field} ${condition.op} ${condition.value}`;
+
+  let text = condition.values ? `${condition.signal_type} in [${condition.values.join(", ")}]` : `has ${condition.signal_type}`;
+  if (condition.min_confidence !== undefined) text += ` (confidence >= ${condition.min_confidence})`;
+  return text;
+}
+
+// Convert the legacy threshold object (urgency_min, impact_max, ...) to rules in the old priority order
+export function fromLegacyRules(legacy: LegacyRoutingRules): RouteRule[] {
+  const order = ["immediate_engineering", "trust_risk", "quick_win_backlog"];
+  return Object.entries(legacy).map(([route, thresholds]) => ({
+    route,
+    priority: order.includes(route) ? (order.indexOf(route) + 1) * 10 : 100,
+    when: {
+      all: Object.entries(thresholds).map(([key, value]) => ({
+        field: key.replace(/_(min|max)$/, "") as ScoreField,
+        op: key.endsWith("_max") ? ("<=" as const) : (">=" as const),
+        value,
+      })),
+    },
+  }));
+}
+
+// Structural errors in a routing rule list (paths like routing_rules[0].when.all[1].op)
+export function validateRoutingRules(input: unknown, path: string = "routing_rules"): FieldError[] {
+  if (!Array.isArray(input)) return [{ field: path, message: "must be an array of rules" }];
+
+  const errors: FieldError[] = [];
+  input.forEach((rule, i) => {
+    const at = `${path}[${i}]`;
+    if (!rule || typeof rule !== "object") {
+      errors.push({ field: at, message: "must be an object" });
+      return;
+    }
+    if (typeof rule.route !== "string" || !ROUTE_NAME.test(rule.route)) {
+      errors.push({ field: `${at}.route`, message: "must be a lowercase route name (a-z, 0-9, _)" });
+    }
+    if (typeof rule.priority !== "number" || !Number.isFinite(rule.priority)) {
+      errors.push({ field: `${at}.priority`, message: "must be a number" });
+    }
+    if (rule.stop !== undefined && typeof rule.stop !== "boolean") {
+      errors.push({ field: `${at}.stop`, message: "must be a boolean" });
+    }
+    errors.push(...validateCondition(rule.when, `${at}.when`));
+  });
+  return errors;
+}
+
+// Error for a default_route that is not a route name
+export function validateDefaultRoute(input: unknown, path: string = "default_route"): FieldError[] {
+  if (typeof input === "string" && ROUTE_NAME.test(input)) return [];
+  return [{ field: path, message: "must be a lowercase route name (a-z, 0-9, _)" }];
+}
+
+export function validateCondition(condition: any, path: string): FieldError[] {
+  if (!condition || typeof condition !== "object" || Array.isArray(condition)) {
+    return [{ field: path, message: "must be a condition object" }];
+  }
+
+  for (const key of ["all", "any"] as const) {
+    if (key in condition) {
+      if (!Array.isArray(condition[key]) || condition[key].length === 0) {
+        return [{ field: `${path}.${key}`, message: "must be a non-empty array of conditions" }];
+      }
+      return condition[key].flatMap((c: unknown, i: number) => validateCondition(c, `${path}.${key}[${i}]`));
+    }
+  }
+
+  if ("field" in condition) {
+    const errors: FieldError[] = [];
+    if (!SCORE_FIELDS.includes(condition.field)) {
+      errors.push({ field: `${path}.field`, message: `must be one of ${SCORE_FIELDS.join(", ")}` });
+    }
+    if (!COMPARISONS.includes(condition.op)) {
+      errors.push({ field: `${path}.op`, message: `must be one of ${COMPARISONS.join(" ")}` });
+    }
+    if (typeof condition.value !== "number") {
+      errors.push({ field: `${path}.value`, message: "must be a number" });
+    }
+    return errors;
+  }
+
+  if ("signal_type" in condition) {
+    const errors: FieldError[] = [];
+    if (typeof condition.signal_type !== "string" || condition.signal_type === "") {
+      errors.push({ field: `${path}.signal_type`, message: "must be a non-empty string" });
+    }
+    if (condition.values !== undefined && (!Array.isArray(condition.values) || condition.values.some((v: unknown) => typeof v !== "string"))) {
+      errors.push({ field: `${path}.values`, message: "must be an array of strings" });
+    }
+    if (condition.min_confidence !== undefined && typeof condition.min_confidence !== "number") {
+      errors.push({ field: `${path}.min_confidence`, message: "must be a number" });
+    }
+    return errors;
+  }
+
+  return [{ field: path, message: "must have one of all, any, field or signal_type" }];
+}
@@ -0,0 +1,166 @@
+// Deterministic scoring: keyword matching and floor/ceiling policies applied after the model
+
+import { Feedback, Signal } from "./db";
+import { ClassificationRules } from "./kv";
+import { SCORE_RANGES } from "./overrides";
+import { describeCondition, evaluateCondition, RouteCondition, validateCondition } from "./routing";
+import { FieldError } from "./validation";
+
+export const POLICY_FIELDS = ["urgency", "sentiment", "impact", "actionability"] as const;
+
+// Signal types recorded for keyword hits (signal_value is the matched keyword)
+export const URGENCY_KEYWORD_SIGNAL = "urgency_keyword";
+export const IMPACT_SIGNAL_SIGNAL = "impact_signal";
+
+export type PolicyField = (typeof POLICY_FIELDS)[number];
+export type Scores = Record<PolicyField, number>;
+
+// Raise a score to `min` and/or cap it at `max` when the condition holds
+// Conditions see the model's scores and signals plus the keyword hit signals
+export interface ScorePolicy {
+  name: string;
+  field: PolicyField;
+  min?: number; // Floor
+  max?: number; // Ceiling
+  when: RouteCondition;
+  description?: string;
+}
+
+export interface ScoreAdjustment {
+  policy: string;
+  field: PolicyField;
+  from: number;
+  to: number;
+}
+
+export const DEFAULT_SCORE_POLICIES: ScorePolicy[] = [
+  {
+    name: "security_floor",
+    field: "urgency",
+    min: 3,
+    when: {
+      any: [
+        { signal_type: URGENCY_KEYWORD_SIGNAL, values: ["security", "vulnerability", "breach", "exploit"] },
+        { signal_type: "feature_area", values: ["security"], min_confidence: 0.5 },
+      ],
+    },
+    description: "Security concerns are at least urgency 3",
+  },
+  {
+    name: "installation_failure_floor",
+    field: "urgency",
+    min: 4,
+    when: {
+      any: [
+        { signal_type: URGENCY_KEYWORD_SIGNAL, values: ["cannot install"] },
+        {
+          all: [
+            { signal_type: "feature_area", values: ["installation"], min_confidence: 0.5 },
+            { signal_type: "issue_category", values: ["bug"], min_confidence: 0.5 },
+          ],
+        },
+      ],
+    },
+    description: "Installation failures are at least urgency 4",
+  },
+];
+
+// Keyword lists hit by the title, content and replies (case-insensitive, whole words),
+// as signals with full confidence
+export function matchKeywords(feedback: Feedback, rules: ClassificationRules, replies: Feedback[] = []): Signal[] {
+  const text = [feedback.title, feedback.content, ...replies.map((r) => r.content)].join("\n").toLowerCase();
+  const lists: [string, Record<string, string[]>][] = [
+    [URGENCY_KEYWORD_SIGNAL, rules.urgency_keywords],
+    [IMPACT_SIGNAL_SIGNAL, rules.impact_signals],
+  ];
+
+  const hits = new Map<string, Signal>();
+  for (const [signalType, groups] of lists) {
+    for (const keyword of Object.values(groups || {}).flat()) {
+      const value = keyword.toLowerCase();
+      if (!hits.has(`${signalType}:${value}`) && containsPhrase(text, value)) {
+        hits.set(`${signalType}:${value}`, { feedback_id: feedback.id, signal_type: signalType, signal_value: value, confidence: 1 });
+      }
+    }
+  }
+  return [...hits.values()];
+}
+
+// Apply policies in order; each sees the scores left by the previous ones
+export function applyScorePolicies(
+  scores: Scores,
+  policies: ScorePolicy[],
+  input: { confidence?: number; signals?: Pick<Signal, "signal_type" | "signal_value" | "confidence">[] }
+): { scores: Scores; adjustments: ScoreAdjustment[] } {
+  const adjusted = { ...scores };
+  const adjustments: ScoreAdjustment[] = [];
+
+  for (const policy of policies) {
+    if (!evaluateCondition(policy.when, { ...adjusted, ...input })) continue;
+
+    const from = adjusted[policy.field];
+    let to = from;
+    if (policy.min !== undefined) to = Math.max(to, policy.min);
+    if (policy.max !== undefined) to = Math.min(to, policy.max);
+    if (to !== from) {
+      adjusted[policy.field] = to;
+      adjustments.push({ policy: policy.name, field: policy.field, from, to });
+    }
+  }
+  return { scores: adjusted, adjustments };
+}
+
+// Reasoning suffix listing each adjustment, e.g. "Policy adjustments: urgency 2 -> 3 (security_floor)."
+export function describeAdjustments(adjustments: ScoreAdjustment[]): string {
+  if (adjustments.length === 0) return "";
+  return `Policy adjustments: ${adjustments.map((a) => `${a.field} ${a.from} -> ${a.to} (${a.policy})`).join("; ")}.`;
+}
+
+// Human-readable policy, e.g. "urgency >= 3 when urgency_keyword in [security] OR ..."
+export function describePolicy(policy: ScorePolicy): string {
+  const bounds = [
+    policy.min !== undefined ? `${policy.field} >= ${policy.min}` : null,
+    policy.max !== undefined ? `${policy.field} <= ${policy.max}` : null,
+  ].filter(Boolean);
+  return `${bounds.join(" and ")} when ${describeCondition(policy.when)}`;
+}
+
+// Field errors for a score_policies array, e.g. "score_policies[0].min"
+export function validateScorePolicies(input: unknown, path: string = "score_policies"): FieldError[] {
+  if (!Array.isArray(input)) return [{ field: path, message: "must be an array of policies" }];
+
+  const errors: FieldError[] = [];
+  input.forEach((policy, i) => {
+    const at = `${path}[${i}]`;
+    if (!policy || typeof policy !== "object") {
+      errors.push({ field: at, message: "must be an object" });
+      return;
+    }
+    if (typeof policy.name !== "string" || policy.name.trim() === "") {
+      errors.push({ field: `${at}.name`, message: "must be a non-empty string" });
+    }
+    if (!POLICY_FIELDS.includes(policy.field)) {
+      errors.push({ field: `${at}.field`, message: `must be one of ${POLICY_FIELDS.join(", ")}` });
+    } else {
+      const [low, high] = SCORE_RANGES[policy.field as PolicyField];
+      for (const bound of ["min", "max"] as const) {
+        const value = policy[bound];
+        if (value !== undefined && (!Number.isInteger(value) || value < low || value > high)) {
+          errors.push({ field: `${at}.${bound}`, message: `must be an integer from ${low} to ${high}` });
+        }
+      }
+    }
+    if (policy.min === undefined && policy.max === undefined) {
+      errors.push({ field: at, message: "needs a min (floor) or max (ceiling)" });
+    } else if (typeof policy.min === "number" && typeof policy.max === "number" && policy.min > policy.max) {
+      errors.push({ field: `${at}.max`, message: "must be >= min" });
+    }
+    errors.push(...validateCondition(policy.when, `${at}.when`));
+  });
+  return errors;
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(text);
+}
@@ -0,0 +1,136 @@
+// Structured model output: JSON extraction and validation against a JSON schema subset
+
+// Supported keywords: type, properties, required, items, enum, minimum, maximum, minLength
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+}
+
+// Classification output; score ranges match the CHECK constraints on classifications in schema.sql
+export const CLASSIFICATION_OUTPUT_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["classification", "signals", "confidence", "reasoning"],
+  properties: {
+    classification: {
+      type: "object",
+      required: ["urgency", "sentiment", "impact", "actionability"],
+      properties: {
+        urgency: { type: "integer", minimum: 1, maximum: 5 },
+        sentiment: { type: "integer", minimum: -2, maximum: 2 },
+        impact: { type: "integer", minimum: 1, maximum: 5 },
+        actionability: { type: "integer", minimum: 1, maximum: 5 },
+      },
+    },
+    signals: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["signal_type", "signal_value"],
+        properties: {
+          signal_type: { type: "string", minLength: 1 },
+          signal_value: { type: "string", minLength: 1 },
+          confidence: { type: "number", minimum: 0, maximum: 1 },
+        },
+      },
+    },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    reasoning: { type: "string" },
+  },
+};
+
+// Output that still failed validation after all repair attempts
+export class StructuredOutputError extends Error {
+  constructor(public errors: string[], public raw: string, public attempts: number) {
+    super(`Invalid model output after ${attempts} attempt(s): ${errors.join("; ")}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+// Validation errors as "$.path: message" (empty when valid)
+export function validateSchema(schema: JsonSchema, value: unknown, path: string = "$"): string[] {
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`];
+  }
+
+  switch (schema.type) {
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) return [`${path}: must be an object`];
+      const record = value as Record<string, unknown>;
+      const errors = (schema.required || [])
+        .filter((key) => record[key] === undefined)
+        .map((key) => `${path}.${key}: is required`);
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined) errors.push(...validateSchema(property, record[key], `${path}.${key}`));
+      }
+      return errors;
+    }
+    case "array":
+      if (!Array.isArray(value)) return [`${path}: must be an array`];
+      return schema.items ? value.flatMap((item, i) => validateSchema(schema.items!, item, `${path}[${i}]`)) : [];
+    case "string":
+      if (typeof value !== "string") return [`${path}: must be a string`];
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return [`${path}: must be at least ${schema.minLength} characters`];
+      }
+      return [];
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !Number.isFinite(value)) return [`${path}: must be a number`];
+      if (schema.type === "integer" && !Number.isInteger(value)) return [`${path}: must be an integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: must be >= ${schema.minimum}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: must be <= ${schema.maximum}`];
+      return [];
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${path}: must be a boolean`];
+    default:
+      return [];
+  }
+}
+
+// Parse model text as JSON (tolerating a markdown fence or prose around one object) and validate it
+export function parseStructuredOutput<T>(
+  raw: unknown,
+  schema: JsonSchema
+): { ok: true; value: T } | { ok: false; errors: string[] } {
+  // JSON-mode responses may already be parsed
+  if (raw !== null && typeof raw === "object") {
+    const errors = validateSchema(schema, raw);
+    return errors.length === 0 ? { ok: true, value: raw as T } : { ok: false, errors };
+  }
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return { ok: false, errors: ["Response was empty"] };
+  }
+
+  const text = raw.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    if (start === -1 || end <= start) return { ok: false, errors: ["Response contained no JSON object"] };
+    try {
+      parsed = JSON.parse(text.slice(start, end + 1));
+    } catch (e) {
+      return { ok: false, errors: [`Response was not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+    }
+  }
+
+  const errors = validateSchema(schema, parsed);
+  return errors.length === 0 ? { ok: true, value: parsed as T } : { ok: false, errors };
+}
+
+// Follow-up message asking the model to fix its previous output
+export function repairPrompt(errors: string[], schema: JsonSchema): string {
+  return `Your previous response did not match the required format:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Return ONLY the corrected JSON (no markdown, no explanation), matching this JSON schema:
+${JSON.stringify(schema)}`;
+}
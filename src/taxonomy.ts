@@ -0,0 +1,247 @@
+// Canonical signal taxonomy: allowed values, aliases and hierarchy for model-extracted signals
+
+import { Signal } from "./db";
+import { FieldError } from "./validation";
+
+export const TAXONOMY_SIGNAL_TYPES = ["feature_area", "user_segment", "issue_category"] as const;
+
+export type TaxonomySignalType = (typeof TAXONOMY_SIGNAL_TYPES)[number];
+
+export interface TaxonomyEntry {
+  value: string; // Canonical value stored on signals
+  aliases?: string[]; // Other spellings mapped to this value
+  parent?: string; // Canonical value of the broader entry, e.g. quic -> tunnels
+}
+
+export type SignalTaxonomy = Record<TaxonomySignalType, TaxonomyEntry[]>;
+
+// How a model value was resolved against the taxonomy
+export type TaxonomyMatch = "canonical" | "alias" | "nearest" | "candidate";
+
+const NEAREST_MIN_SIMILARITY = 0.8; // Edit-distance similarity needed to map a misspelling
+const BRAND_WORDS = new Set(["cloudflare", "cloudflared"]); // "Cloudflare Tunnel" is about tunnels
+
+export const DEFAULT_SIGNAL_TAXONOMY: SignalTaxonomy = {
+  feature_area: [
+    { value: "tunnels", aliases: ["tunnel", "cloudflare tunnel", "argo tunnel"] },
+    { value: "quic", parent: "tunnels", aliases: ["http3", "http/3"] },
+    { value: "http2", parent: "tunnels", aliases: ["http/2"] },
+    { value: "installation", aliases: ["install", "installer", "packaging", "setup"] },
+    { value: "authentication", aliases: ["auth", "login", "sso"] },
+    { value: "access", aliases: ["zero trust", "access policies"] },
+    { value: "dns", aliases: ["name resolution", "resolver"] },
+    { value: "networking", aliases: ["network", "firewall", "proxy", "connectivity"] },
+    { value: "configuration", aliases: ["config", "settings", "ingress rules"] },
+    { value: "logging", aliases: ["logs", "metrics", "observability"] },
+    { value: "security", aliases: ["vulnerability", "credentials"] },
+    { value: "performance", aliases: ["latency", "throughput"] },
+    { value: "warp", aliases: ["warp client", "1.1.1.1 app"] },
+  ],
+  user_segment: [
+    { value: "enterprise", aliases: ["organization", "business", "corporate"] },
+    { value: "developer", aliases: ["engineer", "devops"] },
+    { value: "administrator", aliases: ["admin", "sysadmin", "it admin"] },
+    { value: "hobbyist", aliases: ["home user", "homelab", "personal"] },
+  ],
+  issue_category: [
+    { value: "bug", aliases: ["defect", "regression", "crash"] },
+    { value: "feature_request", aliases: ["feature", "enhancement", "request"] },
+    { value: "question", aliases: ["support", "help", "how-to"] },
+    { value: "documentation", aliases: ["docs"] },
+    { value: "performance", aliases: ["slow", "slowness"] },
+  ],
+};
+
+// Canonical values of a type, with their hierarchy path ("tunnels > quic"), for the prompt
+export function allowedValues(taxonomy: SignalTaxonomy, signalType: TaxonomySignalType): string[] {
+  const entries = taxonomy[signalType] || [];
+  const byValue = new Map(entries.map((e) => [e.value, e]));
+  return entries.map((entry) => {
+    const path = [entry.value];
+    for (let parent = entry.parent; parent && !path.includes(parent); parent = byValue.get(parent)?.parent) {
+      path.unshift(parent);
+    }
+    return path.join(" > ");
+  });
+}
+
+// Map a model value to its canonical entry: exact value or alias, then the closest spelling;
+// anything else is kept (lowercased) and reported as a candidate for a new entry
+export function resolveValue(
+  taxonomy: SignalTaxonomy,
+  signalType: TaxonomySignalType,
+  value: string
+): { value: string; match: TaxonomyMatch } {
+  const entries = taxonomy[signalType] || [];
+  // The prompt lists paths; "tunnels > quic" means quic
+  const leaf = value.split(">").pop() || value;
+  const wanted = matchKey(leaf);
+  const unbranded = matchKey(leaf, true);
+
+  for (const entry of entries) {
+    if (matchKey(entry.value) === wanted) return { value: entry.value, match: "canonical" };
+  }
+  for (const entry of entries) {
+    const keys = [entry.value, ...(entry.aliases || [])].map((v) => matchKey(v));
+    if (keys.includes(wanted) || keys.includes(unbranded)) return { value: entry.value, match: "alias" };
+  }
+
+  let nearest: { value: string; similarity: number } | null = null;
+  for (const entry of entries) {
+    for (const key of [entry.value, ...(entry.aliases || [])].map((v) => matchKey(v))) {
+      const score = similarity(key, unbranded || wanted);
+      if (score >= NEAREST_MIN_SIMILARITY && (!nearest || score > nearest.similarity)) {
+        nearest = { value: entry.value, similarity: score };
+      }
+    }
+  }
+  if (nearest) return { value: nearest.value, match: "nearest" };
+
+  return { value: leaf.trim().toLowerCase(), match: "candidate" };
+}
+
+// Canonicalize taxonomy signal types (other signal types pass through unchanged)
+// Candidates are the signals whose value is not in the taxonomy yet
+export function normalizeSignals(
+  signals: Signal[],
+  taxonomy: SignalTaxonomy
+): { signals: Signal[]; candidates: Signal[] } {
+  const candidates: Signal[] = [];
+  const normalized = signals.map((signal) => {
+    if (!(TAXONOMY_SIGNAL_TYPES as readonly string[]).includes(signal.signal_type)) return signal;
+
+    const resolved = resolveValue(taxonomy, signal.signal_type as TaxonomySignalType, signal.signal_value);
+    const result = { ...signal, signal_value: resolved.value };
+    if (resolved.match === "candidate") candidates.push(result);
+    return result;
+  });
+
+  // Aliases of the same value collapse into one signal (highest confidence wins)
+  const unique = new Map<string, Signal>();
+  for (const signal of normalized) {
+    const key = `${signal.feedback_id}\n${signal.signal_type}\n${signal.signal_value}`;
+    const existing = unique.get(key);
+    if (!existing || (signal.confidence ?? 0) > (existing.confidence ?? 0)) unique.set(key, signal);
+  }
+  return { signals: [...unique.values()], candidates };
+}
+
+// Merge `from` values into `to` (a rename when `to` is new): the old values become aliases
+// and their children move under `to`
+export function mergeTaxonomyValues(
+  taxonomy: SignalTaxonomy,
+  signalType: TaxonomySignalType,
+  from: string[],
+  to: string
+): SignalTaxonomy {
+  const merged = new Set(from.map((v) => v.toLowerCase()).filter((v) => v !== to.toLowerCase()));
+  const entries = taxonomy[signalType] || [];
+  const removed = entries.filter((e) => merged.has(e.value.toLowerCase()));
+  const target = entries.find((e) => e.value.toLowerCase() === to.toLowerCase());
+
+  const aliases = new Set([
+    ...(target?.aliases || []),
+    ...[...merged],
+    ...removed.flatMap((e) => e.aliases || []),
+  ]);
+  // A renamed entry keeps its place in the hierarchy; an entry never ends up under a merged value
+  const parent = target ? target.parent : removed[0]?.parent;
+  const updatedTarget: TaxonomyEntry = {
+    value: target?.value ?? to,
+    ...(parent && !merged.has(parent.toLowerCase()) ? { parent } : {}),
+    aliases: [...aliases],
+  };
+
+  const updated = entries
+    .filter((e) => !merged.has(e.value.toLowerCase()))
+    .map((e) => {
+      if (e === target) return updatedTarget;
+      return e.parent && merged.has(e.parent.toLowerCase()) ? { ...e, parent: updatedTarget.value } : e;
+    });
+  if (!target) updated.push(updatedTarget);
+
+  return { ...taxonomy, [signalType]: updated };
+}
+
+// Field errors for a taxonomy, e.g. "signal_taxonomy.feature_area[2].parent"
+export function validateTaxonomy(input: unknown, path: string = "signal_taxonomy"): FieldError[] {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return [{ field: path, message: "must be an object keyed by signal type" }];
+  }
+
+  const errors: FieldError[] = [];
+  for (const [signalType, entries] of Object.entries(input as Record<string, unknown>)) {
+    const at = `${path}.${signalType}`;
+    if (!(TAXONOMY_SIGNAL_TYPES as readonly string[]).includes(signalType)) {
+      errors.push({ field: at, message: `must be one of ${TAXONOMY_SIGNAL_TYPES.join(", ")}` });
+      continue;
+    }
+    if (!Array.isArray(entries)) {
+      errors.push({ field: at, message: "must be an array of entries" });
+      continue;
+    }
+
+    // Every value and alias may name only one entry
+    const owners = new Map<string, string>();
+    entries.forEach((entry: any, i: number) => {
+      if (!entry || typeof entry.value !== "string" || entry.value.trim() === "") {
+        errors.push({ field: `${at}[${i}].value`, message: "must be a non-empty string" });
+        return;
+      }
+      if (entry.aliases !== undefined && (!Array.isArray(entry.aliases) || entry.aliases.some((a: unknown) => typeof a !== "string"))) {
+        errors.push({ field: `${at}[${i}].aliases`, message: "must be an array of strings" });
+        return;
+      }
+      for (const name of [entry.value, ...(entry.aliases || [])]) {
+        const owner = owners.get(matchKey(name));
+        if (owner !== undefined && owner !== entry.value) {
+          errors.push({ field: `${at}[${i}]`, message: `"${name}" already names "${owner}"` });
+        }
+        owners.set(matchKey(name), entry.value);
+      }
+    });
+
+    const parents = new Map(entries.filter((e: any) => e?.value).map((e: any) => [e.value, e.parent as string | undefined]));
+    entries.forEach((entry: any, i: number) => {
+      if (entry?.parent === undefined) return;
+      if (!parents.has(entry.parent)) {
+        errors.push({ field: `${at}[${i}].parent`, message: `must be a value of ${signalType}` });
+        return;
+      }
+      const seen = new Set<string>([entry.value]);
+      for (let parent: string | undefined = entry.parent; parent; parent = parents.get(parent)) {
+        if (seen.has(parent)) {
+          errors.push({ field: `${at}[${i}].parent`, message: "creates a cycle" });
+          break;
+        }
+        seen.add(parent);
+      }
+    });
+  }
+  return errors;
+}
+
+// Comparison key: lowercase words with plural "s" dropped ("Tunnels" ~ "tunnel");
+// `unbranded` also drops Cloudflare product prefixes
+function matchKey(value: string, unbranded: boolean = false): string {
+  return value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !(unbranded && BRAND_WORDS.has(word)))
+    .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word))
+    .join(" ");
+}
+
+// 1 - Levenshtein distance / length of the longer string
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
@@ -0,0 +1,133 @@
+// Time-series trends: day/week/month buckets with period-over-period deltas
+// Buckets are calendar days (weeks start on Monday) at a fixed UTC offset; bounds are computed
+// here as ISO 8601 instants, the same format feedback.created_at is stored in
+
+export const TREND_INTERVALS = ["day", "week", "month"] as const;
+
+export type TrendInterval = (typeof TREND_INTERVALS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrendPoint {
+  bucket: string; // First day of the bucket (YYYY-MM-DD, at the requested offset)
+  value: number | null; // Count, or average score (null when the bucket has no items)
+  delta: number | null; // value minus the value one week (day/week buckets) or month earlier
+  growth_rate: number | null; // delta relative to that earlier value (null when it was 0 or empty)
+}
+
+export interface TrendSeries {
+  key: string;
+  total: number; // Sum (counts) or item count (scores) over the returned buckets
+  points: TrendPoint[];
+}
+
+export interface TrendRow {
+  bucket: string;
+  key: string;
+  value: number | null;
+  items: number;
+}
+
+// Earlier buckets a bucket is compared with: the same weekday a week earlier for days
+export function comparisonLag(interval: TrendInterval): number {
+  return interval === "day" ? 7 : 1;
+}
+
+// "+02:00" / "-05:30" / "Z" -> minutes east of UTC (null when malformed)
+export function parseUtcOffset(value: string): number | null {
+  if (value === "Z" || value === "") return 0;
+  const match = value.match(/^([+-])(\d{2}):?(\d{2})$/);
+  if (!match || parseInt(match[2]) > 14 || parseInt(match[3]) > 59) return null;
+  return (match[1] === "-" ? -1 : 1) * (parseInt(match[2]) * 60 + parseInt(match[3]));
+}
+
+// SQLite date modifiers mapping an ISO instant to its bucket's first day
+export function bucketModifiers(interval: TrendInterval, offsetMinutes: number): string[] {
+  const shift = `${offsetMinutes >= 0 ? "+" : ""}${offsetMinutes} minutes`;
+  if (interval === "week") return [shift, "weekday 0", "-6 days"];
+  if (interval === "month") return [shift, "start of month"];
+  return [shift];
+}
+
+// The last `count` bucket starts up to `now`, oldest first
+export function bucketStarts(interval: TrendInterval, count: number, offsetMinutes: number, now: Date = new Date()): string[] {
+  // Local calendar fields at the offset, read through the UTC getters
+  const local = new Date(now.getTime() + offsetMinutes * 60 * 1000);
+  let start = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), interval === "month" ? 1 : local.getUTCDate());
+  if (interval === "week") start -= ((local.getUTCDay() + 6) % 7) * DAY_MS;
+
+  const starts: string[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const date = new Date(start);
+    if (interval === "month") date.setUTCMonth(date.getUTCMonth() - i);
+    else date.setTime(start - i * (interval === "week" ? 7 : 1) * DAY_MS);
+    starts.push(date.toISOString().slice(0, 10));
+  }
+  return starts;
+}
+
+// ISO instant at which a bucket starting on `day` (YYYY-MM-DD at the offset) begins
+export function bucketInstant(day: string, offsetMinutes: number): string {
+  return new Date(Date.parse(`${day}T00:00:00.000Z`) - offsetMinutes * 60 * 1000).toISOString();
+}
+
+// Items carry every route they were assigned ("immediate_engineering,trust_risk"): count each one
+export function expandRoutes(rows: TrendRow[]): TrendRow[] {
+  const counts = new Map<string, TrendRow>();
+  for (const row of rows) {
+    for (const route of row.key.split(",")) {
+      const id = `${row.bucket}\n${route}`;
+      const existing = counts.get(id);
+      if (existing) {
+        existing.value = (existing.value ?? 0) + (row.value ?? 0);
+        existing.items += row.items;
+      } else {
+        counts.set(id, { ...row, key: route });
+      }
+    }
+  }
+  return [...counts.values()];
+}
+
+// One series per key over `buckets`, each point compared with the bucket `lag` earlier
+// `buckets` includes the lag's leading buckets, which are only used for comparison
+// Counts of missing buckets are 0; averages of missing buckets are null
+export function buildSeries(
+  rows: TrendRow[],
+  buckets: string[],
+  lag: number,
+  kind: "count" | "average"
+): TrendSeries[] {
+  const byKey = new Map<string, Map<string, TrendRow>>();
+  for (const row of rows) {
+    if (!byKey.has(row.key)) byKey.set(row.key, new Map());
+    byKey.get(row.key)!.set(row.bucket, row);
+  }
+
+  const series: TrendSeries[] = [];
+  for (const [key, values] of byKey) {
+    const valueAt = (bucket: string) => values.get(bucket)?.value ?? (kind === "count" ? 0 : null);
+    const shown = buckets.slice(lag);
+    const points = shown.map((bucket, i) => {
+      const value = valueAt(bucket);
+      const previous = valueAt(buckets[i]);
+      const delta = value !== null && previous !== null ? round(value - previous) : null;
+      return {
+        bucket,
+        value: value !== null ? round(value) : null,
+        delta,
+        growth_rate: delta !== null && previous ? round(delta / previous) : null,
+      };
+    });
+    const total = shown.reduce((sum, bucket) => {
+      const row = values.get(bucket);
+      return sum + (kind === "count" ? row?.value ?? 0 : row?.items ?? 0);
+    }, 0);
+    if (total > 0) series.push({ key, total, points });
+  }
+  return series.sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,171 @@
+// Runtime validation for incoming feedback
+
+import { Feedback, FeedbackDB } from "./db";
+import { SourceConfig } from "./kv";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// An item left out of a batch, by its position in the batch
+export interface RejectedFeedback {
+  index: number;
+  id?: unknown;
+  errors: FieldError[];
+}
+
+export type ValidationResult =
+  | { ok: true; value: Feedback }
+  | { ok: false; errors: FieldError[] };
+
+// Maximum lengths per field (characters)
+export const FEEDBACK_LIMITS = {
+  id: 200,
+  source: 50,
+  title: 500,
+  content: 65536, // GitHub issue body limit
+  label: 500,
+  author: 200,
+  parent_id: 200,
+  raw_metadata: 100000,
+};
+
+// Source values accepted on ingest: every declared source name and type
+export function knownSources(configs: SourceConfig[]): Set<string> {
+  const sources = new Set<string>();
+  for (const config of configs) {
+    sources.add(config.name);
+    if (config.type !== "custom") sources.add(config.type);
+  }
+  return sources;
+}
+
+// Validate and normalize a feedback object (trimmed strings, ISO created_at, JSON raw_metadata)
+export function validateFeedback(input: unknown, sources: Set<string>): ValidationResult {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { ok: false, errors: [{ field: "", message: "Expected a feedback object" }] };
+  }
+
+  const record = input as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  const string = (field: keyof typeof FEEDBACK_LIMITS, required: boolean): string | undefined => {
+    const value = record[field];
+    if (value === undefined || value === null || (typeof value === "string" && value.trim() === "")) {
+      if (required) errors.push({ field, message: "is required" });
+      return undefined;
+    }
+    if (typeof value !== "string") {
+      errors.push({ field, message: "must be a string" });
+      return undefined;
+    }
+    const trimmed = value.trim();
+    if (trimmed.length > FEEDBACK_LIMITS[field]) {
+      errors.push({ field, message: `must be at most ${FEEDBACK_LIMITS[field]} characters` });
+      return undefined;
+    }
+    return trimmed;
+  };
+
+  const id = string("id", true);
+  const source = string("source", true);
+  const title = string("title", true);
+  const content = string("content", true);
+  const label = string("label", false);
+  const author = string("author", false);
+  const parentId = string("parent_id", false);
+
+  if (parentId && parentId === id) {
+    errors.push({ field: "parent_id", message: "must not reference the item itself" });
+  }
+
+  if (source && !sources.has(source)) {
+    errors.push({ field: "source", message: `unknown source "${source}" (known: ${[...sources].join(", ")})` });
+  }
+
+  const createdAt = normalizeTimestamp(record.created_at);
+  if (createdAt === null) {
+    errors.push({
+      field: "created_at",
+      message: record.created_at === undefined ? "is required" : "must be an ISO 8601 timestamp",
+    });
+  }
+
+  let rawMetadata: string | undefined;
+  if (record.raw_metadata !== undefined && record.raw_metadata !== null) {
+    if (typeof record.raw_metadata === "string") {
+      try {
+        JSON.parse(record.raw_metadata);
+        rawMetadata = record.raw_metadata;
+      } catch {
+        errors.push({ field: "raw_metadata", message: "must be valid JSON" });
+      }
+    } else if (typeof record.raw_metadata === "object") {
+      rawMetadata = JSON.stringify(record.raw_metadata);
+    } else {
+      errors.push({ field: "raw_metadata", message: "must be a JSON object or JSON string" });
+    }
+
+    if (rawMetadata && rawMetadata.length > FEEDBACK_LIMITS.raw_metadata) {
+      errors.push({ field: "raw_metadata", message: `must be at most ${FEEDBACK_LIMITS.raw_metadata} characters` });
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      id: id!,
+      source: source!,
+      title: title!,
+      content: content!,
+      label,
+      author,
+      created_at: createdAt!,
+      raw_metadata: rawMetadata,
+      parent_id: parentId,
+    },
+  };
+}
+
+// Parent IDs referenced by a batch that are not thread roots, with the reason
+// Threads are one level deep: a parent must exist (in the batch or the database) and not be a reply itself
+export async function findInvalidParents(items: Feedback[], db: FeedbackDB): Promise<Map<string, string>> {
+  const batchParents = new Map(items.map((f) => [f.id, f.parent_id ?? null]));
+  const referenced = [...new Set(items.map((f) => f.parent_id).filter((p): p is string => !!p))];
+  if (referenced.length === 0) return new Map();
+
+  const stored = await db.getParentIds(referenced.filter((p) => !batchParents.has(p)));
+  const invalid = new Map<string, string>();
+  for (const parentId of referenced) {
+    const parentOfParent = batchParents.has(parentId) ? batchParents.get(parentId) : stored.get(parentId);
+    if (parentOfParent === undefined) {
+      invalid.set(parentId, `references unknown feedback "${parentId}"`);
+    } else if (parentOfParent !== null) {
+      invalid.set(parentId, `references reply "${parentId}"; use its thread root "${parentOfParent}"`);
+    }
+  }
+  return invalid;
+}
+
+// Normalize a timestamp to UTC ISO 8601 so string comparisons in date filters hold
+export function normalizeTimestamp(value: unknown): string | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    // Accept unix seconds or milliseconds (out-of-range values give an invalid Date)
+    const date = new Date(value < 1e12 ? value * 1000 : value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+  if (typeof value !== "string") return null;
+
+  // Require at least a full date so strings like "5" or "March" are rejected
+  if (!/^\d{4}-\d{2}-\d{2}/.test(value.trim())) return null;
+
+  const parsed = new Date(value.trim());
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+export function formatFieldErrors(errors: FieldError[]): string {
+  return errors.map((e) => (e.field ? `${e.field} ${e.message}` : e.message)).join("; ");
+}
@@ -0,0 +1,43 @@
+// Workers AI stand-in shared by the specs
+
+export type FakeAnswer = string | Error | 'hang';
+
+// `answer` is the response text of every call, or picks one per model and call index:
+// an Error fails the call and 'hang' never answers. Each call is recorded with its input.
+export function fakeAi(answer: string | ((model: string, call: number) => FakeAnswer)) {
+	const calls: { model: string; input: any }[] = [];
+	const ai = {
+		run: async (model: string, input: any) => {
+			calls.push({ model, input });
+			const result = typeof answer === 'string' ? answer : answer(model, calls.length - 1);
+			if (result instanceof Error) throw result;
+			if (result === 'hang') return new Promise(() => {});
+			return { response: result, usage: { prompt_tokens: 12, completion_tokens: 3 } };
+		},
+	} as unknown as Ai;
+	return { ai, calls };
+}
+
+// Every call fails, as when Workers AI is out of capacity
+export function failingAi(): Ai {
+	return fakeAi(() => new Error('capacity exceeded')).ai;
+}
+
+type Scores = { urgency: number; sentiment: number; impact: number; actionability: number };
+
+// Classification output as the model returns it; fields not given keep a severe default
+export function classificationResponse(
+	output: {
+		classification?: Partial<Scores>;
+		signals?: { signal_type: string; signal_value: string; confidence: number }[];
+		confidence?: number;
+		reasoning?: string;
+	} = {}
+): string {
+	return JSON.stringify({
+		classification: { urgency: 4, sentiment: -1, impact: 4, actionability: 3, ...output.classification },
+		signals: output.signals ?? [],
+		confidence: output.confidence ?? 0.8,
+		reasoning: output.reasoning ?? 'Outage',
+	});
+}
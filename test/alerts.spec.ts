@@ -0,0 +1,143 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { createNotifiers, detectSpikes, runSpikeDetection, WindowCount } from '../src/alerts';
+import { HttpFetcher } from '../src/connectors';
+import { Feedback, FeedbackDB } from '../src/db';
+import { ConfigStore } from '../src/kv';
+import { applySchema } from './schema';
+
+const HOUR = 60 * 60 * 1000;
+
+// Local fake endpoint recording alert deliveries; URLs containing "broken" fail
+function fakeDestinations() {
+	const requests: { url: string; body: any }[] = [];
+	const fetcher: HttpFetcher = async (url, init) => {
+		requests.push({ url, body: JSON.parse(init!.body as string) });
+		return new Response(null, { status: url.includes('broken') ? 500 : 200 });
+	};
+	return { fetcher, requests };
+}
+
+// One item per earlier day, then a burst of installation reports in the last hours
+async function seed(db: FeedbackDB, now: Date) {
+	const items: (Feedback & { urgency: number; route: string })[] = [];
+	for (let day = 1; day <= 14; day++) {
+		items.push({
+			id: `gh-issue-${day}`,
+			source: 'github',
+			title: `Install report ${day}`,
+			content: 'Installer fails',
+			created_at: new Date(now.getTime() - (day * 24 + 12) * HOUR).toISOString(),
+			urgency: 2,
+			route: 'standard_backlog',
+		});
+	}
+	for (let i = 1; i <= 6; i++) {
+		items.push({
+			id: `discord-${i}`,
+			source: 'discord',
+			title: `Installer broken ${i}`,
+			content: 'MSI exits with 1603',
+			created_at: new Date(now.getTime() - i * HOUR).toISOString(),
+			urgency: i === 4 ? 5 : 3,
+			route: 'immediate_engineering',
+		});
+	}
+
+	await db.ingestFeedbackBatch(items.map(({ urgency, route, ...feedback }) => feedback));
+	for (const item of items) {
+		await db.storeClassification({ feedback_id: item.id, urgency: item.urgency, sentiment: -1, impact: 3, actionability: 3, route: item.route });
+		await db.storeSignals([{ feedback_id: item.id, signal_type: 'feature_area', signal_value: 'installation', confidence: 0.9 }]);
+	}
+}
+
+describe('spike alerts', () => {
+	beforeAll(applySchema);
+
+	it('flags counts far above the rolling baseline', async () => {
+		const settings = await new ConfigStore(env.KV).getAlertSettings();
+		const series = (key: string, windows: number[]): WindowCount[] =>
+			windows.map((count, window) => ({ dimension: 'signal', key, window, count }));
+
+		const spikes = detectSpikes(
+			[
+				...series('feature_area:installation', [12, 2, 3, 2, 3, 2, 3, 2, 3, 2, 3, 2, 3, 2, 3]),
+				...series('feature_area:dns', [4, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]), // below min_count
+				...series('feature_area:tunnels', [9, 8, 9, 10, 8, 9, 10, 8, 9, 10, 8, 9, 10, 8, 9]), // usual volume
+				...series('issue_category:bug', [5]), // flat zero baseline: deviation floored at 1
+			],
+			settings
+		);
+		expect(spikes).toEqual([
+			{ dimension: 'signal', key: 'feature_area:installation', current_count: 12, baseline_mean: 2.5, baseline_stddev: 0.5, z_score: 9.5 },
+			{ dimension: 'signal', key: 'issue_category:bug', current_count: 5, baseline_mean: 0, baseline_stddev: 0, z_score: 5 },
+		]);
+	});
+
+	it('stores alerts with top items, notifies destinations and respects the cool-down', async () => {
+		const db = new FeedbackDB(env.DB);
+		const config = new ConfigStore(env.KV);
+		const now = new Date();
+		await seed(db, now);
+		await config.updateAlertSettings({
+			destinations: [
+				{ name: 'pm-webhook', type: 'webhook', url: 'https://hooks.example.com/alerts' },
+				{ name: 'pm-slack', type: 'slack', url: 'https://hooks.slack.example.com/broken' },
+			],
+		});
+		const { fetcher, requests } = fakeDestinations();
+
+		const alerts = await runSpikeDetection(db, config, createNotifiers(fetcher), now);
+		expect(alerts.map((a) => [a.dimension, a.key, a.current_count, a.baseline_mean, a.z_score])).toEqual([
+			['route', 'immediate_engineering', 6, 0, 6],
+			['signal', 'feature_area:installation', 6, 1, 5],
+		]);
+		expect(alerts[1].top_items.map((item) => item.id)).toEqual(['discord-4', 'discord-1', 'discord-2', 'discord-3', 'discord-5']);
+		expect(alerts[1].deliveries).toEqual([
+			{ destination: 'pm-webhook', status: 'sent' },
+			{ destination: 'pm-slack', status: 'failed', error: 'https://hooks.slack.example.com/broken returned 500 Internal Server Error' },
+		]);
+		expect(requests[0].body).toMatchObject({ type: 'feedback_spike', alert: { key: 'immediate_engineering' } });
+		expect(requests[1].body.text).toContain('Feedback spike in route *immediate_engineering*: 6 items');
+
+		// Within the cool-down nothing is raised again
+		expect(await runSpikeDetection(db, config, createNotifiers(fetcher), now)).toEqual([]);
+
+		const stored = await (await SELF.fetch(`http://example.com/api/alerts/${alerts[1].id}`)).json<any>();
+		expect(stored).toMatchObject({ status: 'open', deliveries: alerts[1].deliveries, top_items: alerts[1].top_items });
+	});
+
+	it('acknowledges alerts and validates settings', async () => {
+		const db = new FeedbackDB(env.DB);
+		const config = new ConfigStore(env.KV);
+		const now = new Date();
+		await seed(db, now);
+		const [alert] = await runSpikeDetection(db, config, createNotifiers(fakeDestinations().fetcher), now);
+
+		const anonymous = await SELF.fetch(`http://example.com/api/alerts/${alert.id}/acknowledge`, { method: 'POST' });
+		expect(anonymous.status).toBe(400);
+		const acknowledged = await SELF.fetch(`http://example.com/api/alerts/${alert.id}/acknowledge`, {
+			method: 'POST',
+			headers: { 'Cf-Access-Authenticated-User-Email': 'pm@example.com' },
+		});
+		expect((await acknowledged.json<any>()).alert).toMatchObject({ status: 'acknowledged', acknowledged_by: 'pm@example.com' });
+		const again = await SELF.fetch(`http://example.com/api/alerts/${alert.id}/acknowledge`, {
+			method: 'POST',
+			body: JSON.stringify({ acknowledged_by: 'pm' }),
+		});
+		expect(again.status).toBe(409);
+
+		const open = await (await SELF.fetch('http://example.com/api/alerts?status=open')).json<any>();
+		expect(open.alerts.map((a: any) => a.key)).toEqual(['feature_area:installation']);
+
+		const rejected = await SELF.fetch('http://example.com/api/config/alerts', {
+			method: 'PUT',
+			body: JSON.stringify({ z_threshold: 0, destinations: [{ name: 'pager', type: 'sms', url: 'http://example.com' }] }),
+		});
+		expect((await rejected.json<any>()).errors).toEqual([
+			{ field: 'z_threshold', message: 'must be a positive number' },
+			{ field: 'destinations[0].type', message: 'must be one of webhook, slack' },
+			{ field: 'destinations[0].url', message: 'must be an https URL' },
+		]);
+	});
+});
@@ -0,0 +1,80 @@
+import { env } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { Feedback, FeedbackDB } from '../src/db';
+import { Embedder, FeedbackClusterer, InMemoryVectorIndex } from '../src/clusters';
+import { applySchema } from './schema';
+
+// Fake embedder: texts mentioning QUIC land close together, everything else elsewhere
+const embedder: Embedder = {
+	async embed(texts) {
+		return texts.map((t) => (/quic/i.test(t) ? [1, 0.05, 0] : /gui/i.test(t) ? [0, 1, 0] : [0, 0, 1]));
+	},
+};
+
+const settings = { enabled: true, similarity_threshold: 0.9 };
+
+function item(id: string, source: string, title: string): Feedback {
+	return { id, source, title, content: title, created_at: '2026-01-01T00:00:00.000Z' };
+}
+
+describe('near-duplicate clustering', () => {
+	beforeAll(applySchema);
+
+	it('groups similar reports across sources and counts them as demand', async () => {
+		const db = new FeedbackDB(env.DB);
+		const clusterer = new FeedbackClusterer(embedder, new InMemoryVectorIndex(), db, settings);
+		const reports = [
+			item('gh-1', 'github', 'cloudflared never retries QUIC after http2 fallback'),
+			item('x-1', 'x', 'stuck on http2, QUIC is never attempted again'),
+			item('gh-2', 'github', 'Please add a GUI'),
+		];
+		await db.ingestFeedbackBatch(reports);
+		for (const report of reports) {
+			const route = report.source === 'x' ? 'immediate_engineering,trust_risk' : 'immediate_engineering';
+			await db.storeClassification({ feedback_id: report.id, urgency: 4, sentiment: 0, impact: 4, actionability: 4, route });
+		}
+
+		const first = await clusterer.assign(reports[0]);
+		const second = await clusterer.assign(reports[1]);
+		const third = await clusterer.assign(reports[2]);
+
+		expect(second).toMatchObject({ cluster_id: first.cluster_id, duplicate_of: 'gh-1' });
+		expect(third.cluster_id).not.toBe(first.cluster_id);
+
+		const clusters = await db.getClusters(2);
+		expect(clusters).toHaveLength(1);
+		expect(clusters[0]).toMatchObject({ representative_id: 'gh-1', report_count: 2 });
+		expect(clusters[0].members.map((m: any) => m.id)).toEqual(['gh-1', 'x-1']);
+
+		const queue = await db.getFeedbackByRoute('immediate_engineering');
+		expect(queue.map((f) => [f.id, f.report_count])).toEqual([
+			['gh-1', 2],
+			['gh-2', 1],
+		]);
+
+		const metrics = await db.getMetrics('2025-01-01T00:00:00.000Z', '2027-01-01T00:00:00.000Z');
+		expect(metrics).toMatchObject({ total: 3, unique_issues: 2 });
+		// Items count in every route they were assigned
+		expect(metrics.by_route).toEqual([
+			{ route: 'immediate_engineering', count: 3, unique_count: 2 },
+			{ route: 'trust_risk', count: 1, unique_count: 1 },
+		]);
+	});
+
+	it('moves edited reports out of their old cluster', async () => {
+		const db = new FeedbackDB(env.DB);
+		const clusterer = new FeedbackClusterer(embedder, new InMemoryVectorIndex(), db, settings);
+		const a = item('gh-1', 'github', 'QUIC never retried');
+		const b = item('x-1', 'x', 'QUIC fallback is sticky');
+		await db.ingestFeedbackBatch([a, b]);
+		const { cluster_id } = await clusterer.assign(a);
+		await clusterer.assign(b);
+
+		const edited = { ...a, title: 'Actually, I want a GUI', content: 'GUI please' };
+		await db.ingestFeedback(edited);
+		await clusterer.assign(edited);
+
+		expect(await db.getClusterMembership('x-1')).toEqual({ cluster_id, representative_id: 'x-1' });
+		expect((await db.getClusterMembership('gh-1'))?.cluster_id).not.toBe(cluster_id);
+	});
+});
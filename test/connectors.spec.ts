@@ -0,0 +1,133 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { Feedback, FeedbackDB } from '../src/db';
+import { ConfigStore, SourceConfig } from '../src/kv';
+import { createConnectors, HttpFetcher, pollSources } from '../src/connectors';
+
+// Local fake server: routes requests by pathname and records what was asked for
+function fakeServer(routes: Record<string, (url: URL) => unknown>) {
+	const requests: URL[] = [];
+	const fetcher: HttpFetcher = async (input) => {
+		const url = new URL(input);
+		requests.push(url);
+		const handler = routes[url.pathname];
+		if (!handler) return new Response('not found', { status: 404 });
+		return Response.json(handler(url));
+	};
+	return { fetcher, requests };
+}
+
+function fakeDB() {
+	const ingested: Feedback[] = [];
+	const db = {
+		ingestFeedbackBatch: async (items: Feedback[]) => {
+			ingested.push(...items);
+			return { inserted: items.map((i) => i.id), changed: [], unchanged: [], threads_updated: [] };
+		},
+	} as unknown as FeedbackDB;
+	return { db, ingested };
+}
+
+const github: SourceConfig = {
+	name: 'github-issues',
+	type: 'github',
+	enabled: true,
+	api_endpoint: 'https://api.github.test/repos/cloudflare/cloudflared/issues',
+	polling_interval_minutes: 15,
+};
+
+describe('connectors', () => {
+	it('fetches GitHub issues incrementally and skips pull requests', async () => {
+		const server = fakeServer({
+			'/repos/cloudflare/cloudflared/issues': () => [
+				{ id: 1, number: 1, title: 'QUIC never retried', body: 'stuck on http2', user: { login: 'a' }, created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-02T00:00:00Z' },
+				{ id: 2, number: 2, title: 'Bump deps', body: '', user: { login: 'b' }, created_at: '2026-01-01T00:00:00Z', updated_at: '2026-01-03T00:00:00Z', pull_request: {} },
+			],
+		});
+		const connector = createConnectors(server.fetcher).github!;
+
+		const result = await connector.fetchSince(github, '2026-01-01T00:00:00Z');
+
+		expect(server.requests[0].searchParams.get('since')).toBe('2026-01-01T00:00:00Z');
+		expect(result.items.map((i) => i.id)).toEqual(['gh-issue-1']);
+		expect(result.cursor).toBe('2026-01-03T00:00:00Z');
+	});
+
+	it('uses the Discord message snowflake as cursor and ignores bots', async () => {
+		const server = fakeServer({
+			'/channels/1/messages': () => [
+				{ id: '900', content: 'tunnel keeps dropping', timestamp: '2026-01-01T00:00:00Z', author: { username: 'sam' } },
+				{ id: '1000', content: 'automated notice', timestamp: '2026-01-01T00:01:00Z', author: { username: 'bot', bot: true } },
+			],
+		});
+		const connector = createConnectors(server.fetcher).discord!;
+
+		const result = await connector.fetchSince(
+			{ name: 'discord-feedback', type: 'discord', enabled: true, api_endpoint: 'https://discord.test/channels/1/messages' },
+			'850'
+		);
+
+		expect(server.requests[0].searchParams.get('after')).toBe('850');
+		expect(result.items.map((i) => i.id)).toEqual(['discord-900']);
+		expect(result.cursor).toBe('1000');
+	});
+
+	it('polls due sources, advances the cursor and records failures', async () => {
+		const config = new ConfigStore(env.KV);
+		const survey: SourceConfig = { name: 'nps', type: 'survey', enabled: true, api_endpoint: 'https://survey.test/export', polling_interval_minutes: 60 };
+		const broken: SourceConfig = { name: 'tickets', type: 'zendesk', enabled: true, api_endpoint: 'https://zendesk.test/missing' };
+		await config.updateSourceConfigs([survey, broken]);
+
+		const server = fakeServer({
+			'/export': () => ({
+				responses: [
+					{ id: 'r1', answer: 'Setup took minutes', submitted_at: '2026-01-05T10:00:00Z' },
+					{ id: 'r2', answer: 'x'.repeat(70000), submitted_at: '2026-01-05T09:00:00Z' },
+				],
+			}),
+		});
+		const { db, ingested } = fakeDB();
+		const now = new Date('2026-01-05T12:00:00Z');
+
+		const results = await pollSources(config, db, createConnectors(server.fetcher), {}, now);
+
+		expect(results).toEqual([
+			{ source: 'nps', status: 'success', ingested: 1, rejected: 1 },
+			{ source: 'tickets', status: 'failed', error: expect.stringContaining('404') },
+		]);
+		// Polled items are validated and normalized like /api/ingest
+		expect(ingested.map((i) => [i.id, i.created_at])).toEqual([['survey-nps-r1', '2026-01-05T10:00:00.000Z']]);
+		expect(await config.getSourceStatus('nps')).toMatchObject({
+			items_ingested: 1,
+			items_rejected: 1,
+			rejected: [{ index: 1, id: 'survey-nps-r2', errors: [{ field: 'content', message: 'must be at most 65536 characters' }] }],
+		});
+		expect(await config.getLastSyncTime('nps')).toBe('2026-01-05T10:00:00Z');
+		expect(await config.getSourceStatus('tickets')).toMatchObject({ consecutive_failures: 1 });
+
+		// Within the polling interval nothing is fetched again
+		const again = await pollSources(config, db, createConnectors(server.fetcher), {}, new Date('2026-01-05T12:30:00Z'));
+		expect(again.map((r) => r.status)).toEqual(['skipped', 'skipped']);
+	});
+
+	it('only sends SOURCE_TOKEN_* secrets to a source', async () => {
+		const config = new ConfigStore(env.KV);
+		await config.updateSourceConfigs([
+			{ ...github, name: 'leaky', auth_secret: 'GITHUB_WEBHOOK_SECRET' },
+			{ ...github, name: 'tokened', auth_secret: 'SOURCE_TOKEN_GITHUB' },
+		]);
+		const headers: (string | null)[] = [];
+		const fetcher: HttpFetcher = async (_url, init) => {
+			headers.push(new Headers(init?.headers).get('Authorization'));
+			return Response.json([]);
+		};
+
+		const results = await pollSources(config, fakeDB().db, createConnectors(fetcher), { GITHUB_WEBHOOK_SECRET: 'hook', SOURCE_TOKEN_GITHUB: 'ghp' });
+
+		expect(results).toEqual([
+			{ source: 'leaky', status: 'failed', error: 'auth_secret must name a SOURCE_TOKEN_* secret' },
+			{ source: 'tokened', status: 'success', ingested: 0, rejected: 0 },
+		]);
+		expect(headers).toEqual(['Bearer ghp']);
+	});
+});
@@ -0,0 +1,67 @@
+import { env } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { Feedback, FeedbackDB } from '../src/db';
+import { applySchema } from './schema';
+
+const issue: Feedback = {
+	id: 'gh-issue-1',
+	source: 'github',
+	title: 'QUIC never retried',
+	content: 'cloudflared stays on http2 forever',
+	created_at: '2026-01-01T00:00:00.000Z',
+};
+
+describe('FeedbackDB change detection', () => {
+	beforeAll(applySchema);
+
+	it('treats re-ingesting unchanged content as a no-op', async () => {
+		const db = new FeedbackDB(env.DB);
+		expect(await db.ingestFeedback(issue)).toEqual({ inserted: [issue.id], changed: [], unchanged: [], threads_updated: [] });
+		const before = await env.DB.prepare('SELECT * FROM feedback WHERE id = ?').bind(issue.id).first();
+
+		expect(await db.ingestFeedback(issue)).toEqual({ inserted: [], changed: [], unchanged: [issue.id], threads_updated: [] });
+		const after = await env.DB.prepare('SELECT * FROM feedback WHERE id = ?').bind(issue.id).first();
+		expect(after).toEqual(before);
+	});
+
+	it('bumps the revision and requeues edited feedback', async () => {
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedback(issue);
+		await db.storeClassification({ feedback_id: issue.id, urgency: 3, sentiment: 0, impact: 3, actionability: 3 });
+		expect(await db.getUnclassifiedFeedback()).toEqual([]);
+
+		const result = await db.ingestFeedback({ ...issue, content: 'Still happening on 2026.1' });
+
+		expect(result.changed).toEqual([issue.id]);
+		const [row] = await db.getAllFeedbackWithClassifications();
+		expect(row).toMatchObject({ revision: 2, classification_stale: 1, urgency: 3 });
+		expect((await db.getUnclassifiedFeedback()).map((f) => f.id)).toEqual([issue.id]);
+
+		await db.storeClassification({ feedback_id: issue.id, urgency: 4, sentiment: -1, impact: 3, actionability: 3 });
+		expect(await db.getUnclassifiedFeedback()).toEqual([]);
+	});
+
+	it('requeues the thread root when a reply arrives and never classifies replies alone', async () => {
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedback(issue);
+		await db.storeClassification({ feedback_id: issue.id, urgency: 3, sentiment: 0, impact: 3, actionability: 3 });
+
+		const reply: Feedback = {
+			id: 'gh-comment-7',
+			source: 'github',
+			title: 'Re: QUIC never retried',
+			content: 'Still happening on 2026.1, this is blocking our rollout',
+			created_at: '2026-01-03T00:00:00.000Z',
+			parent_id: issue.id,
+		};
+		const result = await db.ingestFeedback(reply);
+
+		expect(result.threads_updated).toEqual([issue.id]);
+		expect((await db.getUnclassifiedFeedback()).map((f) => f.id)).toEqual([issue.id]);
+		expect((await db.getThreadReplies(issue.id)).map((f) => f.id)).toEqual([reply.id]);
+		// Metrics count threads, not their replies
+		const metrics = await db.getMetrics('2025-01-01T00:00:00.000Z', '2027-01-01T00:00:00.000Z');
+		expect(metrics).toMatchObject({ total: 1, unique_issues: 1, by_source: [{ source: 'github', count: 1 }] });
+		expect(metrics.by_language.map((l: any) => l.count)).toEqual([1]);
+	});
+});
@@ -0,0 +1,90 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { FeedbackClassifier } from '../src/ai';
+import { Classification, Feedback, FeedbackDB } from '../src/db';
+import { ConfigStore } from '../src/kv';
+import { classificationResponse, fakeAi } from './ai';
+import { applySchema } from './schema';
+
+const items: Feedback[] = [
+	{ id: 'gh-issue-1', source: 'github', title: 'Tunnel drops', content: 'Connection resets', created_at: '2026-01-01T00:00:00.000Z' },
+	{ id: 'gh-issue-2', source: 'github', title: 'Docs typo', content: 'Small typo in the README', created_at: '2026-01-02T00:00:00.000Z' },
+	{ id: 'gh-issue-3', source: 'github', title: 'Login loop', content: 'Cannot log in', created_at: '2026-01-03T00:00:00.000Z' },
+];
+
+function scores(feedback_id: string, model: string, urgency: number, impact: number, route: string): Classification {
+	return { feedback_id, urgency, sentiment: 0, impact, actionability: 3, route, model, prompt_version: 'builtin-1' };
+}
+
+const { ai } = fakeAi(
+	classificationResponse({ classification: { urgency: 2, sentiment: 0, impact: 2, actionability: 3 }, reasoning: 'Minor' })
+);
+
+describe('classification history and drift', () => {
+	beforeAll(applySchema);
+
+	it('keeps every classification version and points at the current one', async () => {
+		const db = new FeedbackDB(env.DB);
+		const config = new ConfigStore(env.KV);
+		await db.ingestFeedbackBatch(items);
+
+		const classifier = new FeedbackClassifier(ai);
+		const first = await classifier.classifyFeedback(items[0], await config.getClassificationRules());
+		await db.storeClassification(first.classification);
+		await config.updateClassificationRules({ default_route: 'quick_win_backlog' });
+		const second = await classifier.classifyFeedback(items[0], await config.getClassificationRules());
+		await db.storeClassification(second.classification);
+
+		expect(first.classification.rules_hash).toMatch(/^[0-9a-f]{12}$/);
+		expect(second.classification.rules_hash).not.toBe(first.classification.rules_hash);
+
+		// Clearing current classifications keeps the history
+		await env.DB.prepare('DELETE FROM classifications').run();
+		await db.storeClassification(scores('gh-issue-1', 'manual', 4, 4, 'trust_risk'));
+
+		const history = await (await SELF.fetch('http://example.com/api/feedback/gh-issue-1/classification/history')).json<any>();
+		expect(history.versions.map((v: any) => [v.model, v.rules_hash, v.urgency, v.current])).toEqual([
+			['@cf/meta/llama-3.1-70b-instruct', first.classification.rules_hash, 2, false],
+			['@cf/meta/llama-3.1-70b-instruct', second.classification.rules_hash, 2, false],
+			['manual', null, 4, true],
+		]);
+		expect(history.classification.history_id).toBe(history.versions[2].id);
+	});
+
+	it('reports score deltas and route changes between two versions', async () => {
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedbackBatch(items);
+		for (const classification of [
+			scores('gh-issue-1', 'model-a', 4, 4, 'immediate_engineering'),
+			scores('gh-issue-2', 'model-a', 1, 1, 'standard_backlog'),
+			scores('gh-issue-3', 'model-a', 3, 3, 'standard_backlog'),
+			scores('gh-issue-1', 'model-b', 2, 3, 'standard_backlog'),
+			scores('gh-issue-2', 'model-b', 1, 1, 'standard_backlog'),
+		]) {
+			await db.storeClassification(classification);
+		}
+
+		const missing = await SELF.fetch('http://example.com/api/drift?from=model-a');
+		expect(missing.status).toBe(400);
+		expect((await missing.json<any>()).versions.map((v: any) => [v.model, v.items])).toEqual([
+			['model-a', 3],
+			['model-b', 2],
+		]);
+
+		const report = await (await SELF.fetch('http://example.com/api/drift?from=model-a&to=model-b')).json<any>();
+		expect(report).toMatchObject({ from: 'model-a', to: 'model-b', from_items: 3, to_items: 2, compared: 2 });
+		expect(report.dimensions.urgency).toEqual({ mean_delta: -1, mean_abs_delta: 1, changed: 1 });
+		expect(report.dimensions.sentiment).toEqual({ mean_delta: 0, mean_abs_delta: 0, changed: 0 });
+		expect(report.routes).toEqual({
+			changed: 1,
+			transitions: [{ from: 'immediate_engineering', to: 'standard_backlog', count: 1 }],
+		});
+		expect(report.items).toEqual([
+			expect.objectContaining({
+				feedback_id: 'gh-issue-1',
+				deltas: { urgency: -2, sentiment: 0, impact: -1, actionability: 0 },
+				route_changed: true,
+			}),
+		]);
+	});
+});
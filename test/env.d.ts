@@ -1,3 +1,6 @@
 declare module 'cloudflare:test' {
-	interface ProvidedEnv extends Env {}
+	interface ProvidedEnv extends Env {
+		TEST_SCHEMA: string;
+		TEST_MIGRATIONS: D1Migration[];
+	}
 }
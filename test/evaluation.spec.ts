@@ -0,0 +1,172 @@
+import { env, createExecutionContext, createMessageBatch, getQueueResult, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import worker from '../src';
+import { Classification, Feedback, FeedbackDB } from '../src/db';
+import { ConfigStore } from '../src/kv';
+import { answeringModels, computeMetrics, ExampleClassifier, labeledExampleFromFeedback, labeledExamplesFromDataset, runEvaluation } from '../src/evaluation';
+import { ClassificationMessage } from '../src/pipeline';
+import { classificationResponse, fakeAi } from './ai';
+import { applySchema } from './schema';
+
+const dataset = {
+	hypothetical_issues: [
+		{
+			id: 'A',
+			title: 'Docs for access policies are outdated',
+			comment: 'Half the flags do not exist anymore.',
+			classification: { urgency: 2, sentiment: -2, impact: 3, actionability: 4 },
+			routing: { immediate_engineering: false, quick_win_backlog: true, trust_risk: true },
+		},
+		{
+			id: 'B',
+			title: 'Tunnel disconnects silently under memory pressure',
+			comment: 'Three production nodes affected.',
+			classification: { urgency: 5, sentiment: 0, impact: 4, actionability: 5 },
+			routing: { immediate_engineering: true, quick_win_backlog: false, trust_risk: false },
+		},
+	],
+};
+
+// Returns canned scores per feedback id
+function fakeClassifier(predictions: Record<string, Omit<Classification, 'feedback_id'>>): ExampleClassifier {
+	return {
+		classifyFeedback: async (feedback: Feedback) => {
+			if (!predictions[feedback.id]) throw new Error('model timeout');
+			return { classification: { feedback_id: feedback.id, ...predictions[feedback.id] } };
+		},
+	};
+}
+
+// Deliver queued evaluation examples to the consumer and return the ack/retry result
+async function deliver(messages: ClassificationMessage[], ai: Ai) {
+	const batch = createMessageBatch<ClassificationMessage>(
+		'feedback-classification',
+		messages.map((body, i) => ({ id: `msg-${i + 1}`, timestamp: new Date(), attempts: 1, body }))
+	);
+	const ctx = createExecutionContext();
+	await worker.queue(batch, { ...env, AI: ai }, ctx);
+	return getQueueResult(batch, ctx);
+}
+
+async function run(id: number) {
+	return (await SELF.fetch(`http://example.com/api/evaluations/${id}`)).json<any>();
+}
+
+describe('classifier evaluation', () => {
+	beforeAll(applySchema);
+
+	it('scores dimensions and routes against the expected labels', async () => {
+		const examples = labeledExamplesFromDataset(dataset);
+		expect(examples[0].expected.routes).toEqual(['quick_win_backlog', 'trust_risk']);
+
+		const rules = await new ConfigStore(env.KV).getClassificationRules();
+		const { metrics, results } = await runEvaluation(
+			examples,
+			fakeClassifier({
+				'hypothetical-A': { urgency: 2, sentiment: -1, impact: 3, actionability: 4, route: 'trust_risk', model: 'primary' },
+				'hypothetical-B': { urgency: 4, sentiment: 0, impact: 4, actionability: 3, route: 'immediate_engineering', model: 'fallback' },
+			}),
+			rules
+		);
+
+		expect(results.every((r) => r.predicted)).toBe(true);
+		expect(metrics.dimensions.urgency).toEqual({ accuracy: 0.5, within_one: 1, mae: 0.5 });
+		expect(metrics.dimensions.actionability).toEqual({ accuracy: 0.5, within_one: 0.5, mae: 1 });
+		expect(metrics.routes.trust_risk).toMatchObject({ tp: 1, fp: 0, fn: 0, precision: 1, recall: 1 });
+		expect(metrics.routes.quick_win_backlog).toMatchObject({ tp: 0, fn: 1, precision: null, recall: 0 });
+		expect(metrics.confusion_matrix.quick_win_backlog.trust_risk).toBe(1);
+		expect(metrics.confusion_matrix.immediate_engineering.immediate_engineering).toBe(1);
+		// The run records the model that answered each example, fallbacks included
+		expect(results.map((r) => r.model)).toEqual(['primary', 'fallback']);
+		expect(answeringModels(results)).toBe('primary,fallback');
+	});
+
+	it('keeps operator-defined routes in the route metrics', () => {
+		const scores = { urgency: 3, sentiment: 0, impact: 3, actionability: 3 };
+		const metrics = computeMetrics(
+			[{ id: 'a', expected: { classification: scores, routes: ['security_review'] }, predicted: { classification: scores, routes: ['triage'] } }],
+			['security_review', 'triage', 'standard_backlog']
+		);
+
+		expect(metrics.routes.security_review).toMatchObject({ tp: 0, fn: 1 });
+		expect(metrics.routes.triage).toMatchObject({ tp: 0, fp: 1 });
+		expect(metrics.confusion_matrix.security_review).toEqual({ security_review: 0, triage: 1, standard_backlog: 0 });
+		expect(metrics.confusion_matrix.standard_backlog.standard_backlog).toBe(0);
+	});
+
+	it('counts classifier failures separately from scored examples', async () => {
+		const rules = await new ConfigStore(env.KV).getClassificationRules();
+		const { metrics, results } = await runEvaluation(labeledExamplesFromDataset(dataset), fakeClassifier({}), rules);
+
+		expect(metrics).toMatchObject({ examples: 2, evaluated: 0, failed: 2 });
+		expect(metrics.dimensions.impact.mae).toBeNull();
+		expect(results[0].error).toBe('model timeout');
+		expect(answeringModels(results)).toBeNull();
+	});
+
+	it('reads labels from imported feedback and stores runs per prompt version', async () => {
+		const db = new FeedbackDB(env.DB);
+		const [a] = dataset.hypothetical_issues;
+		await db.ingestFeedbackBatch([
+			{
+				id: 'hypothetical-A',
+				source: 'github',
+				title: a.title,
+				content: a.comment,
+				created_at: '2026-01-01T00:00:00.000Z',
+				raw_metadata: JSON.stringify({ classification: a.classification, routing: a.routing }),
+			},
+			{ id: 'gh-issue-1', source: 'github', title: 'Unlabeled', content: 'no labels', created_at: '2026-01-01T00:00:00.000Z' },
+		]);
+
+		const stored = await db.getLabeledFeedback();
+		expect(stored.map((f) => f.id)).toEqual(['hypothetical-A']);
+		expect(labeledExampleFromFeedback(stored[0])?.expected.classification).toEqual(a.classification);
+
+		const rules = await new ConfigStore(env.KV).getClassificationRules();
+		const { metrics, results } = await runEvaluation([labeledExampleFromFeedback(stored[0])!], fakeClassifier({}), rules);
+		const id = await db.storeEvaluationRun({ model: 'm', prompt_version: 'v2', dataset: 'stored', metrics, results });
+
+		expect((await db.getEvaluationRuns('v2')).map((r) => r.id)).toEqual([id]);
+		expect(await db.getEvaluationRuns('v1')).toEqual([]);
+		expect((await db.getEvaluationRun(id))?.results).toHaveLength(1);
+	});
+
+	it('queues runs over the inline limit and stores their metrics once every example is classified', async () => {
+		const invalid = await SELF.fetch('http://example.com/api/evaluate?limit=0', { method: 'POST', body: JSON.stringify(dataset) });
+		expect(await invalid.json()).toEqual({ success: false, errors: [{ field: 'limit', message: 'must be a positive integer' }] });
+
+		// Messages are captured and delivered by hand
+		const sent: ClassificationMessage[] = [];
+		const queue = {
+			sendBatch: async (messages: { body: ClassificationMessage }[]) => {
+				sent.push(...messages.map((m) => m.body));
+			},
+		} as unknown as Queue<ClassificationMessage>;
+		const issues = Array.from({ length: 12 }, (_, i) => ({ ...dataset.hypothetical_issues[1], id: `Q${i}` }));
+		const request = new Request('http://example.com/api/evaluate?notes=nightly', {
+			method: 'POST',
+			body: JSON.stringify({ hypothetical_issues: issues }),
+		});
+		const response = await worker.fetch(request, { ...env, CLASSIFY_QUEUE: queue }, createExecutionContext());
+		expect(response.status).toBe(202);
+		const { id, status, examples } = await response.json<any>();
+		expect({ status, examples }).toEqual({ status: 'running', examples: 12 });
+		expect(sent[11]).toEqual({ feedback_id: 'hypothetical-Q11', evaluation: { run_id: id, position: 11 } });
+		expect(await run(id)).toMatchObject({ status: 'running', remaining: 12, metrics: null });
+
+		const ai = fakeAi(classificationResponse({ classification: { urgency: 5, sentiment: 0, impact: 4, actionability: 5 } })).ai;
+		const first = await deliver(sent.slice(0, 11), ai);
+		expect(first.explicitAcks).toHaveLength(11);
+		expect(await run(id)).toMatchObject({ status: 'running', remaining: 1 });
+
+		await deliver(sent.slice(11), ai);
+		// A duplicate delivery of a classified example is dropped
+		expect((await deliver(sent.slice(0, 1), ai)).explicitAcks).toEqual(['msg-1']);
+		const finished = await run(id);
+		expect(finished).toMatchObject({ status: 'completed', remaining: 0, example_count: 12, failed_count: 0, notes: 'nightly' });
+		expect(finished.results.map((r: any) => r.id)).toEqual(issues.map((issue) => `hypothetical-${issue.id}`));
+		expect(finished.metrics).toMatchObject({ examples: 12, evaluated: 12, failed: 0 });
+		expect(finished.metrics.dimensions.urgency.accuracy).toBe(1);
+	});
+});
@@ -0,0 +1,108 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { FeedbackDB } from '../src/db';
+import { applyLabelChange, mapGitHubEvent, verifyGitHubSignature } from '../src/github';
+import { applySchema } from './schema';
+
+// Deliver a webhook event signed with the test secret
+async function deliver(event: string, payload: unknown) {
+	const body = JSON.stringify(payload);
+	return SELF.fetch('http://example.com/api/webhooks/github', {
+		method: 'POST',
+		headers: { 'X-GitHub-Event': event, 'X-Hub-Signature-256': await sign(env.GITHUB_WEBHOOK_SECRET, body) },
+		body,
+	});
+}
+
+async function sign(secret: string, body: string): Promise<string> {
+	const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+	return 'sha256=' + [...new Uint8Array(mac)].map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+const issuePayload = {
+	action: 'opened',
+	issue: {
+		id: 4242,
+		number: 17,
+		title: 'Tunnel drops after QUIC fallback',
+		body: 'cloudflared never retries QUIC',
+		html_url: 'https://github.com/cloudflare/cloudflared/issues/17',
+		user: { login: 'octocat' },
+		labels: [{ name: 'bug' }, { name: 'tunnels' }],
+		created_at: '2026-01-10T12:00:00Z',
+	},
+	repository: { full_name: 'cloudflare/cloudflared' },
+};
+
+describe('GitHub webhook', () => {
+	beforeAll(applySchema);
+
+	it('verifies X-Hub-Signature-256', async () => {
+		const body = JSON.stringify(issuePayload);
+		expect(await verifyGitHubSignature('s3cret', body, await sign('s3cret', body))).toBe(true);
+		expect(await verifyGitHubSignature('s3cret', body, await sign('other', body))).toBe(false);
+		expect(await verifyGitHubSignature('s3cret', body, null)).toBe(false);
+	});
+
+	it('maps issues and issue_comment events to feedback rows', () => {
+		const issue = mapGitHubEvent('issues', issuePayload);
+		expect(issue).toMatchObject({ id: 'gh-issue-4242', source: 'github', label: 'bug, tunnels', author: 'octocat' });
+		expect(JSON.parse(issue!.raw_metadata!)).toEqual(issuePayload);
+
+		const comment = mapGitHubEvent('issue_comment', {
+			...issuePayload,
+			action: 'created',
+			comment: { id: 99, body: 'still happening', html_url: '', user: { login: 'hubot' }, created_at: '2026-01-11T00:00:00Z' },
+		});
+		expect(comment).toMatchObject({ id: 'gh-comment-99', author: 'hubot', content: 'still happening' });
+
+		expect(mapGitHubEvent('issues', { ...issuePayload, action: 'closed' })).toBeNull();
+	});
+
+	it('rewrites label lists on rename and delete', () => {
+		expect(applyLabelChange('bug, tunnels', 'tunnels', 'tunnel')).toBe('bug, tunnel');
+		expect(applyLabelChange('bug', 'bug', null)).toBeNull();
+	});
+
+	it('rejects requests with a bad signature', async () => {
+		const response = await SELF.fetch('http://example.com/api/webhooks/github', {
+			method: 'POST',
+			headers: { 'X-GitHub-Event': 'issues', 'X-Hub-Signature-256': 'sha256=00' },
+			body: JSON.stringify(issuePayload),
+		});
+		expect(env.GITHUB_WEBHOOK_SECRET).toBe('test-secret');
+		expect(response.status).toBe(401);
+	});
+
+	it('rejects a correctly signed body that is not JSON', async () => {
+		const body = '{"action": "opened",';
+		const response = await SELF.fetch('http://example.com/api/webhooks/github', {
+			method: 'POST',
+			headers: { 'X-GitHub-Event': 'issues', 'X-Hub-Signature-256': await sign(env.GITHUB_WEBHOOK_SECRET, body) },
+			body,
+		});
+		expect(response.status).toBe(400);
+	});
+
+	it('stores a signed issue event and queues its thread', async () => {
+		const response = await deliver('issues', issuePayload);
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ success: true, id: 'gh-issue-4242', created: true, queued: true });
+		expect(await new FeedbackDB(env.DB).getFeedbackById('gh-issue-4242')).toMatchObject({
+			title: 'Tunnel drops after QUIC fallback',
+			created_at: '2026-01-10T12:00:00.000Z',
+		});
+		const status = await (await SELF.fetch('http://example.com/api/feedback/gh-issue-4242/status')).json();
+		expect(status).toMatchObject({ status: 'pending' });
+
+		const empty = await deliver('issue_comment', {
+			...issuePayload,
+			action: 'created',
+			comment: { id: 100, body: '', html_url: '', user: { login: 'hubot' }, created_at: '2026-01-11T00:00:00Z' },
+		});
+		expect(empty.status).toBe(400);
+		expect(await empty.json()).toMatchObject({ rejected: [{ id: 'gh-comment-100', errors: [{ field: 'content', message: 'is required' }] }] });
+	});
+});
@@ -0,0 +1,98 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { FeedbackDB } from '../src/db';
+import { ConfigStore } from '../src/kv';
+import { importFeedback } from '../src/importer';
+import { applySchema } from './schema';
+
+const sources = new Set(['github', 'zendesk']);
+
+function stream(text: string): ReadableStream<Uint8Array> {
+	return new Response(text).body!;
+}
+
+describe('bulk import', () => {
+	beforeAll(applySchema);
+
+	it('imports CSV with a column mapping and reports line-level errors', async () => {
+		const csv = [
+			'Ticket,Subject,Description,Opened',
+			't-1,Tunnel drops,"Drops every hour, ""randomly""",2026-01-02T00:00:00Z',
+			't-2,,Missing subject,2026-01-02T00:00:00Z',
+			't-3,Multi-line,"line one',
+			'line two",not-a-date',
+		].join('\n');
+
+		const report = await importFeedback(
+			stream(csv),
+			{ format: 'csv', source: 'zendesk', sources, mapping: { id: 'Ticket', title: 'Subject', content: 'Description', created_at: 'Opened' } },
+			new FeedbackDB(env.DB),
+			new ConfigStore(env.KV)
+		);
+
+		expect(report).toMatchObject({ inserted: 1, updated: 0, rejected: 2 });
+		expect(report.errors).toEqual([
+			{ line: 3, error: 'title is required' },
+			{ line: 4, error: 'created_at must be an ISO 8601 timestamp' },
+		]);
+		const row = await new FeedbackDB(env.DB).getFeedbackById('t-1');
+		expect(row?.content).toBe('Drops every hour, "randomly"');
+	});
+
+	it('counts re-imported NDJSON rows as updates', async () => {
+		const db = new FeedbackDB(env.DB);
+		const config = new ConfigStore(env.KV);
+		const first = '{"id":"t-9","source":"zendesk","title":"Tunnel drops","content":"Original"}';
+		const second = ['{"id":"t-9","source":"zendesk","title":"Tunnel drops","content":"Edited"}', '{not json'].join('\n');
+
+		expect(await importFeedback(stream(first), { format: 'ndjson', sources }, db, config)).toMatchObject({ inserted: 1, updated: 0 });
+		const report = await importFeedback(stream(second), { format: 'ndjson', sources }, db, config);
+
+		expect(report).toMatchObject({ inserted: 0, updated: 1, rejected: 1 });
+		expect(report.errors[0].line).toBe(2);
+		expect((await db.getFeedbackById('t-9'))?.content).toBe('Edited');
+	});
+
+	it('imports the generated questions dataset despite wrapped lines', async () => {
+		const json = '{"hypothetical_issues": [{"id": "A", "title": "Docs outdated", "label": "Documentation", "comment": "half the flags\n  do not exist", "classification": {"urgency": 2}}]}';
+
+		const report = await importFeedback(stream(json), { format: 'generated_questions', source: 'github', sources }, new FeedbackDB(env.DB), new ConfigStore(env.KV));
+
+		expect(report).toMatchObject({ inserted: 1, rejected: 0 });
+		const row = await new FeedbackDB(env.DB).getFeedbackById('hypothetical-A');
+		expect(row?.content).toBe('half the flags do not exist');
+		expect(JSON.parse(row!.raw_metadata!).classification).toEqual({ urgency: 2 });
+	});
+
+	it('streams labeled JSON records one at a time and reports malformed bodies', async () => {
+		const db = new FeedbackDB(env.DB);
+		const config = new ConfigStore(env.KV);
+		const records = [
+			'{"id": "pm-1", "source": "github", "title": "Tunnel [drops]", "body": "Says \\"bye\\" {sometimes}", "labels": ["bug"]}',
+			'{"id": "pm-2", "source": "github", "title": Broken}',
+			'"not an object"',
+			'{"id": "pm-3", "source": "github", "title": "Login loop", "body": "Cannot log in"}',
+		];
+		const report = await importFeedback(stream(`[${records.join(',\n')}]`), { format: 'pm_training', sources }, db, config);
+
+		expect(report).toMatchObject({ inserted: 2, rejected: 2 });
+		expect(report.error).toBeUndefined();
+		expect(report.errors.map((e) => e.line)).toEqual([2, 3]);
+		expect((await db.getFeedbackById('pm-1'))?.content).toBe('Says "bye" {sometimes}');
+
+		// The records before a truncated body are kept; the body as a whole is a 400
+		const truncated = await SELF.fetch('http://example.com/api/import?format=pm_training', {
+			method: 'POST',
+			body: `[${records[3].replace('pm-3', 'pm-4')}, {"id": "pm-5"`,
+		});
+		expect(truncated.status).toBe(400);
+		expect(await truncated.json()).toMatchObject({ success: false, inserted: 1, error: 'Unexpected end of JSON input' });
+
+		const notArray = await SELF.fetch('http://example.com/api/import?format=generated_questions', {
+			method: 'POST',
+			body: '{"questions": []}',
+		});
+		expect(notArray.status).toBe(400);
+		expect(await notArray.json()).toMatchObject({ error: 'Generated questions must contain a hypothetical_issues array' });
+	});
+});
@@ -0,0 +1,130 @@
+import { env, createExecutionContext, createMessageBatch, getQueueResult, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import worker from '../src';
+import { Classification, Feedback, FeedbackDB } from '../src/db';
+import { ClassificationMessage } from '../src/pipeline';
+import { classificationResponse, failingAi, fakeAi } from './ai';
+import { applySchema } from './schema';
+
+const items: Feedback[] = [
+	{ id: 'gh-issue-1', source: 'github', title: 'Tunnel drops', content: 'Connection resets', created_at: '2026-01-01T00:00:00.000Z' },
+	{ id: 'gh-issue-2', source: 'github', title: 'Login loop', content: 'Cannot log in', created_at: '2026-02-01T00:00:00.000Z' },
+	{ id: 'gh-issue-3', source: 'github', title: 'Docs typo', content: 'README typo', created_at: '2026-03-01T00:00:00.000Z' },
+	{ id: 'discord-1', source: 'discord', title: 'Tunnel down?', content: 'Maybe broken', created_at: '2026-02-01T00:00:00.000Z' },
+];
+
+function old(feedback_id: string): Classification {
+	return { feedback_id, urgency: 1, sentiment: 0, impact: 1, actionability: 1, route: 'standard_backlog', model: 'model-a' };
+}
+
+const outageAi = fakeAi(classificationResponse({ confidence: 0.9 })).ai;
+
+// Deliver job messages to the consumer and return the ack/retry result
+async function deliver(jobId: string, feedbackIds: string[], ai: Ai, attempts = 1) {
+	const batch = createMessageBatch<ClassificationMessage>(
+		'feedback-classification',
+		feedbackIds.map((id, i) => ({ id: `msg-${i + 1}`, timestamp: new Date(), attempts, body: { feedback_id: id, job_id: jobId } }))
+	);
+	const ctx = createExecutionContext();
+	await worker.queue(batch, { ...env, AI: ai }, ctx);
+	return getQueueResult(batch, ctx);
+}
+
+async function job(id: string) {
+	return (await SELF.fetch(`http://example.com/api/jobs/${id}`)).json<any>();
+}
+
+async function seed() {
+	const db = new FeedbackDB(env.DB);
+	await db.ingestFeedbackBatch(items);
+	for (const item of items) {
+		await db.storeClassification(old(item.id));
+	}
+	return db;
+}
+
+describe('reclassification jobs', () => {
+	beforeAll(applySchema);
+
+	it('reclassifies the filtered items and keeps old results until new ones land', async () => {
+		const db = await seed();
+
+		const invalid = await SELF.fetch('http://example.com/api/jobs/reclassify', {
+			method: 'POST',
+			body: JSON.stringify({ filter: { since: 'last week', until: 'Jan 5 2026', team: 'x' } }),
+		});
+		expect((await invalid.json<any>()).errors).toEqual([
+			{ field: 'filter.since', message: 'must be an ISO 8601 date' },
+			{ field: 'filter.until', message: 'must be an ISO 8601 date' },
+			{ field: 'filter.team', message: 'must be one of source, since, until, route, model, prompt_version' },
+		]);
+
+		const response = await SELF.fetch('http://example.com/api/jobs/reclassify', {
+			method: 'POST',
+			headers: { 'Cf-Access-Authenticated-User-Email': 'pm@example.com' },
+			body: JSON.stringify({ filter: { source: 'github', since: '2026-01-15T02:00:00+02:00', until: '2026-03-01', model: 'model-a' } }),
+		});
+		expect(response.status).toBe(202);
+		const { job: created } = await response.json<any>();
+		expect(created).toMatchObject({ status: 'running', total: 2, processed: 0, remaining: 2, created_by: 'pm@example.com' });
+		// Bounds are stored as UTC instants; a date-only until covers that whole day
+		expect(created.filter).toEqual({ source: 'github', since: '2026-01-15T00:00:00.000Z', until: '2026-03-01T23:59:59.999Z', model: 'model-a' });
+
+		const first = await deliver(created.id, ['gh-issue-2'], outageAi);
+		expect(first.explicitAcks).toEqual(['msg-1']);
+		expect(await job(created.id)).toMatchObject({ status: 'running', processed: 1, failed: 0, remaining: 1 });
+		expect(await db.getClassification('gh-issue-2')).toMatchObject({ urgency: 4 });
+		// Not reclassified yet: the old result stays
+		expect(await db.getClassification('gh-issue-3')).toMatchObject({ urgency: 1, model: 'model-a' });
+
+		// A failing item keeps its old result and counts as failed once retries run out
+		const retried = await deliver(created.id, ['gh-issue-3'], failingAi());
+		expect(retried.retryMessages).toMatchObject([{ msgId: 'msg-1' }]);
+		await deliver(created.id, ['gh-issue-3'], failingAi(), 5);
+		expect(await db.getClassification('gh-issue-3')).toMatchObject({ urgency: 1, model: 'model-a' });
+
+		const finished = await job(created.id);
+		expect(finished).toMatchObject({ status: 'completed', total: 2, processed: 2, failed: 1, remaining: 0 });
+		expect(finished.failures).toEqual([expect.objectContaining({ feedback_id: 'gh-issue-3', error: 'capacity exceeded' })]);
+		expect(await db.getClassification('gh-issue-1')).toMatchObject({ urgency: 1 });
+	});
+
+	it('can be cancelled and resumed from its checkpoint', async () => {
+		const db = await seed();
+		const forced = await SELF.fetch('http://example.com/api/classify?force=true', { method: 'POST' });
+		expect(forced.status).toBe(202);
+		const { job: created } = await forced.json<any>();
+		expect(created).toMatchObject({ total: 4, remaining: 4 });
+		// force no longer clears current classifications
+		expect(await db.getClassification('discord-1')).toMatchObject({ model: 'model-a' });
+
+		await deliver(created.id, ['discord-1'], outageAi);
+		const cancel = await SELF.fetch(`http://example.com/api/jobs/${created.id}/cancel`, { method: 'POST' });
+		expect((await cancel.json<any>()).job).toMatchObject({ status: 'cancelled', processed: 1, remaining: 3 });
+		expect((await SELF.fetch(`http://example.com/api/jobs/${created.id}/cancel`, { method: 'POST' })).status).toBe(409);
+
+		// Messages of a cancelled job are dropped without work
+		const dropped = await deliver(created.id, ['gh-issue-1'], outageAi);
+		expect(dropped.explicitAcks).toEqual(['msg-1']);
+		expect(await db.getClassification('gh-issue-1')).toMatchObject({ urgency: 1 });
+
+		const resume = await SELF.fetch(`http://example.com/api/jobs/${created.id}/resume`, { method: 'POST' });
+		expect(await resume.json<any>()).toMatchObject({ success: true, queued: 3, job: { status: 'running', remaining: 3 } });
+
+		// An item claimed by a delivery still in flight is skipped by its duplicate
+		expect(await db.claimJobItem(created.id, 'gh-issue-1', new Date(0).toISOString())).toBe(true);
+
+		// Items done before the cancel are not classified twice
+		await deliver(created.id, ['discord-1', 'gh-issue-1', 'gh-issue-2', 'gh-issue-3'], outageAi);
+		expect(await job(created.id)).toMatchObject({ status: 'running', processed: 3, remaining: 1 });
+		expect((await db.getClassificationVersions('discord-1')).length).toBe(2);
+		expect((await db.getClassificationVersions('gh-issue-1')).length).toBe(1);
+
+		await db.setJobItemStatus(created.id, 'gh-issue-1', 'done');
+		expect(await job(created.id)).toMatchObject({ status: 'completed', processed: 4, failed: 0, remaining: 0 });
+		expect((await SELF.fetch(`http://example.com/api/jobs/${created.id}/resume`, { method: 'POST' })).status).toBe(409);
+
+		const { jobs } = await (await SELF.fetch('http://example.com/api/jobs')).json<any>();
+		expect(jobs.map((j: any) => j.id)).toEqual([created.id]);
+	});
+});
@@ -0,0 +1,71 @@
+import { env } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { Feedback, FeedbackDB } from '../src/db';
+import { detectLanguage, toEnglish, Translator } from '../src/language';
+import { applySchema } from './schema';
+
+const spanish: Feedback = {
+	id: 'discord-es-1',
+	source: 'discord',
+	title: 'El túnel se cae',
+	content: 'El túnel no funciona desde la actualización y se desconecta cada hora con un error de QUIC',
+	created_at: '2026-01-01T00:00:00.000Z',
+};
+
+function fakeTranslator() {
+	const calls: string[] = [];
+	const translator: Translator = {
+		translate: async (text, sourceLang) => {
+			calls.push(`${sourceLang}:${text}`);
+			return `[en] ${text}`;
+		},
+	};
+	return { translator, calls };
+}
+
+describe('language detection and translation', () => {
+	beforeAll(applySchema);
+
+	it('detects languages by script and function words', () => {
+		expect(detectLanguage('The tunnel drops every hour and it is not reconnecting')).toBe('en');
+		expect(detectLanguage(spanish.content)).toBe('es');
+		expect(detectLanguage('Der Tunnel funktioniert nicht mehr seit dem Update und ich bekomme einen Fehler')).toBe('de');
+		expect(detectLanguage('Le tunnel ne fonctionne pas avec mon proxy et je reçois une erreur')).toBe('fr');
+		expect(detectLanguage('トンネルが接続できません。QUICのエラーが出ます')).toBe('ja');
+		expect(detectLanguage('Туннель не работает после обновления')).toBe('ru');
+		expect(detectLanguage('cloudflared 2026.1.0')).toBe('und');
+	});
+
+	it('stores the language at ingest and filters by it', async () => {
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedbackBatch([
+			spanish,
+			{ ...spanish, id: 'discord-en-1', title: 'Tunnel drops', content: 'The tunnel is not reconnecting after the update' },
+		]);
+
+		expect((await db.getAllFeedbackWithClassifications(100, 'es')).map((f) => f.id)).toEqual([spanish.id]);
+		const metrics = await db.getMetrics('2025-12-01T00:00:00.000Z', '2026-02-01T00:00:00.000Z');
+		expect(metrics.by_language).toEqual(
+			expect.arrayContaining([expect.objectContaining({ language: 'es', count: 1 }), expect.objectContaining({ language: 'en', count: 1 })])
+		);
+	});
+
+	it('translates once per revision and keeps the original text', async () => {
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedback(spanish);
+		const { translator, calls } = fakeTranslator();
+
+		const english = await toEnglish((await db.getFeedbackById(spanish.id))!, translator, db);
+		expect(english.content).toBe(`[en] ${spanish.content}`);
+		expect(calls).toHaveLength(2);
+
+		const stored = (await db.getFeedbackById(spanish.id))!;
+		expect(stored).toMatchObject({ content: spanish.content, translated_content: `[en] ${spanish.content}` });
+		await toEnglish(stored, translator, db);
+		expect(calls).toHaveLength(2);
+
+		// Editing the content drops the stale translation
+		await db.ingestFeedback({ ...spanish, content: `${spanish.content} otra vez` });
+		expect((await db.getFeedbackById(spanish.id))!.translated_content).toBeNull();
+	});
+});
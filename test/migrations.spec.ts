@@ -0,0 +1,59 @@
+import { applyD1Migrations, env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { FeedbackDB } from '../src/db';
+import { applySchema } from './schema';
+
+const APP_TABLES = `type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '_cf_%' AND name != 'd1_migrations'`;
+
+// Columns (by name: ALTER TABLE appends them at the end) and indexes of every app table
+async function describeSchema() {
+	const columns = await env.DB.prepare(
+		`SELECT m.name AS table_name, p.name, p.type, p."notnull", p.dflt_value, p.pk
+		 FROM sqlite_master m JOIN pragma_table_info(m.name) p
+		 WHERE m.${APP_TABLES.replaceAll(' name', ' m.name')}
+		 ORDER BY m.name, p.name`
+	).all();
+	const indexes = await env.DB.prepare(
+		`SELECT name, tbl_name FROM sqlite_master WHERE type = 'index' AND name LIKE 'idx_%' ORDER BY name`
+	).all();
+	return { columns: columns.results, indexes: indexes.results };
+}
+
+describe('migrations', () => {
+	it('build the schema in schema.sql', async () => {
+		await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+		const migrated = await describeSchema();
+
+		const tables = await env.DB.prepare(`SELECT name FROM sqlite_master WHERE ${APP_TABLES}`).all<{ name: string }>();
+		await env.DB.batch(tables.results.map((t) => env.DB.prepare(`DROP TABLE ${t.name}`)));
+		await applySchema();
+
+		expect(migrated.columns.length).toBeGreaterThan(0);
+		expect(await describeSchema()).toEqual(migrated);
+	});
+
+	it('upgrade a database created with the original schema.sql', async () => {
+		const [baseline] = env.TEST_MIGRATIONS;
+		await env.DB.batch(baseline.queries.map((q) => env.DB.prepare(q)));
+		await env.DB.batch([
+			env.DB.prepare(
+				`INSERT INTO feedback (id, source, title, content, created_at) VALUES ('gh-issue-1', 'github', 'QUIC never retried', 'Stuck on http2', '2026-01-01T00:00:00.000Z')`
+			),
+			env.DB.prepare(
+				`INSERT INTO classifications (feedback_id, urgency, sentiment, impact, actionability, route) VALUES ('gh-issue-1', 3, -1, 3, 3, 'standard_backlog')`
+			),
+		]);
+
+		await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
+
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedback({ id: 'gh-comment-1', source: 'github', title: 'Re: QUIC', content: 'Same here', created_at: '2026-01-02T00:00:00.000Z', parent_id: 'gh-issue-1' });
+		await db.storeClassification({ feedback_id: 'gh-issue-1', urgency: 4, sentiment: -1, impact: 3, actionability: 3, route: 'immediate_engineering' });
+
+		const versions = await db.getClassificationVersions('gh-issue-1');
+		expect(versions.map((v) => [v.route, v.current])).toEqual([
+			['standard_backlog', false],
+			['immediate_engineering', true],
+		]);
+	});
+});
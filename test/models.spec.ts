@@ -0,0 +1,74 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { FeedbackDB } from '../src/db';
+import { ConfigStore } from '../src/kv';
+import { ModelRunner } from '../src/models';
+import { fakeAi } from './ai';
+import { applySchema } from './schema';
+
+// Per-model behaviour: 'fail', 'hang' or a response text
+function perModelAi(behaviour: Record<string, string>) {
+	return fakeAi((model) => (behaviour[model] === 'fail' ? new Error('capacity exceeded') : behaviour[model]));
+}
+
+describe('model runner', () => {
+	beforeAll(applySchema);
+
+	it('falls back through the configured chain on errors and timeouts', async () => {
+		const config = new ConfigStore(env.KV);
+		await config.updateModelSettings({ themes: { models: ['@cf/a', '@cf/b', '@cf/c'], timeout_ms: 50 } });
+		const db = new FeedbackDB(env.DB);
+		const { ai, calls } = perModelAi({ '@cf/a': 'fail', '@cf/b': 'hang', '@cf/c': '["tunnels"]' });
+
+		const result = await new ModelRunner(ai, config, db).run('themes', { messages: [{ role: 'user', content: 'hello' }] });
+
+		expect(result).toMatchObject({ model: '@cf/c', response: { response: '["tunnels"]' } });
+		expect(calls.map((c) => c.model)).toEqual(['@cf/a', '@cf/b', '@cf/c']);
+		expect((await db.getAiUsage(1)).map((u: any) => [u.model, u.ok, u.errors, u.timeouts])).toEqual([
+			['@cf/a', 0, 1, 0],
+			['@cf/b', 0, 0, 1],
+			['@cf/c', 1, 0, 0],
+		]);
+	});
+
+	it('throws once every model in the chain failed', async () => {
+		const config = new ConfigStore(env.KV);
+		await config.updateModelSettings({ relevance: { models: ['@cf/own', '@cf/meta/llama-3.2-3b-instruct'], timeout_ms: 50 } });
+		const { ai, calls } = perModelAi({ '@cf/own': 'fail', '@cf/meta/llama-3.2-3b-instruct': 'fail' });
+		const error = await new ModelRunner(ai, config).run('relevance', { messages: [] }).catch((e) => e);
+
+		expect(error.message).toBe('capacity exceeded');
+		expect(calls.map((c) => c.model)).toEqual(['@cf/own', '@cf/meta/llama-3.2-3b-instruct']);
+	});
+
+	it('aggregates usage per task, model and day', async () => {
+		const db = new FeedbackDB(env.DB);
+		const { ai } = perModelAi({ '@cf/meta/llama-3.1-8b-instruct': '["a"]' });
+		const runner = new ModelRunner(ai, undefined, db);
+		await runner.run('themes', { messages: [{ role: 'user', content: 'abcd' }] });
+		await runner.run('themes', { messages: [{ role: 'user', content: 'ef' }] });
+
+		const response = await SELF.fetch('http://example.com/api/ai/usage?task=themes');
+		const { usage } = await response.json<any>();
+		expect(usage).toEqual([
+			expect.objectContaining({
+				task: 'themes',
+				model: '@cf/meta/llama-3.1-8b-instruct',
+				day: new Date().toISOString().slice(0, 10),
+				calls: 2,
+				ok: 2,
+				input_chars: 6,
+				output_chars: 10,
+				input_tokens: 24,
+				output_tokens: 6,
+			}),
+		]);
+		expect((await SELF.fetch('http://example.com/api/ai/usage?days=abc')).status).toBe(400);
+
+		const rejected = await SELF.fetch('http://example.com/api/config/models', {
+			method: 'PUT',
+			body: JSON.stringify({ summary: { models: [], timeout_ms: 1000 } }),
+		});
+		expect(rejected.status).toBe(400);
+	});
+});
@@ -0,0 +1,117 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { FeedbackDB } from '../src/db';
+import { labeledExamplesFromDataset } from '../src/evaluation';
+import { applyLocks, validateOverride } from '../src/overrides';
+import { availableRoutes, DEFAULT_ROUTING_RULES } from '../src/routing';
+import { applySchema } from './schema';
+
+function patch(id: string, body: unknown, headers: Record<string, string> = {}) {
+	return SELF.fetch(`http://example.com/api/feedback/${id}/classification`, {
+		method: 'PATCH',
+		headers: { 'Content-Type': 'application/json', ...headers },
+		body: JSON.stringify(body),
+	});
+}
+
+describe('classification overrides', () => {
+	beforeAll(async () => {
+		await applySchema();
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedbackBatch([
+			{ id: 'gh-issue-1', source: 'github', title: 'Tunnel drops', content: 'Production tunnel drops hourly', created_at: '2026-01-01T00:00:00.000Z' },
+			{ id: 'gh-issue-2', source: 'github', title: 'Docs typo', content: 'Typo in the install guide', created_at: '2026-01-02T00:00:00.000Z' },
+		]);
+		await db.storeClassification({
+			feedback_id: 'gh-issue-1',
+			urgency: 2,
+			sentiment: 0,
+			impact: 4,
+			actionability: 3,
+			route: 'standard_backlog',
+			confidence: 0.8,
+			model: 'm',
+		});
+	});
+
+	it('validates ranges, routes and the reason', () => {
+		const routes = availableRoutes(DEFAULT_ROUTING_RULES);
+		const result = validateOverride({ urgency: 6, sentiment: -1, route: 'nowhere' }, routes);
+		expect(result.ok).toBe(false);
+		expect(!result.ok && result.errors.map((e) => e.field)).toEqual(['urgency', 'route', 'reason']);
+		expect(validateOverride({ route: 'trust_risk, quick_win_backlog', reason: 'angry' }, routes)).toEqual({
+			ok: true,
+			value: { changes: { route: 'trust_risk,quick_win_backlog' }, reason: 'angry', changed_by: undefined },
+		});
+		// Routes come from the configured rules and default route
+		const custom = availableRoutes([{ route: 'security_review', priority: 1, when: { signal_type: 'feature_area' } }], 'triage');
+		expect(custom).toEqual(['security_review', 'triage']);
+		expect(validateOverride({ route: 'security_review', reason: 'leak' }, custom).ok).toBe(true);
+		expect(validateOverride({ route: 'trust_risk', reason: 'angry' }, custom)).toEqual({
+			ok: false,
+			errors: [{ field: 'route', message: 'must be one or more of security_review, triage (comma-separated)' }],
+		});
+	});
+
+	it('overrides scores, re-routes and records who changed what', async () => {
+		const response = await patch('gh-issue-1', { urgency: 5, reason: 'Outage for paying customers' }, {
+			'Cf-Access-Authenticated-User-Email': 'pm@example.com',
+		});
+		expect(response.status).toBe(200);
+		const body = await response.json<any>();
+
+		expect(body.classification).toMatchObject({ urgency: 5, impact: 4, route: 'immediate_engineering', model: 'm' });
+		expect(body.locks).toEqual({ urgency: 5 });
+		expect(body.audit).toEqual([
+			expect.objectContaining({ field: 'urgency', old_value: '2', new_value: '5', changed_by: 'pm@example.com' }),
+			expect.objectContaining({ field: 'route', old_value: 'standard_backlog', new_value: 'immediate_engineering' }),
+		]);
+		const versions = await new FeedbackDB(env.DB).getClassificationVersions('gh-issue-1');
+		expect(versions.map((v) => [v.model, v.urgency, v.route, v.current])).toEqual([
+			['m', 2, 'standard_backlog', false],
+			['human', 5, 'immediate_engineering', true],
+		]);
+
+		expect((await patch('gh-issue-1', { impact: 4, reason: 'x' })).status).toBe(400); // No identity
+		expect((await patch('gh-issue-2', { urgency: 1, reason: 'x', changed_by: 'pm' })).status).toBe(400); // Unclassified, partial
+	});
+
+	it('keeps locked fields when the AI reclassifies', async () => {
+		await patch('gh-issue-1', { urgency: 5, reason: 'Outage', changed_by: 'pm' });
+		const locks = await new FeedbackDB(env.DB).getClassificationLocks('gh-issue-1');
+		expect(locks).toEqual({ urgency: 5 });
+		const route = (s: { urgency: number }) => (s.urgency >= 4 ? 'immediate_engineering' : 'standard_backlog');
+
+		const reclassified = applyLocks(
+			{ feedback_id: 'gh-issue-1', urgency: 1, sentiment: 1, impact: 1, actionability: 1, route: 'standard_backlog' },
+			locks,
+			route
+		);
+		expect(reclassified).toMatchObject({ urgency: 5, sentiment: 1, route: 'immediate_engineering' });
+		expect(applyLocks(reclassified, { ...locks, route: 'trust_risk' }, route).route).toBe('trust_risk');
+	});
+
+	it('exports corrections as an evaluation dataset and audit log', async () => {
+		await patch('gh-issue-1', { urgency: 5, reason: 'Outage', changed_by: 'pm' });
+		await patch('gh-issue-2', { urgency: 1, sentiment: 0, impact: 1, actionability: 5, route: 'quick_win_backlog', reason: 'Trivial fix', changed_by: 'pm' });
+
+		const dataset = await (await SELF.fetch('http://example.com/api/overrides/export')).json<any>();
+		expect(dataset.hypothetical_issues.map((i: any) => i.id).sort()).toEqual(['gh-issue-1', 'gh-issue-2']);
+		const examples = labeledExamplesFromDataset(dataset);
+		expect(examples.find((e) => e.feedback.id === 'hypothetical-gh-issue-2')?.expected).toEqual({
+			classification: { urgency: 1, sentiment: 0, impact: 1, actionability: 5 },
+			routes: ['quick_win_backlog'],
+		});
+
+		const audit = await (await SELF.fetch('http://example.com/api/overrides/export?format=audit')).text();
+		expect(audit.split('\n').map((line) => JSON.parse(line).field)).toEqual([
+			'urgency',
+			'route',
+			'urgency',
+			'sentiment',
+			'impact',
+			'actionability',
+			'route',
+		]);
+	});
+});
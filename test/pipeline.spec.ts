@@ -0,0 +1,102 @@
+import { env, createExecutionContext, createMessageBatch, createScheduledController, getQueueResult, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import worker from '../src';
+import { FeedbackDB } from '../src/db';
+import { ClassificationMessage, retryDelaySeconds } from '../src/pipeline';
+import { classificationResponse, failingAi, fakeAi } from './ai';
+import { applySchema } from './schema';
+
+const installAi = fakeAi(
+	classificationResponse({ signals: [{ signal_type: 'feature_area', signal_value: 'installation', confidence: 0.9 }], reasoning: 'Install blocked' })
+).ai;
+
+// Deliver one queue message to the consumer and return the ack/retry result
+async function deliver(feedbackId: string, attempts: number, ai: Ai) {
+	const batch = createMessageBatch<ClassificationMessage>('feedback-classification', [
+		{ id: 'msg-1', timestamp: new Date(), attempts, body: { feedback_id: feedbackId } },
+	]);
+	const ctx = createExecutionContext();
+	await worker.queue(batch, { ...env, AI: ai }, ctx);
+	return getQueueResult(batch, ctx);
+}
+
+async function status(id: string) {
+	return (await SELF.fetch(`http://example.com/api/feedback/${id}/status`)).json<any>();
+}
+
+describe('classification pipeline', () => {
+	beforeAll(applySchema);
+
+	it('queues ingested threads and classifies delivered items', async () => {
+		const response = await SELF.fetch('http://example.com/api/ingest', {
+			method: 'POST',
+			body: JSON.stringify([
+				{ id: 'gh-issue-1', source: 'github', title: 'Installer fails', content: 'MSI exits with 1603', created_at: '2026-01-01T00:00:00.000Z' },
+				{ id: 'gh-comment-1', source: 'github', title: 'Re: Installer fails', content: 'Same here', created_at: '2026-01-02T00:00:00.000Z', parent_id: 'gh-issue-1' },
+			]),
+		});
+		expect(await response.json()).toMatchObject({ inserted: 2, queued: 1 });
+		// Replies report their thread's status
+		expect(await status('gh-comment-1')).toMatchObject({ feedback_id: 'gh-issue-1', status: 'pending', attempts: 0 });
+
+		const result = await deliver('gh-issue-1', 1, installAi);
+		expect(result.explicitAcks).toEqual(['msg-1']);
+		expect(result.retryMessages).toEqual([]);
+		expect(await status('gh-issue-1')).toMatchObject({ status: 'done', attempts: 1, last_error: null });
+		expect(await new FeedbackDB(env.DB).getClassification('gh-issue-1')).toMatchObject({ urgency: 4, impact: 4 });
+	});
+
+	it('stores ingested items when the queue is unavailable and leaves them to the sweep', async () => {
+		const queue = {
+			sendBatch: async () => {
+				throw new Error('queue unavailable');
+			},
+		} as unknown as Queue<ClassificationMessage>;
+		const request = new Request('http://example.com/api/ingest', {
+			method: 'POST',
+			body: JSON.stringify([{ id: 'gh-issue-7', source: 'github', title: 'Tunnel drops', content: 'Every hour', created_at: '2026-01-01T00:00:00.000Z' }]),
+		});
+		const response = await worker.fetch(request, { ...env, CLASSIFY_QUEUE: queue }, createExecutionContext());
+
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ inserted: 1, queued: 0 });
+		expect(await status('gh-issue-7')).toEqual({ feedback_id: 'gh-issue-7', status: null });
+		expect(await new FeedbackDB(env.DB).getUnqueuedFeedbackIds(10, new Date().toISOString())).toContain('gh-issue-7');
+
+		// The cron sweep logs the failed stage and still runs the others
+		const controller = createScheduledController({ scheduledTime: new Date(), cron: '*/15 * * * *' });
+		await expect(worker.scheduled(controller as unknown as ScheduledEvent, { ...env, CLASSIFY_QUEUE: queue }, createExecutionContext())).resolves.toBeUndefined();
+		expect(await status('gh-issue-7')).toEqual({ feedback_id: 'gh-issue-7', status: null });
+	});
+
+	it('retries with exponential backoff and dead-letters items that keep failing', async () => {
+		expect([1, 2, 3, 10].map(retryDelaySeconds)).toEqual([30, 60, 120, 3600]);
+
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedbackBatch([
+			{ id: 'gh-issue-1', source: 'github', title: 'Installer fails', content: 'MSI exits with 1603', created_at: '2026-01-01T00:00:00.000Z' },
+		]);
+
+		const retried = await deliver('gh-issue-1', 2, failingAi());
+		expect(retried.explicitAcks).toEqual([]);
+		expect(retried.retryMessages).toMatchObject([{ msgId: 'msg-1' }]);
+		expect(await status('gh-issue-1')).toMatchObject({ status: 'pending', attempts: 2, last_error: 'capacity exceeded' });
+
+		const dead = await deliver('gh-issue-1', 5, failingAi());
+		expect(dead.explicitAcks).toEqual(['msg-1']);
+		expect(await status('gh-issue-1')).toMatchObject({ status: 'failed', attempts: 5 });
+		const deadLetters = await (await SELF.fetch('http://example.com/api/queue/dead-letters')).json<any>();
+		expect(deadLetters.dead_letters).toEqual([expect.objectContaining({ id: 'gh-issue-1', error: 'capacity exceeded', attempts: 5 })]);
+		expect((await (await SELF.fetch('http://example.com/api/queue')).json<any>()).counts).toEqual({
+			pending: 0,
+			classifying: 0,
+			done: 0,
+			failed: 1,
+		});
+
+		const replay = await SELF.fetch('http://example.com/api/queue/dead-letters/replay', { method: 'POST' });
+		expect(await replay.json()).toEqual({ success: true, replayed: ['gh-issue-1'] });
+		expect(await status('gh-issue-1')).toMatchObject({ status: 'pending', attempts: 0 });
+		expect(await db.getDeadLetters()).toEqual([]);
+	});
+});
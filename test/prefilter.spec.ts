@@ -0,0 +1,88 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { Feedback, FeedbackDB } from '../src/db';
+import { ConfigStore } from '../src/kv';
+import { FeedbackPrefilter, heuristicVerdict, RelevanceChecker } from '../src/prefilter';
+import { applySchema } from './schema';
+
+const post: Feedback = {
+	id: 'x-1',
+	source: 'x',
+	title: 'Tweet from @someone',
+	content: 'cloudflared tunnel keeps reconnecting every few minutes since the last update',
+	author: 'someone',
+	created_at: '2026-01-01T00:00:00.000Z',
+};
+
+function relevance(relevant: boolean): RelevanceChecker & { calls: number } {
+	const checker = {
+		calls: 0,
+		checkRelevance: async () => {
+			checker.calls++;
+			return { relevant, reason: relevant ? 'About tunnels' : 'Crypto giveaway' };
+		},
+	};
+	return checker;
+}
+
+describe('spam and off-topic pre-filter', () => {
+	beforeAll(applySchema);
+
+	it('flags bots, link-heavy and repetitive posts without a model call', async () => {
+		const settings = await new ConfigStore(env.KV).getFilterSettings();
+
+		expect(heuristicVerdict({ ...post, author: 'renovate[bot]' }, settings)).toMatchObject({ status: 'spam' });
+		expect(heuristicVerdict({ ...post, content: 'Free VPN https://a.test https://b.test' }, settings)).toMatchObject({
+			status: 'spam',
+			reason: expect.stringContaining('Link density'),
+		});
+		expect(heuristicVerdict({ ...post, content: 'buy now '.repeat(20) }, settings)).toMatchObject({
+			status: 'spam',
+			reason: expect.stringContaining('Repeated text'),
+		});
+		expect(heuristicVerdict(post, settings)).toBeNull();
+	});
+
+	it('runs the relevance check only for configured sources', async () => {
+		const settings = await new ConfigStore(env.KV).getFilterSettings();
+		const checker = relevance(false);
+		const prefilter = new FeedbackPrefilter(settings, checker);
+
+		expect(await prefilter.check(post)).toEqual({ status: 'off_topic', reason: 'Crypto giveaway' });
+		expect(await prefilter.check({ ...post, source: 'github' })).toBeNull();
+		expect(checker.calls).toBe(1);
+	});
+
+	it('rejects malformed settings updates', async () => {
+		const response = await SELF.fetch('http://example.com/api/config/filter', {
+			method: 'PUT',
+			body: JSON.stringify({ bot_authors: 'x', max_links: 'five', relevance_check_sources: 'x' }),
+		});
+		expect(response.status).toBe(400);
+		expect((await response.json<any>()).errors).toEqual([
+			{ field: 'max_links', message: 'must be a non-negative number' },
+			{ field: 'bot_authors', message: 'must be an array of strings' },
+			{ field: 'relevance_check_sources', message: 'must be an array of strings' },
+		]);
+		expect((await new ConfigStore(env.KV).getFilterSettings()).bot_authors).toEqual(['*[bot]', 'dependabot', 'github-actions']);
+	});
+
+	it('excludes filtered items from the queue and metrics until restored', async () => {
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedbackBatch([post, { ...post, id: 'x-2' }]);
+		await db.setFilterStatus('x-1', { status: 'spam', reason: 'Known bot author' });
+
+		expect((await db.getUnclassifiedFeedback()).map((f) => f.id)).toEqual(['x-2']);
+		const metrics = await db.getMetrics('2025-12-01T00:00:00.000Z', '2026-02-01T00:00:00.000Z');
+		expect(metrics).toMatchObject({ total: 1, filtered: { spam: 1 } });
+		expect((await db.getFilteredFeedback('spam')).map((f) => f.id)).toEqual(['x-1']);
+
+		expect(await db.restoreFilteredFeedback('x-1')).toBe(true);
+		expect(await db.restoreFilteredFeedback('x-1')).toBe(false);
+		expect((await db.getUnclassifiedFeedback()).map((f) => f.id).sort()).toEqual(['x-1', 'x-2']);
+
+		// Restored items are never filtered again
+		await db.setFilterStatus('x-1', { status: 'spam', reason: 'again' });
+		expect(await db.getFeedbackById('x-1')).toMatchObject({ filter_status: null, filter_restored: 1 });
+	});
+});
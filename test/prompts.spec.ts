@@ -0,0 +1,84 @@
+import { env } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { FeedbackClassifier } from '../src/ai';
+import { Feedback, FeedbackDB } from '../src/db';
+import { ConfigStore } from '../src/kv';
+import { assignVersion, PromptLibrary, renderTemplate, unknownVariables } from '../src/prompts';
+import { classificationResponse, fakeAi } from './ai';
+import { applySchema } from './schema';
+
+const feedback: Feedback = {
+	id: 'gh-issue-1',
+	source: 'github',
+	title: 'QUIC never retried',
+	content: 'cloudflared stays on http2 forever',
+	created_at: '2026-01-01T00:00:00.000Z',
+};
+
+describe('prompt templates', () => {
+	beforeAll(applySchema);
+
+	it('interpolates nested variables and flags unknown ones', () => {
+		expect(renderTemplate('{{feedback.title}} | {{rules.keywords}} | {{missing}}', {
+			feedback: { title: 'Tunnel down' },
+			rules: { keywords: ['outage', 'security'] },
+		})).toBe('Tunnel down | outage, security | ');
+		expect(unknownVariables('classification', '{{feedback.title}} {{feedback.secret}}')).toEqual(['feedback.secret']);
+	});
+
+	it('splits traffic deterministically per key', () => {
+		const assignment = { active: 'v1', candidate: 'v2', candidate_share: 0.3 };
+		const arms = Array.from({ length: 1000 }, (_, i) => assignVersion(assignment, `item-${i}`));
+
+		expect(assignVersion(assignment, 'item-7')).toBe(arms[7]);
+		const share = arms.filter((a) => a === 'v2').length / arms.length;
+		expect(share).toBeGreaterThan(0.25);
+		expect(share).toBeLessThan(0.35);
+		expect(assignVersion({ active: 'v1', candidate_share: 0.5 }, 'item-1')).toBe('v1');
+	});
+
+	it('classifies with the assigned template, few-shot examples and records the version', async () => {
+		const config = new ConfigStore(env.KV);
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedbackBatch([
+			feedback,
+			{
+				id: 'hypothetical-A',
+				source: 'github',
+				title: 'Docs outdated',
+				content: 'Flags do not exist',
+				created_at: '2026-01-01T00:00:00.000Z',
+				raw_metadata: JSON.stringify({
+					classification: { urgency: 2, sentiment: -2, impact: 3, actionability: 4 },
+					routing: { trust_risk: true },
+				}),
+			},
+		]);
+		await config.setPromptTemplate({
+			task: 'classification',
+			version: 'v2',
+			template: 'Examples:\n{{few_shot_examples}}\n\nClassify: {{feedback.title}} ({{feedback.label}})',
+			few_shot_count: 2,
+			created_at: '2026-01-01T00:00:00.000Z',
+		});
+		await config.setPromptAssignment('classification', { active: 'v2', candidate_share: 0 });
+
+		const { ai, calls } = fakeAi(classificationResponse({ classification: { sentiment: 0, actionability: 4 }, confidence: 0.9, reasoning: 'ok' }));
+		const prompt = (call: number) => calls[call].input.messages.at(-1).content;
+		const classifier = new FeedbackClassifier(ai, undefined, new PromptLibrary(config, db));
+		const rules = await config.getClassificationRules();
+		const { classification } = await classifier.classifyFeedback(feedback, rules);
+
+		expect(classification).toMatchObject({ prompt_version: 'v2', urgency: 4 });
+		expect(prompt(0)).toContain('Classify: QUIC never retried (None)');
+		expect(prompt(0)).toContain('Title: Docs outdated');
+
+		// Pinned versions win over the assignment
+		const pinned = await classifier.classifyFeedback(feedback, rules, [], { promptVersion: 'builtin-1' });
+		expect(pinned.classification.prompt_version).toBe('builtin-1');
+		expect(prompt(1)).toContain('- **Title**: QUIC never retried');
+
+		await db.storeClassification(classification);
+		expect(await db.getPromptVersionStats()).toEqual([expect.objectContaining({ prompt_version: 'v2', classified: 1 })]);
+	});
+});
@@ -0,0 +1,81 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { Feedback, FeedbackDB } from '../src/db';
+import { ConfigStore } from '../src/kv';
+import { Redactor } from '../src/redaction';
+import { applySchema } from './schema';
+
+const report: Feedback = {
+	id: 'discord-1',
+	source: 'discord',
+	title: 'Tunnel 6ba7b810-9dad-11d1-80b4-00c04fd430c8 offline',
+	content:
+		'Contact me at ops@example.com. Origin 10.0.0.12 and 2001:db8::1 time out at 12:30:45. ' +
+		'Ran cloudflared tunnel run --token eyJhIjoiMTIzNDU2Nzg5MCIsInQiOiJhYmNkIn0= and mailed ops@example.com again.',
+	created_at: '2026-01-01T00:00:00.000Z',
+	raw_metadata: JSON.stringify({ reporter: 'ops@example.com', note: 'line\nbreak' }),
+};
+
+describe('PII redaction', () => {
+	beforeAll(applySchema);
+
+	it('replaces detected values with typed placeholders, consistently per item', async () => {
+		const { feedback, report: entries } = await new Redactor(new ConfigStore(env.KV)).redact(report);
+
+		expect(feedback.title).toBe('Tunnel [UUID_1] offline');
+		expect(feedback.content).toBe(
+			'Contact me at [EMAIL_1]. Origin [IPV4_1] and [IPV6_1] time out at 12:30:45. ' +
+				'Ran cloudflared tunnel run --token [CF_TOKEN_1] and mailed [EMAIL_1] again.'
+		);
+		expect(JSON.parse(feedback.raw_metadata!)).toEqual({ reporter: '[EMAIL_1]', note: 'line\nbreak' });
+		expect(entries.map((e) => `${e.field}:${e.placeholder}`)).toEqual([
+			'title:[UUID_1]',
+			'content:[CF_TOKEN_1]',
+			'content:[EMAIL_1]',
+			'content:[IPV6_1]',
+			'content:[IPV4_1]',
+			'raw_metadata:[EMAIL_1]',
+		]);
+	});
+
+	it('keeps commit SHAs and bare "::" intact', async () => {
+		const content = 'Regressed in 9fceb02d0ae598e95dc970b74767f19372d61af8, see fn run(self) -> Result<(), Box<dyn ::std::error::Error>> :: ok';
+		const { feedback, report: entries } = await new Redactor(new ConfigStore(env.KV)).redact({ ...report, title: 'Regression', content, raw_metadata: undefined });
+
+		expect(feedback.content).toBe(content);
+		expect(entries).toEqual([]);
+	});
+
+	it('applies custom patterns from KV and honours disabled detectors', async () => {
+		const config = new ConfigStore(env.KV);
+		await config.updateRedactionSettings({
+			detectors: { email: false },
+			custom_patterns: [{ name: 'account id', pattern: 'acct-[0-9]{6}' }],
+		});
+
+		const { feedback } = await new Redactor(config).redact({ ...report, title: 'Billing for acct-123456', content: 'ops@example.com' });
+
+		expect(feedback.title).toBe('Billing for [ACCOUNT_ID_1]');
+		expect(feedback.content).toBe('ops@example.com');
+	});
+
+	it('stores redacted text, a report and the original only when enabled', async () => {
+		const config = new ConfigStore(env.KV);
+		const db = new FeedbackDB(env.DB, new Redactor(config));
+
+		await db.ingestFeedback(report);
+		const stored = await db.getFeedbackById(report.id);
+		expect(stored?.content).not.toContain('ops@example.com');
+		expect(await db.getRedactionReport(report.id)).toMatchObject({ redacted_count: 6, has_original: false });
+		expect(await db.getFeedbackOriginal(report.id)).toBeNull();
+
+		await config.updateRedactionSettings({ store_original: true });
+		await new FeedbackDB(env.DB, new Redactor(config)).ingestFeedback({ ...report, id: 'discord-2' });
+		expect(await db.getFeedbackOriginal('discord-2')).toMatchObject({ content: report.content });
+	});
+
+	it('refuses to serve originals without the access token', async () => {
+		const response = await SELF.fetch('http://example.com/api/feedback/discord-2/original');
+		expect(response.status).toBe(403);
+	});
+});
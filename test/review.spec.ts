@@ -0,0 +1,85 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { FeedbackClassifier } from '../src/ai';
+import { Feedback, FeedbackDB } from '../src/db';
+import { ConfigStore } from '../src/kv';
+import { classificationResponse, fakeAi } from './ai';
+import { applySchema } from './schema';
+
+const items: Feedback[] = [
+	{ id: 'gh-issue-1', source: 'github', title: 'Tunnel drops', content: 'Connection resets', created_at: '2026-01-01T00:00:00.000Z' },
+	{ id: 'discord-1', source: 'discord', title: 'Tunnel down?', content: 'Maybe broken', created_at: '2026-01-02T00:00:00.000Z' },
+	{ id: 'discord-2', source: 'discord', title: 'Login loop', content: 'Cannot log in', created_at: '2026-01-03T00:00:00.000Z' },
+];
+
+// Classify and store each item with the given confidence
+async function classify(confidences: Record<string, number>) {
+	const db = new FeedbackDB(env.DB);
+	const rules = await new ConfigStore(env.KV).getClassificationRules();
+	await db.ingestFeedbackBatch(items);
+	for (const item of items) {
+		const { classification } = await new FeedbackClassifier(
+			fakeAi(classificationResponse({ classification: { urgency: 5, impact: 5 }, confidence: confidences[item.id] })).ai
+		).classifyFeedback(item, rules);
+		await db.storeClassification(classification);
+	}
+	return db;
+}
+
+describe('low-confidence review queue', () => {
+	beforeAll(applySchema);
+
+	it('holds uncertain items out of their routed queues until accepted', async () => {
+		await classify({ 'gh-issue-1': 0.9, 'discord-1': 0.3, 'discord-2': 0.45 });
+
+		let dashboard = await (await SELF.fetch('http://example.com/api/dashboard')).json<any>();
+		expect(dashboard.queues.immediate_engineering.map((f: any) => f.id)).toEqual(['gh-issue-1']);
+		expect(dashboard.queues.needs_review.map((f: any) => [f.id, f.route])).toEqual([
+			['discord-1', 'immediate_engineering,trust_risk'],
+			['discord-2', 'immediate_engineering,trust_risk'],
+		]);
+
+		const anonymous = await SELF.fetch('http://example.com/api/review/discord-1/accept', { method: 'POST' });
+		expect(anonymous.status).toBe(400);
+		const accepted = await SELF.fetch('http://example.com/api/review/discord-1/accept', {
+			method: 'POST',
+			headers: { 'Cf-Access-Authenticated-User-Email': 'pm@example.com' },
+		});
+		expect((await accepted.json<any>()).classification).toMatchObject({ review_status: 'accepted', reviewed_by: 'pm@example.com' });
+		const again = await SELF.fetch('http://example.com/api/review/discord-1/accept', { method: 'POST', body: '{"reviewed_by":"pm"}' });
+		expect(again.status).toBe(404);
+
+		dashboard = await (await SELF.fetch('http://example.com/api/dashboard')).json<any>();
+		expect(dashboard.queues.immediate_engineering.map((f: any) => f.id).sort()).toEqual(['discord-1', 'gh-issue-1']);
+		expect(dashboard.queues.needs_review.map((f: any) => f.id)).toEqual(['discord-2']);
+	});
+
+	it('clears corrected items and reports the review share per source and model', async () => {
+		const db = await classify({ 'gh-issue-1': 0.9, 'discord-1': 0.3, 'discord-2': 0.45 });
+
+		await SELF.fetch('http://example.com/api/feedback/discord-2/classification', {
+			method: 'PATCH',
+			body: JSON.stringify({ urgency: 2, impact: 2, reason: 'Single user, already resolved', changed_by: 'pm' }),
+		});
+		expect(await db.getClassification('discord-2')).toMatchObject({ review_status: 'corrected', reviewed_by: 'pm' });
+
+		const { items: queue } = await (await SELF.fetch('http://example.com/api/review')).json<any>();
+		expect(queue.map((f: any) => f.id)).toEqual(['discord-1']);
+
+		const stats = await (await SELF.fetch('http://example.com/api/review/stats')).json<any>();
+		expect(stats.threshold).toBe(0.5);
+		expect(stats.by_source).toEqual([
+			{ source: 'discord', classified: 2, needs_review: 2, pending: 1, accepted: 0, corrected: 1, review_share: 1 },
+			{ source: 'github', classified: 1, needs_review: 0, pending: 0, accepted: 0, corrected: 0, review_share: 0 },
+		]);
+		expect(stats.by_model).toEqual([
+			expect.objectContaining({ model: '@cf/meta/llama-3.1-70b-instruct', prompt_version: 'builtin-1', classified: 3, review_share: 0.6667 }),
+		]);
+
+		const rejected = await SELF.fetch('http://example.com/api/config/rules', {
+			method: 'PUT',
+			body: JSON.stringify({ review_confidence_threshold: 2 }),
+		});
+		expect(rejected.status).toBe(400);
+	});
+});
@@ -0,0 +1,144 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { FeedbackDB } from '../src/db';
+import { ConfigStore, rulesHash } from '../src/kv';
+import { DEFAULT_ROUTING_RULES, describeCondition, fromLegacyRules, matchRoutes, RouteRule, validateRoutingRules } from '../src/routing';
+import { applySchema } from './schema';
+
+const securityRule: RouteRule = {
+	route: 'immediate_engineering',
+	priority: 5,
+	when: {
+		any: [
+			{ field: 'urgency', op: '>=', value: 5 },
+			{
+				all: [
+					{ signal_type: 'feature_area', values: ['security'], min_confidence: 0.5 },
+					{ field: 'impact', op: '>=', value: 3 },
+				],
+			},
+		],
+	},
+};
+
+describe('routing rules', () => {
+	beforeAll(applySchema);
+
+	it('assigns every matching route in priority order', () => {
+		// Labeled examples from the generated-questions dataset
+		expect(matchRoutes(DEFAULT_ROUTING_RULES, { urgency: 2, sentiment: -2, impact: 3, actionability: 4 })).toEqual([
+			'trust_risk',
+			'quick_win_backlog',
+		]);
+		expect(matchRoutes(DEFAULT_ROUTING_RULES, { urgency: 5, sentiment: 0, impact: 4, actionability: 5 })).toEqual([
+			'immediate_engineering',
+		]);
+		expect(matchRoutes(DEFAULT_ROUTING_RULES, { urgency: 1, sentiment: -2, impact: 2, actionability: 2 })).toEqual([
+			'standard_backlog',
+		]);
+	});
+
+	it('evaluates nested AND/OR conditions over scores and signals', () => {
+		const rules = [securityRule, { ...DEFAULT_ROUTING_RULES[1], stop: true }, DEFAULT_ROUTING_RULES[2]];
+		const scores = { urgency: 2, sentiment: -1, impact: 3, actionability: 4 };
+
+		expect(matchRoutes(rules, { ...scores, signals: [{ signal_type: 'feature_area', signal_value: 'Security', confidence: 0.9 }] })).toEqual([
+			'immediate_engineering',
+			'trust_risk',
+		]);
+		expect(matchRoutes(rules, { ...scores, signals: [{ signal_type: 'feature_area', signal_value: 'security', confidence: 0.2 }] })).toEqual([
+			'trust_risk',
+		]);
+		expect(describeCondition(securityRule.when)).toBe(
+			'urgency >= 5 OR (feature_area in [security] (confidence >= 0.5) AND impact >= 3)'
+		);
+	});
+
+	it('converts legacy threshold rules and rejects malformed ones', () => {
+		const converted = fromLegacyRules({
+			quick_win_backlog: { urgency_max: 2, actionability_min: 4 },
+			immediate_engineering: { urgency_min: 4, impact_min: 4 },
+		});
+		expect(converted.map((r) => [r.route, r.priority])).toEqual([
+			['quick_win_backlog', 30],
+			['immediate_engineering', 10],
+		]);
+		expect(converted[0].when).toEqual(DEFAULT_ROUTING_RULES[2].when);
+
+		expect(
+			validateRoutingRules([{ route: 'trust_risk', priority: 1, when: { all: [{ field: 'mood', op: '~', value: '1' }] } }]).map((e) => e.field)
+		).toEqual(['routing_rules[0].when.all[0].field', 'routing_rules[0].when.all[0].op', 'routing_rules[0].when.all[0].value']);
+	});
+
+	it('re-routes stored classifications with the configured rules', async () => {
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedbackBatch([
+			{ id: 'gh-issue-1', source: 'github', title: 'Token leak', content: 'Token printed in logs', created_at: '2026-01-01T00:00:00.000Z' },
+		]);
+		await db.storeClassification({ feedback_id: 'gh-issue-1', urgency: 3, sentiment: 0, impact: 3, actionability: 3, route: 'standard_backlog' });
+		await db.storeSignals([{ feedback_id: 'gh-issue-1', signal_type: 'feature_area', signal_value: 'security', confidence: 0.8 }]);
+
+		const rejected = await SELF.fetch('http://example.com/api/config/rules', {
+			method: 'PUT',
+			body: JSON.stringify({ routing_rules: [{ route: 'x', when: {} }], default_route: 'Not A Route' }),
+		});
+		expect(rejected.status).toBe(400);
+		expect((await rejected.json<any>()).errors).toContainEqual({ field: 'default_route', message: 'must be a lowercase route name (a-z, 0-9, _)' });
+
+		await SELF.fetch('http://example.com/api/config/rules', {
+			method: 'PUT',
+			body: JSON.stringify({ routing_rules: [securityRule, ...DEFAULT_ROUTING_RULES] }),
+		});
+		const response = await SELF.fetch('http://example.com/api/fix-routes', { method: 'POST' });
+		expect(await response.json()).toMatchObject({ success: true, total: 1 });
+		expect((await db.getClassification('gh-issue-1')).route).toBe('immediate_engineering');
+		const versions = await db.getClassificationVersions('gh-issue-1');
+		expect(versions.map((v) => [v.route, v.current])).toEqual([
+			['standard_backlog', false],
+			['immediate_engineering', true],
+		]);
+		expect(versions[1].rules_hash).toBe(await rulesHash(await new ConfigStore(env.KV).getClassificationRules()));
+
+		const docs = await (await SELF.fetch('http://example.com/api')).json<any>();
+		expect(docs.routing_rules[0]).toMatchObject({ route: 'immediate_engineering', priority: 5 });
+		expect((await new ConfigStore(env.KV).getClassificationRules()).default_route).toBe('standard_backlog');
+	});
+
+	it('simulates candidate rules without writing', async () => {
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedbackBatch([
+			{ id: 'gh-issue-1', source: 'github', title: 'Token leak', content: 'Token printed in logs', created_at: '2026-01-01T00:00:00.000Z' },
+			{ id: 'gh-issue-2', source: 'github', title: 'Docs typo', content: 'Typo', created_at: '2026-01-02T00:00:00.000Z' },
+		]);
+		await db.storeClassification({ feedback_id: 'gh-issue-1', urgency: 4, sentiment: -1, impact: 3, actionability: 3, route: 'trust_risk' });
+		await db.storeClassification({ feedback_id: 'gh-issue-2', urgency: 1, sentiment: 0, impact: 1, actionability: 5, route: 'quick_win_backlog' });
+
+		// Lower the impact bar for immediate engineering
+		const candidate = [{ ...DEFAULT_ROUTING_RULES[0], when: { field: 'urgency', op: '>=', value: 4 } }, ...DEFAULT_ROUTING_RULES.slice(1)];
+		const response = await SELF.fetch('http://example.com/api/config/rules/simulate', {
+			method: 'POST',
+			body: JSON.stringify({ routing_rules: candidate }),
+		});
+		const simulation = await response.json<any>();
+
+		expect(simulation).toMatchObject({
+			total: 2,
+			moved: 1,
+			transitions: [{ from: 'trust_risk', to: 'immediate_engineering,trust_risk', count: 1 }],
+			moved_items: [{ feedback_id: 'gh-issue-1', title: 'Token leak' }],
+		});
+		expect(simulation.queues).toEqual({
+			trust_risk: { current: 1, simulated: 1, delta: 0 },
+			immediate_engineering: { current: 0, simulated: 1, delta: 1 },
+			quick_win_backlog: { current: 1, simulated: 1, delta: 0 },
+		});
+		expect((await db.getClassification('gh-issue-1')).route).toBe('trust_risk');
+
+		const invalid = await SELF.fetch('http://example.com/api/config/rules/simulate', {
+			method: 'POST',
+			body: JSON.stringify({ default_route: 42 }),
+		});
+		expect(invalid.status).toBe(400);
+		expect((await invalid.json<any>()).errors).toEqual([{ field: 'default_route', message: 'must be a lowercase route name (a-z, 0-9, _)' }]);
+	});
+});
@@ -0,0 +1,13 @@
+import { env } from 'cloudflare:test';
+
+// Apply schema.sql to the test D1 database (isolated per test file)
+export async function applySchema(): Promise<void> {
+	const statements = env.TEST_SCHEMA.split('\n')
+		.filter((line) => !line.trim().startsWith('--'))
+		.join('\n')
+		.split(';')
+		.map((s) => s.trim())
+		.filter((s) => s.length > 0);
+
+	await env.DB.batch(statements.map((s) => env.DB.prepare(s)));
+}
@@ -0,0 +1,84 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { FeedbackClassifier } from '../src/ai';
+import { Feedback } from '../src/db';
+import { ConfigStore } from '../src/kv';
+import { applyScorePolicies, matchKeywords, ScorePolicy } from '../src/scoring';
+import { classificationResponse, fakeAi } from './ai';
+import { applySchema } from './schema';
+
+const feedback: Feedback = {
+	id: 'gh-issue-1',
+	source: 'github',
+	title: 'Possible vulnerability in the tunnel token handling',
+	content: 'Our team noticed the token is printed in logs. We post alerts to Slack.',
+	created_at: '2026-01-01T00:00:00.000Z',
+};
+
+// Calm model output with the given urgency
+function calmAi(urgency: number) {
+	return fakeAi(
+		classificationResponse({
+			classification: { urgency, sentiment: 0, impact: 2, actionability: 3 },
+			signals: [{ signal_type: 'feature_area', signal_value: 'tunnels', confidence: 0.9 }],
+			confidence: 0.7,
+			reasoning: 'Calm report.',
+		})
+	).ai;
+}
+
+describe('keyword scoring and policies', () => {
+	beforeAll(applySchema);
+
+	it('matches keyword lists as whole words', async () => {
+		const rules = await new ConfigStore(env.KV).getClassificationRules();
+		const hits = matchKeywords(feedback, rules, [{ ...feedback, id: 'gh-comment-1', content: 'Also happens in production' }]);
+
+		// "sla" does not hit inside "Slack"
+		expect(hits.map((h) => [h.signal_type, h.signal_value])).toEqual([
+			['urgency_keyword', 'vulnerability'],
+			['urgency_keyword', 'production'],
+			['impact_signal', 'our team'],
+			['impact_signal', 'production'],
+		]);
+		expect(hits[0]).toMatchObject({ feedback_id: 'gh-issue-1', confidence: 1 });
+	});
+
+	it('enforces floors on the model scores and notes each adjustment', async () => {
+		const rules = await new ConfigStore(env.KV).getClassificationRules();
+		const { classification, signals } = await new FeedbackClassifier(calmAi(2)).classifyFeedback(feedback, rules);
+
+		expect(classification).toMatchObject({
+			urgency: 3,
+			impact: 2,
+			reasoning: 'Calm report. Policy adjustments: urgency 2 -> 3 (security_floor).',
+		});
+		expect(signals).toContainEqual({ feedback_id: 'gh-issue-1', signal_type: 'urgency_keyword', signal_value: 'vulnerability', confidence: 1 });
+
+		// Scores already above the floor are left alone
+		const unchanged = await new FeedbackClassifier(calmAi(5)).classifyFeedback(feedback, rules);
+		expect(unchanged.classification).toMatchObject({ urgency: 5, reasoning: 'Calm report.' });
+	});
+
+	it('applies ceilings in order and validates configured policies', async () => {
+		const policies: ScorePolicy[] = [
+			{ name: 'hobby_ceiling', field: 'impact', max: 2, when: { signal_type: 'impact_signal', values: ['hobby'] } },
+			{ name: 'high_impact_floor', field: 'urgency', min: 3, when: { field: 'impact', op: '>=', value: 3 } },
+		];
+		const result = applyScorePolicies({ urgency: 1, sentiment: 0, impact: 4, actionability: 3 }, policies, {
+			signals: [{ signal_type: 'impact_signal', signal_value: 'hobby', confidence: 1 }],
+		});
+		// The floor sees the capped impact, so it does not apply
+		expect(result).toEqual({
+			scores: { urgency: 1, sentiment: 0, impact: 2, actionability: 3 },
+			adjustments: [{ policy: 'hobby_ceiling', field: 'impact', from: 4, to: 2 }],
+		});
+
+		const response = await SELF.fetch('http://example.com/api/config/rules', {
+			method: 'PUT',
+			body: JSON.stringify({ score_policies: [{ name: 'x', field: 'urgency', min: 6, when: { signal_type: 'urgency_keyword' } }] }),
+		});
+		expect(response.status).toBe(400);
+		expect((await response.json<any>()).errors).toEqual([{ field: 'score_policies[0].min', message: 'must be an integer from 1 to 5' }]);
+	});
+});
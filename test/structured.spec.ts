@@ -0,0 +1,83 @@
+import { env } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { FeedbackClassifier } from '../src/ai';
+import { Feedback, FeedbackDB } from '../src/db';
+import { ConfigStore } from '../src/kv';
+import { CLASSIFICATION_OUTPUT_SCHEMA, parseStructuredOutput, StructuredOutputError } from '../src/structured';
+import { fakeAi } from './ai';
+import { applySchema } from './schema';
+
+const feedback: Feedback = {
+	id: 'gh-issue-1',
+	source: 'github',
+	title: 'Installer fails on Windows',
+	content: 'MSI exits with 1603',
+	created_at: '2026-01-01T00:00:00.000Z',
+};
+
+const valid = {
+	classification: { urgency: 4, sentiment: -1, impact: 4, actionability: 3 },
+	signals: [{ signal_type: 'feature_area', signal_value: 'installation', confidence: 0.9 }],
+	confidence: 0.8,
+	reasoning: 'Install blocked',
+};
+
+describe('structured classification output', () => {
+	beforeAll(applySchema);
+
+	it('validates ranges and types against the schema', () => {
+		expect(parseStructuredOutput('```json\n' + JSON.stringify(valid) + '\n```', CLASSIFICATION_OUTPUT_SCHEMA).ok).toBe(true);
+
+		const result = parseStructuredOutput(
+			{ ...valid, classification: { urgency: 6, sentiment: -1.5, impact: 3 }, confidence: '0.9' },
+			CLASSIFICATION_OUTPUT_SCHEMA
+		);
+		expect(!result.ok && result.errors).toEqual([
+			'$.classification.actionability: is required',
+			'$.classification.urgency: must be <= 5',
+			'$.classification.sentiment: must be an integer',
+			'$.confidence: must be a number',
+		]);
+		expect(parseStructuredOutput('Sorry, I cannot help', CLASSIFICATION_OUTPUT_SCHEMA)).toEqual({
+			ok: false,
+			errors: ['Response contained no JSON object'],
+		});
+	});
+
+	it('feeds validation errors back to the model until the output is valid', async () => {
+		const { ai, calls } = fakeAi((_model, call) => (call === 0 ? '{"classification": {"urgency": 9}}' : JSON.stringify(valid)));
+		const rules = await new ConfigStore(env.KV).getClassificationRules();
+		const { classification, signals } = await new FeedbackClassifier(ai).classifyFeedback(feedback, rules);
+
+		expect(classification).toMatchObject({ urgency: 4, confidence: 0.8, route: 'immediate_engineering,trust_risk' });
+		expect(signals).toEqual([{ feedback_id: 'gh-issue-1', ...valid.signals[0] }]);
+		expect(calls).toHaveLength(2);
+		expect(calls[1].input.messages.at(-2)).toEqual({ role: 'assistant', content: '{"classification": {"urgency": 9}}' });
+		expect(calls[1].input.messages.at(-1)?.content).toContain('$.classification.urgency: must be <= 5');
+	});
+
+	it('records items that still fail instead of storing default scores', async () => {
+		const { ai, calls } = fakeAi('not json');
+		const rules = await new ConfigStore(env.KV).getClassificationRules();
+		const error = await new FeedbackClassifier(ai).classifyFeedback(feedback, rules).catch((e) => e);
+
+		expect(error).toBeInstanceOf(StructuredOutputError);
+		expect(error.attempts).toBe(3);
+		expect(calls).toHaveLength(3);
+
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedbackBatch([feedback]);
+		await db.recordClassificationFailure(feedback.id, error.errors.join('; '), error.raw, error.attempts);
+
+		expect(await db.getUnclassifiedFeedback()).toEqual([]);
+		expect(await db.getClassificationFailures()).toEqual([
+			expect.objectContaining({ id: 'gh-issue-1', error: 'Response contained no JSON object', attempts: 3 }),
+		]);
+		const [item] = await db.getAllFeedbackWithClassifications();
+		expect(item).toMatchObject({ classification_status: 'classification_failed', urgency: null });
+
+		// Edited content is retried
+		await db.ingestFeedbackBatch([{ ...feedback, content: 'MSI exits with 1603 on Windows 11' }]);
+		expect((await db.getUnclassifiedFeedback()).map((f) => f.id)).toEqual(['gh-issue-1']);
+	});
+});
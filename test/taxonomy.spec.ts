@@ -0,0 +1,117 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { FeedbackClassifier } from '../src/ai';
+import { Feedback, FeedbackDB } from '../src/db';
+import { ConfigStore } from '../src/kv';
+import { DEFAULT_SIGNAL_TAXONOMY, mergeTaxonomyValues, resolveValue } from '../src/taxonomy';
+import { classificationResponse, fakeAi } from './ai';
+import { applySchema } from './schema';
+
+const feedback: Feedback = {
+	id: 'gh-issue-1',
+	source: 'github',
+	title: 'QUIC tunnel drops every hour',
+	content: 'The connection resets and reconnects over http2.',
+	created_at: '2026-01-01T00:00:00.000Z',
+};
+
+describe('signal taxonomy', () => {
+	beforeAll(applySchema);
+
+	it('resolves aliases, plurals and misspellings to canonical values', () => {
+		const resolve = (value: string) => resolveValue(DEFAULT_SIGNAL_TAXONOMY, 'feature_area', value);
+
+		expect(resolve('tunnels')).toEqual({ value: 'tunnels', match: 'canonical' });
+		expect(resolve('Tunnel')).toEqual({ value: 'tunnels', match: 'canonical' });
+		expect(resolve('Cloudflare Tunnel')).toEqual({ value: 'tunnels', match: 'alias' });
+		expect(resolve('cloudflared tunnels')).toEqual({ value: 'tunnels', match: 'alias' });
+		expect(resolve('tunnels > quic')).toEqual({ value: 'quic', match: 'canonical' });
+		expect(resolve('tunels')).toEqual({ value: 'tunnels', match: 'nearest' });
+		expect(resolve('Load Balancing')).toEqual({ value: 'load balancing', match: 'candidate' });
+
+		// Merging keeps the hierarchy: children of a merged value move under the target
+		const merged = mergeTaxonomyValues(DEFAULT_SIGNAL_TAXONOMY, 'feature_area', ['tunnels'], 'cloudflare_tunnel');
+		expect(merged.feature_area.find((e) => e.value === 'quic')).toMatchObject({ parent: 'cloudflare_tunnel' });
+		expect(merged.feature_area.find((e) => e.value === 'cloudflare_tunnel')!.aliases).toContain('tunnels');
+	});
+
+	it('prompts with the allowed values and normalizes what the model returns', async () => {
+		const db = new FeedbackDB(env.DB);
+		const rules = await new ConfigStore(env.KV).getClassificationRules();
+		const { ai, calls } = fakeAi(
+			classificationResponse({
+				classification: { urgency: 3, impact: 3, actionability: 4 },
+				signals: [
+					{ signal_type: 'feature_area', signal_value: 'Cloudflare Tunnel', confidence: 0.6 },
+					{ signal_type: 'feature_area', signal_value: 'Tunnels', confidence: 0.9 },
+					{ signal_type: 'feature_area', signal_value: 'HTTP/2', confidence: 0.7 },
+					{ signal_type: 'feature_area', signal_value: 'Load Balancing', confidence: 0.5 },
+					{ signal_type: 'user_segment', signal_value: 'sysadmin', confidence: 0.8 },
+				],
+				reasoning: 'Tunnel instability',
+			})
+		);
+
+		const { signals, taxonomy_candidates } = await new FeedbackClassifier(ai).classifyFeedback(feedback, rules);
+		expect(calls[0].input.messages[0].content).toContain('- feature_area: tunnels, tunnels > quic, tunnels > http2');
+
+		const values = signals.filter((s) => s.signal_type !== 'urgency_keyword' && s.signal_type !== 'impact_signal');
+		expect(values.map((s) => [s.signal_type, s.signal_value, s.confidence])).toEqual([
+			['feature_area', 'tunnels', 0.9],
+			['feature_area', 'http2', 0.7],
+			['feature_area', 'load balancing', 0.5],
+			['user_segment', 'administrator', 0.8],
+		]);
+		expect(taxonomy_candidates.map((s) => s.signal_value)).toEqual(['load balancing']);
+
+		await db.ingestFeedbackBatch([feedback]);
+		await db.recordTaxonomyCandidates(taxonomy_candidates);
+		await db.recordTaxonomyCandidates(taxonomy_candidates);
+		const { candidates } = await (await SELF.fetch('http://example.com/api/taxonomy')).json<any>();
+		expect(candidates).toEqual([
+			expect.objectContaining({ signal_type: 'feature_area', signal_value: 'load balancing', occurrences: 2, example_feedback_id: 'gh-issue-1' }),
+		]);
+	});
+
+	it('merges values into one and rewrites stored signals', async () => {
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedbackBatch([feedback, { ...feedback, id: 'gh-issue-2' }]);
+		await db.storeSignals([
+			{ feedback_id: 'gh-issue-1', signal_type: 'feature_area', signal_value: 'load balancing', confidence: 0.5 },
+			{ feedback_id: 'gh-issue-1', signal_type: 'feature_area', signal_value: 'lb', confidence: 0.4 },
+			{ feedback_id: 'gh-issue-2', signal_type: 'feature_area', signal_value: 'Load Balancing', confidence: 0.6 },
+		]);
+		await db.recordTaxonomyCandidates([{ feedback_id: 'gh-issue-1', signal_type: 'feature_area', signal_value: 'load balancing' }]);
+
+		const invalid = await SELF.fetch('http://example.com/api/taxonomy/merge', {
+			method: 'POST',
+			body: JSON.stringify({ signal_type: 'product', from: [], to: '' }),
+		});
+		expect(invalid.status).toBe(400);
+		expect((await invalid.json<any>()).errors.map((e: any) => e.field)).toEqual(['signal_type', 'from', 'to']);
+
+		const response = await SELF.fetch('http://example.com/api/taxonomy/merge', {
+			method: 'POST',
+			body: JSON.stringify({ signal_type: 'feature_area', from: ['load balancing', 'lb'], to: 'load_balancing' }),
+		});
+		const body = await response.json<any>();
+		expect(body).toMatchObject({
+			success: true,
+			entry: { value: 'load_balancing', aliases: ['load balancing', 'lb'] },
+			signals_updated: 3,
+		});
+
+		// gh-issue-1 had both merged values and keeps one signal
+		const signals = await db.getSignalsByFeedback(['gh-issue-1', 'gh-issue-2']);
+		expect([...signals.values()].flat().map((s) => [s.feedback_id, s.signal_value])).toEqual([
+			['gh-issue-1', 'load_balancing'],
+			['gh-issue-2', 'load_balancing'],
+		]);
+
+		const taxonomy = await (await SELF.fetch('http://example.com/api/taxonomy')).json<any>();
+		expect(taxonomy.candidates).toEqual([]);
+		expect(taxonomy.paths.feature_area).toContain('load_balancing');
+		const rules = await new ConfigStore(env.KV).getClassificationRules();
+		expect(resolveValue(rules.signal_taxonomy, 'feature_area', 'LB')).toEqual({ value: 'load_balancing', match: 'alias' });
+	});
+});
@@ -0,0 +1,112 @@
+import { env, SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { Feedback, FeedbackDB } from '../src/db';
+import { bucketStarts, buildSeries, parseUtcOffset } from '../src/trends';
+import { applySchema } from './schema';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Feedback created `daysAgo` days before now with a stored classification and signal
+async function seed(db: FeedbackDB, items: { id: string; source: string; daysAgo: number; route: string; urgency: number }[]) {
+	const feedback: Feedback[] = items.map((item) => ({
+		id: item.id,
+		source: item.source,
+		title: `Report ${item.id}`,
+		content: 'Tunnel issue',
+		created_at: new Date(Date.now() - item.daysAgo * DAY).toISOString(),
+	}));
+	await db.ingestFeedbackBatch(feedback);
+	for (const item of items) {
+		await db.storeClassification({ feedback_id: item.id, urgency: item.urgency, sentiment: 0, impact: 3, actionability: 3, route: item.route });
+		await db.storeSignals([{ feedback_id: item.id, signal_type: 'feature_area', signal_value: 'tunnels', confidence: 0.9 }]);
+	}
+}
+
+describe('trends', () => {
+	beforeAll(applySchema);
+
+	it('buckets calendar days at a fixed UTC offset and compares periods', () => {
+		const now = new Date('2026-03-04T23:30:00.000Z'); // Wednesday
+		expect(bucketStarts('day', 2, 0, now)).toEqual(['2026-03-03', '2026-03-04']);
+		expect(bucketStarts('day', 2, parseUtcOffset('+02:00')!, now)).toEqual(['2026-03-04', '2026-03-05']);
+		expect(bucketStarts('week', 2, 0, now)).toEqual(['2026-02-23', '2026-03-02']);
+		expect(bucketStarts('month', 3, parseUtcOffset('-05:00')!, now)).toEqual(['2026-01-01', '2026-02-01', '2026-03-01']);
+		expect(parseUtcOffset('+25:00')).toBeNull();
+
+		const series = buildSeries(
+			[
+				{ bucket: '2026-02-01', key: 'trust_risk', value: 2, items: 2 },
+				{ bucket: '2026-03-01', key: 'trust_risk', value: 3, items: 3 },
+			],
+			['2026-01-01', '2026-02-01', '2026-03-01'],
+			1,
+			'count'
+		);
+		expect(series).toEqual([
+			{
+				key: 'trust_risk',
+				total: 5,
+				points: [
+					{ bucket: '2026-02-01', value: 2, delta: 2, growth_rate: null },
+					{ bucket: '2026-03-01', value: 3, delta: 1, growth_rate: 0.5 },
+				],
+			},
+		]);
+	});
+
+	it('reports week-over-week deltas per route, source, signal and score', async () => {
+		const db = new FeedbackDB(env.DB);
+		await seed(db, [
+			{ id: 'gh-issue-1', source: 'github', daysAgo: 0, route: 'immediate_engineering,trust_risk', urgency: 5 },
+			{ id: 'gh-issue-2', source: 'github', daysAgo: 0, route: 'trust_risk', urgency: 3 },
+			{ id: 'discord-1', source: 'discord', daysAgo: 0, route: 'standard_backlog', urgency: 1 },
+			{ id: 'gh-issue-3', source: 'github', daysAgo: 7, route: 'trust_risk', urgency: 2 },
+		]);
+
+		const daily = await (await SELF.fetch('http://example.com/api/trends?interval=day')).json<any>();
+		expect(daily).toMatchObject({ interval: 'day', utc_offset: 'Z', compared_with: 'previous_week' });
+		expect(daily.buckets).toHaveLength(14);
+		const last = (series: any[], key: string) => series.find((s) => s.key === key).points.at(-1);
+
+		expect(daily.routes.map((s: any) => [s.key, s.total])).toEqual([
+			['trust_risk', 3],
+			['immediate_engineering', 1],
+			['standard_backlog', 1],
+		]);
+		expect(last(daily.routes, 'trust_risk')).toEqual({ bucket: daily.buckets[13], value: 2, delta: 1, growth_rate: 1 });
+		expect(last(daily.routes, 'immediate_engineering')).toMatchObject({ value: 1, delta: 1, growth_rate: null });
+		expect(last(daily.sources, 'github')).toMatchObject({ value: 2, delta: 1, growth_rate: 1 });
+		expect(last(daily.signals, 'feature_area:tunnels')).toMatchObject({ value: 3, delta: 2, growth_rate: 2 });
+		expect(last(daily.scores, 'urgency')).toMatchObject({ value: 3, delta: 1, growth_rate: 0.5 });
+		// Days without classifications have no average
+		expect(daily.scores.find((s: any) => s.key === 'urgency').points[12]).toMatchObject({ value: null, delta: null });
+
+		const weekly = await (await SELF.fetch('http://example.com/api/trends?interval=week&periods=2')).json<any>();
+		expect(weekly.buckets).toHaveLength(2);
+		expect(last(weekly.routes, 'trust_risk')).toMatchObject({ value: 2, delta: 1, growth_rate: 1 });
+
+		const invalid = await SELF.fetch('http://example.com/api/trends?interval=hour');
+		expect(invalid.status).toBe(400);
+		for (const query of ['periods=-5', 'periods=1.5', 'limit=0', 'limit=abc']) {
+			const response = await SELF.fetch(`http://example.com/api/trends?${query}`);
+			expect(response.status).toBe(400);
+			expect(await response.json()).toEqual({ error: 'periods and limit must be positive integers' });
+		}
+	});
+
+	it('compares trending signal windows as ISO instants', async () => {
+		const db = new FeedbackDB(env.DB);
+		await db.ingestFeedbackBatch([
+			{ id: 'gh-issue-1', source: 'github', title: 'Early', content: 'Tunnel issue', created_at: '2026-01-10T01:00:00.000Z' },
+			{ id: 'gh-issue-2', source: 'github', title: 'Late', content: 'Tunnel issue', created_at: '2026-01-10T13:00:00.000Z' },
+		]);
+		await db.storeSignals([
+			{ feedback_id: 'gh-issue-1', signal_type: 'feature_area', signal_value: 'tunnels', confidence: 0.9 },
+			{ feedback_id: 'gh-issue-2', signal_type: 'feature_area', signal_value: 'tunnels', confidence: 0.9 },
+		]);
+
+		// Same calendar day as the window start but before it: excluded
+		const trending = await db.getTrendingSignals('2026-01-10T12:00:00.000Z');
+		expect(trending).toEqual([expect.objectContaining({ signal_value: 'tunnels', frequency: 1 })]);
+	});
+});
@@ -0,0 +1,61 @@
+import { SELF } from 'cloudflare:test';
+import { beforeAll, describe, it, expect } from 'vitest';
+import { normalizeTimestamp, validateFeedback } from '../src/validation';
+import { applySchema } from './schema';
+
+const sources = new Set(['github', 'x']);
+const valid = { id: 'gh-1', source: 'github', title: 'QUIC fallback', content: 'never retries', created_at: '2026-01-02T03:04:05+02:00' };
+
+describe('feedback validation', () => {
+	beforeAll(applySchema);
+
+	it('normalizes timestamps to UTC ISO 8601', () => {
+		expect(normalizeTimestamp('2026-01-02T03:04:05+02:00')).toBe('2026-01-02T01:04:05.000Z');
+		expect(normalizeTimestamp(1767225600)).toBe('2026-01-01T00:00:00.000Z');
+		expect(normalizeTimestamp('yesterday')).toBeNull();
+		expect(normalizeTimestamp(1e20)).toBeNull();
+	});
+
+	it('reports field-level errors', () => {
+		const result = validateFeedback({ ...valid, title: '', source: 'myspace', raw_metadata: '{oops' }, sources);
+
+		expect(result.ok).toBe(false);
+		expect(!result.ok && result.errors.map((e) => e.field)).toEqual(['title', 'source', 'raw_metadata']);
+	});
+
+	it('ingests valid items and returns invalid ones with their index', async () => {
+		const response = await SELF.fetch('http://example.com/api/ingest', {
+			method: 'POST',
+			body: JSON.stringify([valid, { ...valid, id: 'gh-2', created_at: 'last tuesday' }]),
+		});
+		const body = (await response.json()) as any;
+
+		expect(response.status).toBe(200);
+		expect(body.ingested).toBe(1);
+		expect(body.rejected).toEqual([
+			{ index: 1, id: 'gh-2', errors: [{ field: 'created_at', message: 'must be an ISO 8601 timestamp' }] },
+		]);
+	});
+
+	it('only accepts thread roots as reply parents', async () => {
+		const response = await SELF.fetch('http://example.com/api/ingest', {
+			method: 'POST',
+			body: JSON.stringify([
+				valid,
+				{ ...valid, id: 'gh-2', parent_id: 'gh-1' },
+				{ ...valid, id: 'gh-3', parent_id: 'gh-2' },
+				{ ...valid, id: 'gh-4', parent_id: 'gh-404' },
+			]),
+		});
+		const body = (await response.json()) as any;
+
+		expect(body.ingested).toBe(2);
+		expect(body.rejected).toEqual([
+			{ index: 2, id: 'gh-3', errors: [{ field: 'parent_id', message: 'references reply "gh-2"; use its thread root "gh-1"' }] },
+			{ index: 3, id: 'gh-4', errors: [{ field: 'parent_id', message: 'references unknown feedback "gh-404"' }] },
+		]);
+
+		const thread = (await (await SELF.fetch('http://example.com/api/feedback/gh-2/thread')).json()) as any;
+		expect(thread.thread_id).toBe('gh-1');
+	});
+});
@@ -1,11 +1,21 @@
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import { readFileSync } from 'node:fs';
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
 
-export default defineWorkersConfig({
+export default defineWorkersConfig(async () => ({
 	test: {
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				miniflare: {
+					bindings: {
+						GITHUB_WEBHOOK_SECRET: 'test-secret',
+						// schema.sql, applied to the isolated D1 database by test/schema.ts
+						TEST_SCHEMA: readFileSync('./schema.sql', 'utf8'),
+						// migrations/, checked against schema.sql by test/migrations.spec.ts
+						TEST_MIGRATIONS: await readD1Migrations('./migrations'),
+					},
+				},
 			},
 		},
 	},
-});
+}));
@@ -1,5 +1,5 @@
 /* eslint-disable */
-// Generated by Wrangler by running `wrangler types` (hash: c3a0a1a5d50ed11bd9b2918c37ede6d2)
+// Generated by Wrangler by running `wrangler types --env-file .dev.vars.example` (hash: 48a81122ef284ff66b51dd70ba8abd43)
 // Runtime types generated with workerd@1.20260116.0 2026-01-14 nodejs_compat
 declare namespace Cloudflare {
 	interface GlobalProps {
@@ -7,11 +7,21 @@ declare namespace Cloudflare {
 	}
 	interface Env {
 		KV: KVNamespace;
+		GITHUB_WEBHOOK_SECRET: string;
+		PII_ACCESS_TOKEN: string;
 		DB: D1Database;
+		CLASSIFY_QUEUE: Queue;
 		AI: Ai;
+		ASSETS: Fetcher;
 	}
 }
 interface Env extends Cloudflare.Env {}
+type StringifyValues<EnvType extends Record<string, unknown>> = {
+	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
+};
+declare namespace NodeJS {
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "GITHUB_WEBHOOK_SECRET" | "PII_ACCESS_TOKEN">> {}
+}
 
 // Begin runtime types
 /*! *****************************************************************************